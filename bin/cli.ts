@@ -2,12 +2,113 @@
 import fs from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
+import { parseArgs } from "util";
+import {
+  VisualTestStorageAPI,
+  createLiteStorageAdapter,
+} from "../src/storage/VisualTestStorageAPI.js";
+import type { RedisConnectionOptions } from "../src/storage/redisConnection.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
 // Get the command from arguments
 const command = process.argv[2];
 
+/**
+ * Storage options shared by commands that read/write visual test data
+ */
+const storageOptions = {
+  "redis-url": { type: "string", default: "redis://localhost:6379" },
+  "redis-cluster": { type: "string" },
+  "redis-sentinel": { type: "string" },
+  "redis-master": { type: "string", default: "mymaster" },
+  images: { type: "string" },
+  lite: { type: "boolean", default: false },
+  db: { type: "string" },
+  project: { type: "string" },
+} as const;
+
+/**
+ * Get the Redis connection options from the shared storage options
+ * @param values Parsed storage options
+ * @returns Cluster options with `--redis-cluster`, sentinel options with `--redis-sentinel`, standalone options otherwise
+ */
+const getRedisOptions = (values: {
+  "redis-url": string;
+  "redis-cluster"?: string;
+  "redis-sentinel"?: string;
+  "redis-master": string;
+}): RedisConnectionOptions => {
+  if (values["redis-cluster"]) {
+    return {
+      rootNodes: values["redis-cluster"].split(",").map((url) => ({ url })),
+    };
+  }
+
+  if (values["redis-sentinel"]) {
+    return {
+      name: values["redis-master"],
+      sentinelRootNodes: values["redis-sentinel"].split(",").map((node) => {
+        const [host = "localhost", port] = node.split(":");
+        return { host, port: port ? Number(port) : 26379 };
+      }),
+    };
+  }
+
+  return { url: values["redis-url"] };
+};
+
+/**
+ * Create and connect a storage API from the shared storage options
+ * @param values Parsed storage options
+ * @param autoMigrate Apply pending schema migrations on connect
+ * @returns The connected storage API
+ */
+const connectStorage = async (
+  values: {
+    "redis-url": string;
+    "redis-cluster"?: string;
+    "redis-sentinel"?: string;
+    "redis-master": string;
+    images?: string;
+    lite: boolean;
+    db?: string;
+    project?: string;
+  },
+  autoMigrate = true
+): Promise<VisualTestStorageAPI<unknown>> => {
+  const storageApi: VisualTestStorageAPI<unknown> = values.lite
+    ? new VisualTestStorageAPI(
+        createLiteStorageAdapter(values.db, values.images, values.project)
+      )
+    : new VisualTestStorageAPI(
+        getRedisOptions(values),
+        values.images,
+        values.project
+      );
+
+  storageApi.autoMigrate = autoMigrate;
+  await storageApi.connect();
+
+  return storageApi;
+};
+
+/**
+ * Parse an optional integer option
+ * @param value Raw option value
+ * @param name Option name for error messages
+ * @returns The parsed number or undefined
+ */
+const parseIntOption = (value: string | undefined, name: string) => {
+  if (value === undefined) return undefined;
+
+  const parsed = Number.parseInt(value, 10);
+  if (Number.isNaN(parsed) || parsed < 0) {
+    throw new Error(`--${name} must be a positive integer`);
+  }
+  return parsed;
+};
+
 if (command === "init") {
   const specTemplatePath = path.join(__dirname, "../templates/visual.spec.ts");
   const specTargetPath = path.join(process.cwd(), "tests/visual.spec.ts");
@@ -30,11 +131,319 @@ if (command === "init") {
   fs.copyFileSync(vitestConfigTemplatePath, vitestConfigTargetPath);
 
   console.log("✓ Created ./vitest.visual.config.ts");
+} else if (command === "prune") {
+  const { values } = parseArgs({
+    args: process.argv.slice(3),
+    options: {
+      ...storageOptions,
+      "older-than-days": { type: "string" },
+      "keep-last": { type: "string" },
+      "keep-unreviewed-failures": { type: "boolean", default: false },
+      "dry-run": { type: "boolean", default: false },
+    },
+  });
+
+  const storageApi = await connectStorage(values);
+
+  try {
+    const report = await storageApi.pruneRuns({
+      olderThanDays: parseIntOption(
+        values["older-than-days"],
+        "older-than-days"
+      ),
+      keepLast: parseIntOption(values["keep-last"], "keep-last"),
+      keepUnreviewedFailures: values["keep-unreviewed-failures"],
+      dryRun: values["dry-run"],
+    });
+
+    console.log(
+      `${report.dryRun ? "Would prune" : "✓ Pruned"} ${
+        report.runIds.length
+      } runs, ${report.tests} tests, ${report.images} images (${(
+        report.bytes /
+        1024 /
+        1024
+      ).toFixed(2)} MB)`
+    );
+    report.runIds.forEach((runId) => console.log(`  - ${runId}`));
+  } finally {
+    await storageApi.disconnect();
+  }
+} else if (command === "sweep") {
+  const { values } = parseArgs({
+    args: process.argv.slice(3),
+    options: {
+      ...storageOptions,
+      "stale-after-minutes": { type: "string" },
+      "dry-run": { type: "boolean", default: false },
+    },
+  });
+
+  const staleAfterMinutes = parseIntOption(
+    values["stale-after-minutes"],
+    "stale-after-minutes"
+  );
+  const storageApi = await connectStorage(values);
+
+  try {
+    const report = await storageApi.sweepStaleRuns({
+      staleAfterMs:
+        staleAfterMinutes !== undefined
+          ? staleAfterMinutes * 60 * 1000
+          : undefined,
+      dryRun: values["dry-run"],
+    });
+
+    console.log(
+      `${report.dryRun ? "Would interrupt" : "✓ Interrupted"} ${
+        report.runIds.length
+      } stale runs, ${report.tests} running tests aborted`
+    );
+    report.runIds.forEach((runId) => console.log(`  - ${runId}`));
+  } finally {
+    await storageApi.disconnect();
+  }
+} else if (command === "promote") {
+  const { values } = parseArgs({
+    args: process.argv.slice(3),
+    options: {
+      ...storageOptions,
+      branch: { type: "string" },
+    },
+  });
+
+  if (!values.branch) throw new Error("--branch is required");
+
+  const storageApi = await connectStorage(values);
+
+  try {
+    const promoted = await storageApi.promoteBaselines(values.branch);
+
+    console.log(
+      `✓ Promoted ${promoted.length} baselines from ${values.branch} to ${storageApi.baseBranch}`
+    );
+  } finally {
+    await storageApi.disconnect();
+  }
+} else if (command === "bundle") {
+  const { values } = parseArgs({
+    args: process.argv.slice(3),
+    options: {
+      ...storageOptions,
+      branch: { type: "string" },
+      out: { type: "string", default: "baselines.tar.gz" },
+    },
+  });
+
+  const storageApi = await connectStorage(values);
+
+  try {
+    fs.writeFileSync(
+      values.out,
+      await storageApi.createBaselineBundle(values.branch)
+    );
+
+    console.log(`✓ Bundled baselines to ${values.out}`);
+  } finally {
+    await storageApi.disconnect();
+  }
+} else if (command === "export") {
+  const { values } = parseArgs({
+    args: process.argv.slice(3),
+    options: {
+      ...storageOptions,
+      "run-id": { type: "string" },
+      out: { type: "string" },
+    },
+  });
+
+  const runId = values["run-id"];
+  if (!runId) throw new Error("--run-id is required");
+
+  const storageApi = await connectStorage(values);
+
+  try {
+    const outPath = values.out ?? `visual-run-${runId}.tar.gz`;
+    fs.writeFileSync(outPath, await storageApi.exportRun(runId));
+
+    console.log(`✓ Exported run ${runId} to ${outPath}`);
+  } finally {
+    await storageApi.disconnect();
+  }
+} else if (command === "import") {
+  const { values } = parseArgs({
+    args: process.argv.slice(3),
+    options: {
+      ...storageOptions,
+      archive: { type: "string" },
+    },
+  });
+
+  if (!values.archive) throw new Error("--archive is required");
+
+  const storageApi = await connectStorage(values);
+
+  try {
+    const run = await storageApi.importRun(fs.readFileSync(values.archive));
+
+    console.log(`✓ Imported run ${run.runId} from ${values.archive}`);
+  } finally {
+    await storageApi.disconnect();
+  }
+} else if (command === "migrate") {
+  const { values } = parseArgs({
+    args: process.argv.slice(3),
+    options: {
+      ...storageOptions,
+      "dry-run": { type: "boolean", default: false },
+    },
+  });
+
+  const storageApi = await connectStorage(values, false);
+
+  try {
+    const report = await storageApi.migrate({ dryRun: values["dry-run"] });
+
+    if (report.steps.length === 0) {
+      console.log(`✓ Storage schema is up to date (v${report.to})`);
+    } else {
+      console.log(
+        `${
+          report.dryRun ? "Would migrate" : "✓ Migrated"
+        } storage schema from v${report.from} to v${report.to}`
+      );
+      report.steps.forEach((step) =>
+        console.log(
+          `  - v${step.version}: ${step.description}${
+            report.dryRun
+              ? ""
+              : ` (${step.documents} documents, ${step.images} images)`
+          }`
+        )
+      );
+    }
+  } finally {
+    await storageApi.disconnect();
+  }
+} else if (command === "migrate-ids") {
+  const { values } = parseArgs({
+    args: process.argv.slice(3),
+    options: storageOptions,
+  });
+
+  const storageApi = await connectStorage(values);
+
+  try {
+    const report = await storageApi.migrateStoryIdentifiers();
+
+    console.log(
+      `✓ Migrated ${report.tests} tests and ${report.baselines} baselines to encoded story identifiers`
+    );
+  } finally {
+    await storageApi.disconnect();
+  }
+} else if (command === "fsck") {
+  const { values } = parseArgs({
+    args: process.argv.slice(3),
+    options: {
+      ...storageOptions,
+      repair: { type: "boolean", default: false },
+      clean: { type: "boolean", default: false },
+      branch: { type: "string" },
+    },
+  });
+
+  const storageApi = await connectStorage(values);
+
+  try {
+    const report = await storageApi.checkConsistency({
+      repair: values.repair,
+      clean: values.clean,
+      branch: values.branch,
+    });
+
+    console.log(`Checked ${report.runs} runs and ${report.tests} tests`);
+    console.log(
+      `${report.repaired ? "✓ Cleared" : "Found"} ${
+        report.missingImages.length
+      } references to missing images`
+    );
+    report.missingImages.forEach(({ runId, storyIdentifier, type, ref }) =>
+      console.log(`  - ${runId} ${storyIdentifier.storyId} ${type}: ${ref}`)
+    );
+    console.log(
+      `${report.cleaned ? "✓ Deleted" : "Found"} ${
+        report.orphanedImages.length
+      } orphaned images`
+    );
+    report.orphanedImages.forEach(({ ref }) => console.log(`  - ${ref}`));
+    console.log(
+      `${report.cleaned ? "✓ Deleted" : "Found"} ${
+        report.staleBaselines.length
+      } stale baselines`
+    );
+    report.staleBaselines.forEach(({ storyId, theme, viewport }) =>
+      console.log(
+        `  - ${storyId} (${theme}, ${viewport.width}x${viewport.height})`
+      )
+    );
+  } finally {
+    await storageApi.disconnect();
+  }
+} else if (command === "projects") {
+  const { values } = parseArgs({
+    args: process.argv.slice(3),
+    options: storageOptions,
+  });
+
+  const storageApi = await connectStorage(values);
+
+  try {
+    const projects = await storageApi.listProjects();
+
+    console.log(`${projects.length} projects`);
+    projects.forEach((project) => console.log(`  - ${project}`));
+  } finally {
+    await storageApi.disconnect();
+  }
 } else {
   console.log(`
 Usage: npx simple-visual-tests <command>
 
 Commands:
   init    Initialize visual regression tests
+  prune   Delete old runs (--older-than-days <n>, --keep-last <n>,
+          --keep-unreviewed-failures, --dry-run)
+  sweep   Interrupt runs whose process stopped sending heartbeats
+          (--stale-after-minutes <n>, default: 5, --dry-run)
+  promote Merge a branch's baselines into the base branch (--branch <name>)
+  bundle  Package the baselines of a branch for test runners (--branch <name>,
+          --out <path>, default: baselines.tar.gz)
+  export  Bundle a run and its images into an archive (--run-id <id>,
+          --out <path>, default: visual-run-<id>.tar.gz)
+  import  Restore a run archive (--archive <path>)
+  migrate Upgrade the stored data to the storage schema of this version
+          (--dry-run to list the pending steps)
+  migrate-ids
+          Move data stored under unencoded story ids (containing
+          characters other than letters, digits, - and _; part of migrate)
+  fsck    Check that the metadata and the images agree (--repair to clear
+          references to missing images, --clean to delete orphaned images
+          and stale baselines, --branch <name>)
+  projects
+          List the projects sharing the storage
+
+Storage options:
+  --redis-url <url>   Redis URL (default: redis://localhost:6379)
+  --redis-cluster <urls>
+                      Comma-separated URLs of Redis Cluster nodes (instead of --redis-url)
+  --redis-sentinel <hosts>
+                      Comma-separated host:port of Redis Sentinels (instead of --redis-url)
+  --redis-master <name>
+                      Master name monitored by the sentinels (default: mymaster)
+  --images <path>     Image root directory (default: VITE_VISUAL_TEST_IMAGES_PATH or ./tests/visual-test-images)
+  --lite              Use the JSON file metadata store instead of Redis
+  --db <path>         JSON database file for --lite (default: VITE_VISUAL_TEST_DB_PATH or ./tests/visual-test-db.json)
+  --project <name>    Project namespace of the keys, channels and images (default: VITE_VISUAL_TEST_PROJECT)
   `);
 }
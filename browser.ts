@@ -174,8 +174,17 @@ import type {
   StoryIdentifier,
   Theme,
   Viewport,
+  VisualTestEvent,
+  VisualTestEventPayloads,
+  VisualTestEventType,
   VisualTestResult,
 } from "./src/types/index.js";
+import {
+  EVENT_PROTOCOL_VERSION,
+  VISUAL_TEST_EVENT_TYPES,
+  isVisualTestEvent,
+  parseVisualTestEvent,
+} from "./src/storage/eventProtocol.js";
 
 import {
   getViewportConfig,
@@ -193,6 +202,13 @@ export {
   navigateStoryFrame,
   type StoryIdentifier,
   type Theme,
+  type VisualTestEvent,
+  type VisualTestEventPayloads,
+  type VisualTestEventType,
+  EVENT_PROTOCOL_VERSION,
+  VISUAL_TEST_EVENT_TYPES,
+  isVisualTestEvent,
+  parseVisualTestEvent,
 
   /**
    * Force preserve `import type { BrowserCommands } from "@vitest/browser/context";` and `import type { Assertion } from "vitest";`
@@ -31,7 +31,78 @@ interface ImportMeta {
  * Import from "simple-visual-tests/server" when using in server contexts.
  */
 
-import { VisualTestStorageAPI } from "./src/storage/VisualTestStorageAPI.js";
+import {
+  VisualTestStorageAPI,
+  createDefaultStorageAdapter,
+  createLiteStorageAdapter,
+  type FileStorageOnlyApi,
+} from "./src/storage/VisualTestStorageAPI.js";
+import {
+  RedisMetadataStore,
+  type RedisMetadataStoreOptions,
+} from "./src/storage/RedisMetadataStore.js";
+import type {
+  RedisConnection,
+  RedisConnectionOptions,
+  RedisTransaction,
+} from "./src/storage/redisConnection.js";
+import {
+  FileSystemImageStore,
+  type FileSystemImageStoreOptions,
+} from "./src/storage/FileSystemImageStore.js";
+import {
+  ContentAddressedImageStore,
+  getImageHash,
+} from "./src/storage/ContentAddressedImageStore.js";
+import {
+  S3ImageStore,
+  type S3ImageStoreOptions,
+} from "./src/storage/S3ImageStore.js";
+import type {
+  EventLogErrorListener,
+  EventLogListener,
+} from "./src/storage/eventLog.js";
+import {
+  VisualTestEventsClient,
+  type VisualTestEventsClientOptions,
+  type VisualTestEventsListener,
+} from "./src/storage/VisualTestEventsClient.js";
+import {
+  EVENT_PROTOCOL_VERSION,
+  VISUAL_TEST_EVENT_TYPES,
+  isVisualTestEvent,
+  parseVisualTestEvent,
+} from "./src/storage/eventProtocol.js";
+import type {
+  ConsistencyCheckOptions,
+  ConsistencyReport,
+  EventLogPage,
+  EventLogQuery,
+  LoggedEvent,
+  SchemaMigrationReport,
+  SchemaMigrationStep,
+  StaleRunOptions,
+  StaleRunReport,
+  VisualTestEvent,
+  VisualTestEventPayloads,
+  VisualTestEventType,
+} from "./src/types/index.js";
+import {
+  SCHEMA_MIGRATIONS,
+  SCHEMA_VERSION,
+  type SchemaMigration,
+} from "./src/storage/schema.js";
+import {
+  JsonFileMetadataStore,
+  type JsonFileEventListener,
+} from "./src/storage/JsonFileMetadataStore.js";
+import type {
+  ImageStore,
+  InterruptedRun,
+  MetadataStore,
+  RunImageType,
+  StorageAdapter,
+} from "./src/storage/StorageAdapter.js";
 import { VisualTestReporter } from "./src/reporter/VisualTestReporter.js";
 import { simpleVisualTests } from "./src/vitestAddon.js";
 
@@ -39,6 +110,51 @@ export {
   VisualTestStorageAPI,
   VisualTestReporter,
   simpleVisualTests,
+  createDefaultStorageAdapter,
+  createLiteStorageAdapter,
+  type FileStorageOnlyApi,
+  RedisMetadataStore,
+  type RedisMetadataStoreOptions,
+  type RedisConnection,
+  type RedisConnectionOptions,
+  type RedisTransaction,
+  type EventLogListener,
+  type EventLogErrorListener,
+  type EventLogPage,
+  type EventLogQuery,
+  type LoggedEvent,
+  type VisualTestEvent,
+  type VisualTestEventPayloads,
+  type VisualTestEventType,
+  EVENT_PROTOCOL_VERSION,
+  VISUAL_TEST_EVENT_TYPES,
+  isVisualTestEvent,
+  parseVisualTestEvent,
+  VisualTestEventsClient,
+  type VisualTestEventsClientOptions,
+  type VisualTestEventsListener,
+  SCHEMA_VERSION,
+  SCHEMA_MIGRATIONS,
+  type SchemaMigration,
+  type SchemaMigrationReport,
+  type SchemaMigrationStep,
+  type ConsistencyCheckOptions,
+  type ConsistencyReport,
+  type StaleRunOptions,
+  type StaleRunReport,
+  FileSystemImageStore,
+  type FileSystemImageStoreOptions,
+  ContentAddressedImageStore,
+  getImageHash,
+  S3ImageStore,
+  type S3ImageStoreOptions,
+  JsonFileMetadataStore,
+  type JsonFileEventListener,
+  type ImageStore,
+  type MetadataStore,
+  type InterruptedRun,
+  type RunImageType,
+  type StorageAdapter,
   /**
    * Force preserve `import type { TaskMeta } from "vitest";` in build output for module augmentation to work
    */
@@ -211,4 +211,24 @@ describe("Compare Snapshot", () => {
       "Image matches baseline (diff: 0.00%)"
     );
   });
+
+  /**
+   * Test that byte-identical images match without being decoded
+   * This verifies that no diff image is produced for an unchanged capture
+   */
+  test("should match byte-identical images without decoding them", async () => {
+    const notAPng = Buffer.from("not a png");
+
+    await expect(
+      compareSnapshots({} as BrowserCommandContext, notAPng, notAPng, {
+        threshold: 0.1,
+        maxDiffPercentage: 0,
+      })
+    ).resolves.toEqual({
+      matches: true,
+      message: "Image matches baseline (diff: 0.00%)",
+      diff: null,
+      diffRatio: 0,
+    });
+  });
 });
@@ -9,7 +9,8 @@ import type { ComparisonResult } from "../types/index.js";
  * This function performs a pixel-level comparison between two images, calculating
  * the percentage of different pixels and generating a visual diff image. The
  * comparison accounts for minor variations using a threshold value to determine
- * what constitutes a significant difference.
+ * what constitutes a significant difference. Byte-identical images match without
+ * being decoded and produce no diff image.
  *
  * @param ctx - Browser command context (required for type compatibility but unused)
  * @param lSnapshot - The baseline/left image snapshot as a Buffer
@@ -46,6 +47,15 @@ export const compareSnapshots: (
     diffRatio: null,
   };
 
+  // Byte-identical images match without decoding (e.g. a capture equal to its baseline)
+  if (lSnapshot.equals(rSnapshot)) {
+    comparisonResult.matches = true;
+    comparisonResult.diffRatio = 0;
+    comparisonResult.message = `Image matches baseline (diff: 0.00%)`;
+
+    return comparisonResult;
+  }
+
   // Parse both images using PNG.sync.read to extract pixel data
   // This operation may throw if the buffers are not valid PNG images
   const lImg = PNG.sync.read(lSnapshot);
@@ -7,15 +7,33 @@ import type { Reporter } from "vitest/reporters";
 import type { Vitest } from "vitest/node";
 import type { SerializedError } from "@vitest/utils";
 import { VisualTestStorageAPI } from "../storage/VisualTestStorageAPI";
+import {
+  isStorageAdapter,
+  type StorageAdapter,
+} from "../storage/StorageAdapter.js";
 
 import type { TestCase, TestModule, TestRunEndReason } from "vitest/node";
-import type { RedisClientOptions } from "redis";
+import type { RedisConnectionOptions } from "../storage/redisConnection.js";
+import type { ImageStoragePolicy } from "../types/index.js";
+import {
+  collectRunEnvironment,
+  getEnvironmentLabels,
+} from "./runEnvironment.js";
+
+/**
+ * Default interval between two heartbeats of the current run
+ */
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 30 * 1000;
 
 /**
  *
  */
 export type VisualTestReporterOptions = {
   log?: boolean; // Disable reporter logging (use another reporter like vitest 'default' but keep saving data to Redis/Filesystem)
+  labels?: Record<string, string>; // Custom labels saved on each run (e.g. { project: "design-system" }) to filter runs with `queryRuns`, merged over `VITE_VISUAL_TEST_LABELS` (e.g. "pr=42,job=1234")
+  imageStorage?: ImageStoragePolicy; // Which current/diff images to keep: "all" (default), "failures" (failed and new tests only) or "none"
+  project?: string; // Project namespace of the Redis keys, channels and images when several projects share them (default: VITE_VISUAL_TEST_PROJECT). Custom adapters are created with their own project.
+  heartbeatInterval?: number; // Milliseconds between two heartbeats of the current run (default: 30000). Runs without a recent heartbeat are interrupted by `sweepStaleRuns` (`npx simple-visual-tests sweep`), so keep it well below its staleness threshold.
 };
 
 /**
@@ -24,31 +42,42 @@ export type VisualTestReporterOptions = {
 export class VisualTestReporter implements Reporter {
   private runId!: string;
   private vitest!: Vitest;
-  private visualTestStorageApi: VisualTestStorageAPI;
+  private visualTestStorageApi: VisualTestStorageAPI<unknown>;
   private visualTestReporterOptions?: VisualTestReporterOptions;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
   /**
    * Creates a new VisualTestReporter instance
-   * @param redisOptions Redis client configuration options
+   * @param storage Redis connection options (standalone, cluster or sentinel) or a custom storage adapter
    * @param visualTestReporterOptions VisualTestReporter configuration options
    */
   constructor(
-    redisOptions: RedisClientOptions,
+    storage: RedisConnectionOptions | StorageAdapter,
     visualTestReporterOptions?: VisualTestReporterOptions
   ) {
-    this.visualTestStorageApi = new VisualTestStorageAPI(redisOptions);
+    // Narrow `storage` so each branch matches a VisualTestStorageAPI constructor overload
+    this.visualTestStorageApi = isStorageAdapter(storage)
+      ? new VisualTestStorageAPI(storage)
+      : new VisualTestStorageAPI(
+          storage,
+          undefined,
+          visualTestReporterOptions?.project
+        );
+    if (visualTestReporterOptions?.imageStorage)
+      this.visualTestStorageApi.imageStoragePolicy =
+        visualTestReporterOptions.imageStorage;
     this.visualTestReporterOptions = visualTestReporterOptions;
   }
 
   /**
-   * Initializes the reporter by connecting to Redis
+   * Initializes the reporter by connecting to the storage (Redis by default)
    */
   async onInit(ctx: Vitest): Promise<void> {
     this.vitest = ctx;
-    // Connect to Redis
+    // Connect to the metadata store
     await this.visualTestStorageApi.connect();
 
     if (this.visualTestReporterOptions?.log)
-      console.debug("[VisualTestReporter] Connected to Redis");
+      console.debug("[VisualTestReporter] Connected to storage");
 
     return;
   }
@@ -87,8 +116,19 @@ export class VisualTestReporter implements Reporter {
       testModule.children.allTests("pending")
     ).length;
 
-    const newRun = await this.visualTestStorageApi.startRun(totalTests);
+    const labels = {
+      ...getEnvironmentLabels(),
+      ...this.visualTestReporterOptions?.labels,
+    };
+
+    // Record the git revision, Storybook and browser the images come from
+    const newRun = await this.visualTestStorageApi.startRun(
+      totalTests,
+      Object.keys(labels).length > 0 ? labels : undefined,
+      await collectRunEnvironment(testModule.project)
+    );
     this.runId = newRun.runId;
+    this.startHeartbeat();
 
     if (this.visualTestReporterOptions?.log)
       console.log(
@@ -98,6 +138,35 @@ export class VisualTestReporter implements Reporter {
     return;
   }
 
+  /**
+   * Send heartbeats for the current run until it ends, so a killed process leaves
+   * a run that `sweepStaleRuns` can detect
+   */
+  private startHeartbeat() {
+    this.stopHeartbeat();
+
+    const runId = this.runId;
+    const interval =
+      this.visualTestReporterOptions?.heartbeatInterval ??
+      DEFAULT_HEARTBEAT_INTERVAL_MS;
+
+    this.heartbeatTimer = setInterval(() => {
+      this.visualTestStorageApi.heartbeat(runId).catch((error) => {
+        console.error("[VisualTestReporter] Failed to send heartbeat", error);
+      });
+    }, interval);
+    // Don't keep the process alive for the heartbeats
+    this.heartbeatTimer.unref();
+  }
+
+  /**
+   * Stop sending heartbeats for the current run
+   */
+  private stopHeartbeat() {
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    this.heartbeatTimer = null;
+  }
+
   /**
    * Handles test case preparation and starts tracking the test in Redis
    * @param testCase The test case that is ready to run
@@ -116,6 +185,10 @@ export class VisualTestReporter implements Reporter {
     }
     const storyIdentifier = testCase.meta().storyIdentifier;
 
+    // Tests setting their story identifier in their body (like the template) are
+    // recorded when their result is reported
+    if (!storyIdentifier) return;
+
     await this.visualTestStorageApi.startTest(this.runId, storyIdentifier);
 
     return;
@@ -133,13 +206,28 @@ export class VisualTestReporter implements Reporter {
       });
     });
 
-    if (testCase.options.mode !== "run") {
-      // Ignore skipped tests
+    const testMeta = testCase.meta();
+    const storyIdentifier = testMeta.storyIdentifier;
+
+    if (
+      testCase.options.mode !== "run" ||
+      testCase.result().state === "skipped"
+    ) {
+      // Record skipped tests (when their story is known) so the run summary counts them
+      if (storyIdentifier) {
+        await this.visualTestStorageApi.finishTest(this.runId, {
+          storyIdentifier,
+          status: "skipped",
+          baseline: null,
+          current: null,
+          diff: null,
+          diffRatio: null,
+          message: "Test skipped",
+        });
+      }
       return;
     }
 
-    const testMeta = testCase.meta();
-    const storyIdentifier = testMeta.storyIdentifier;
     const visualTestResult = testMeta.visualTestResult;
 
     const { status, baseline, current, diff, diffRatio, message } =
@@ -183,6 +271,8 @@ export class VisualTestReporter implements Reporter {
     unhandledErrors: ReadonlyArray<SerializedError>,
     reason: TestRunEndReason
   ): Promise<void> {
+    this.stopHeartbeat();
+
     const finishedRun = await this.visualTestStorageApi.finishRun(
       this.runId,
       reason
@@ -196,7 +286,10 @@ export class VisualTestReporter implements Reporter {
         `📊 Summary: ${summary.finished}/${summary.total} finished
         ✅ ${summary.passed} passed
         ❌ ${summary.failed} failed
-        🆕 ${summary.new} new`
+        🆕 ${summary.new} new
+        🔀 ${summary.changed} changed
+        ⏭️ ${summary.skipped} skipped
+        🛑 ${summary.aborted} aborted`
       );
       console.log(`⏱️  Duration: ${(duration / 1000).toFixed(2)}s`);
 
@@ -218,7 +311,7 @@ export class VisualTestReporter implements Reporter {
     // This allows running specific tests from the Vitest UI without losing connection
     await this.visualTestStorageApi.disconnect();
     if (this.visualTestReporterOptions?.log)
-      console.debug("[VisualTestReporter] Disconnected from Redis");
+      console.debug("[VisualTestReporter] Disconnected from storage");
 
     return;
   }
@@ -0,0 +1,82 @@
+/**
+ * Unit tests for the run environment helpers
+ * These tests verify that the provenance of a run is resolved from git, the
+ * vitest browser provider and the environment variables.
+ */
+
+import { describe, it, expect, afterEach, vi } from "vitest";
+import type { TestProject } from "vitest/node";
+import {
+  getBrowserInfo,
+  getEnvironmentLabels,
+  getGitInfo,
+} from "./runEnvironment";
+
+/**
+ * Create a vitest project running with a browser provider
+ * @param provider - State of the browser provider
+ * @returns Project exposing the provider
+ */
+const projectWithProvider = (provider: Record<string, unknown>) =>
+  ({
+    browser: { provider },
+    config: { browser: { name: "chromium" } },
+  } as unknown as TestProject);
+
+describe("Run environment", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  /**
+   * Tests that the git revision of the repository is resolved
+   */
+  it("should get the git revision", async () => {
+    const git = await getGitInfo();
+
+    expect(git?.commit).toMatch(/^[0-9a-f]{40}$/);
+    expect(typeof git?.dirty).toBe("boolean");
+  });
+
+  /**
+   * Tests that git information is left out outside a repository
+   */
+  it("should skip git outside a repository", async () => {
+    await expect(getGitInfo("/")).resolves.toBeUndefined();
+  });
+
+  /**
+   * Tests that the browser is read from the Playwright provider
+   */
+  it("should describe the browser of the provider", () => {
+    expect(
+      getBrowserInfo(
+        projectWithProvider({
+          name: "playwright",
+          browserName: "firefox",
+          browser: { version: () => "140.0" },
+          options: { context: { deviceScaleFactor: 2 } },
+        })
+      )
+    ).toEqual({
+      browser: { name: "firefox", version: "140.0", provider: "playwright" },
+      deviceScaleFactor: 2,
+    });
+
+    expect(
+      getBrowserInfo(projectWithProvider({ name: "playwright", browser: null }))
+    ).toEqual({
+      browser: { name: "chromium", version: null, provider: "playwright" },
+      deviceScaleFactor: 1,
+    });
+  });
+
+  /**
+   * Tests that labels are parsed from VITE_VISUAL_TEST_LABELS
+   */
+  it("should parse labels from the environment", () => {
+    vi.stubEnv("VITE_VISUAL_TEST_LABELS", "pr=42, job = 1234,invalid,=x");
+
+    expect(getEnvironmentLabels()).toEqual({ pr: "42", job: "1234" });
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Run environment and provenance
+ *
+ * Collects what produced the images of a run (git revision, Storybook, browser and
+ * device scale factor) so `VisualTestReporter` records it on the run. Every part is
+ * best effort: what can't be resolved is left out instead of failing the run.
+ */
+
+import { execFile } from "child_process";
+import { promisify } from "util";
+import type { TestProject } from "vitest/node";
+import type { RunEnvironment } from "../types/index.js";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Default Storybook URL (same as the story loader of the test template)
+ */
+const DEFAULT_STORYBOOK_URL = "http://localhost:6006";
+
+/**
+ * How long to wait for git and Storybook before leaving their fields out
+ */
+const PROVENANCE_TIMEOUT_MS = 5000;
+
+/**
+ * State of the vitest browser providers read to describe the browser
+ * (not part of the `BrowserProvider` interface)
+ */
+type BrowserProviderState = {
+  name: string;
+  browserName?: string;
+  browser?: { version?: () => string } | null;
+  options?: { context?: { deviceScaleFactor?: number } };
+};
+
+/**
+ * Run a git command
+ * @param args Arguments of the git command
+ * @param cwd Working directory
+ * @returns Trimmed output of the command
+ */
+const git = async (args: string[], cwd?: string) =>
+  (
+    await execFileAsync("git", args, { cwd, timeout: PROVENANCE_TIMEOUT_MS })
+  ).stdout.trim();
+
+/**
+ * Get the git revision of a working tree
+ * @param cwd Working directory (default: process working directory)
+ * @returns Commit, branch (`VITE_VISUAL_TEST_BRANCH` when HEAD is detached) and dirty state, or undefined outside a git repository
+ */
+export const getGitInfo = async (
+  cwd?: string
+): Promise<RunEnvironment["git"]> => {
+  try {
+    const [commit, branch, status] = await Promise.all([
+      git(["rev-parse", "HEAD"], cwd),
+      git(["rev-parse", "--abbrev-ref", "HEAD"], cwd),
+      git(["status", "--porcelain"], cwd),
+    ]);
+
+    return {
+      commit,
+      branch:
+        branch !== "HEAD"
+          ? branch
+          : process.env.VITE_VISUAL_TEST_BRANCH || null,
+      dirty: status !== "",
+    };
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Fetch a JSON file of a Storybook
+ * @param url The Storybook URL
+ * @param file The file name
+ * @returns The parsed file, or null if it can't be fetched
+ */
+const fetchStorybookJson = async (
+  url: string,
+  file: string
+): Promise<Record<string, unknown> | null> => {
+  try {
+    const response = await fetch(`${url}/${file}`, {
+      signal: AbortSignal.timeout(PROVENANCE_TIMEOUT_MS),
+    });
+    return response.ok
+      ? ((await response.json()) as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Get the URL and version of the tested Storybook
+ * The index format version comes from `index.json`, the Storybook version from
+ * `project.json` (only served by some Storybook builds).
+ * @param url The Storybook URL
+ * @returns Storybook information, or undefined if the Storybook can't be reached
+ */
+export const getStorybookInfo = async (
+  url: string
+): Promise<RunEnvironment["storybook"]> => {
+  const [index, project] = await Promise.all([
+    fetchStorybookJson(url, "index.json"),
+    fetchStorybookJson(url, "project.json"),
+  ]);
+  if (!index) return undefined;
+
+  return {
+    url,
+    version:
+      typeof project?.storybookVersion === "string"
+        ? project.storybookVersion
+        : null,
+    indexVersion: typeof index.v === "number" ? index.v : null,
+  };
+};
+
+/**
+ * Get the browser of a vitest project and its device scale factor
+ * @param project The vitest project running the visual tests
+ * @returns Browser information and device scale factor (empty when the project doesn't run in a browser)
+ */
+export const getBrowserInfo = (
+  project: TestProject
+): Pick<RunEnvironment, "browser" | "deviceScaleFactor"> => {
+  const provider = project.browser?.provider as
+    | BrowserProviderState
+    | undefined;
+  if (!provider) return {};
+
+  const name = provider.browserName ?? project.config.browser.name;
+  let version: string | null = null;
+
+  try {
+    version = provider.browser?.version?.() ?? null;
+  } catch {
+    // Browser not launched (or already closed)
+  }
+
+  const deviceScaleFactor =
+    provider.options?.context?.deviceScaleFactor ??
+    (provider.name === "playwright" ? 1 : undefined);
+
+  return {
+    ...(name && { browser: { name, version, provider: provider.name } }),
+    ...(deviceScaleFactor !== undefined && { deviceScaleFactor }),
+  };
+};
+
+/**
+ * Get the labels set with `VITE_VISUAL_TEST_LABELS` (e.g. `pr=42,job=1234`)
+ * @returns The labels by name
+ */
+export const getEnvironmentLabels = (): Record<string, string> => {
+  const labels: Record<string, string> = {};
+
+  for (const pair of (process.env.VITE_VISUAL_TEST_LABELS ?? "").split(",")) {
+    const separator = pair.indexOf("=");
+    if (separator <= 0) continue;
+
+    labels[pair.slice(0, separator).trim()] = pair.slice(separator + 1).trim();
+  }
+
+  return labels;
+};
+
+/**
+ * Collect the provenance of a run
+ * @param project The vitest project running the visual tests
+ * @returns Git, Storybook and browser information (added to the process environment by `startRun`)
+ */
+export const collectRunEnvironment = async (
+  project: TestProject
+): Promise<Partial<RunEnvironment>> => {
+  const storybookUrl =
+    project.config.env?.VITE_STORYBOOK_URL ??
+    process.env.VITE_STORYBOOK_URL ??
+    DEFAULT_STORYBOOK_URL;
+
+  const [git, storybook] = await Promise.all([
+    getGitInfo(project.config.root),
+    getStorybookInfo(storybookUrl),
+  ]);
+
+  return {
+    ...(git && { git }),
+    ...(storybook && { storybook }),
+    ...getBrowserInfo(project),
+  };
+};
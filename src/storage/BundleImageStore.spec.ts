@@ -0,0 +1,141 @@
+/**
+ * Unit tests for baseline bundles and the BundleImageStore
+ * These tests package the baselines of a lite storage into a bundle and read
+ * them back in memory and from an unpacked bundle directory.
+ */
+
+import { describe, it, expect, beforeEach, afterAll } from "vitest";
+import { mkdir, rm, writeFile } from "fs/promises";
+import { dirname, join } from "path";
+import { gunzipSync } from "zlib";
+import type { StoryIdentifier } from "../types";
+import {
+  VisualTestStorageAPI,
+  createLiteStorageAdapter,
+} from "./VisualTestStorageAPI";
+import { BaselineBundle } from "./baselineBundle";
+import { BundleImageStore } from "./BundleImageStore";
+import { unpackTar } from "./tarArchive";
+
+/**
+ * Mock storage root directory for the database file, images and unpacked bundles
+ */
+const MOCK_STORAGE_ROOT = "./spec-bundle-store";
+
+/**
+ * Creates a story identifier for a storyId
+ * @param storyId - The story identifier
+ * @returns Story identifier with a fixed theme and viewport
+ */
+const story = (storyId: string): StoryIdentifier => ({
+  storyId,
+  theme: "light",
+  viewport: { width: 1280, height: 720 },
+});
+
+describe("BundleImageStore", () => {
+  let storageAPI: VisualTestStorageAPI<unknown>;
+
+  beforeEach(async () => {
+    await rm(MOCK_STORAGE_ROOT, { recursive: true, force: true });
+    storageAPI = new VisualTestStorageAPI(
+      createLiteStorageAdapter(
+        join(MOCK_STORAGE_ROOT, "db.json"),
+        MOCK_STORAGE_ROOT
+      )
+    );
+    await storageAPI.connect();
+
+    await storageAPI.saveImage(
+      "run-1",
+      story("button"),
+      Buffer.from("base"),
+      "baseline"
+    );
+    await storageAPI.saveImage(
+      "run-1",
+      story("card"),
+      Buffer.from("card"),
+      "baseline"
+    );
+  });
+
+  afterAll(async () => {
+    await storageAPI.disconnect();
+    await rm(MOCK_STORAGE_ROOT, { recursive: true, force: true });
+  });
+
+  /**
+   * Tests that a branch bundle holds branch baselines with base branch fallback
+   */
+  it("should serve the baselines of a bundle from memory", async () => {
+    await storageAPI["images"].saveBaseline(
+      story("button"),
+      Buffer.from("branch"),
+      undefined,
+      "feature/x"
+    );
+
+    const archive = await storageAPI.createBaselineBundle("feature/x");
+    const bundle = await BaselineBundle.fromArchive(archive);
+
+    expect(bundle.manifest).toMatchObject({
+      branch: "feature/x",
+      baselines: [
+        { file: "baselines/button-light-1280x720.png", size: 6 },
+        { file: "baselines/card-light-1280x720.png", size: 4 },
+      ],
+    });
+    expect(bundle.manifest.hash).toMatch(/^[0-9a-f]{64}$/);
+
+    const runnerApi = new VisualTestStorageAPI({
+      metadata: storageAPI["metadata"],
+      images: new BundleImageStore(bundle),
+    });
+    await expect(runnerApi.getBaseline(story("button"))).resolves.toEqual(
+      Buffer.from("branch")
+    );
+    await expect(runnerApi.getBaseline(story("card"))).resolves.toEqual(
+      Buffer.from("card")
+    );
+    await expect(runnerApi.getBaseline(story("missing"))).resolves.toBeNull();
+  });
+
+  /**
+   * Tests that an unpacked bundle is read from disk and checked against its hashes
+   */
+  it("should read an unpacked bundle and check its hashes", async () => {
+    const archive = await storageAPI.createBaselineBundle();
+    const dir = join(MOCK_STORAGE_ROOT, "unpacked");
+
+    for (const { name, content } of unpackTar(gunzipSync(archive))) {
+      await mkdir(dirname(join(dir, name)), { recursive: true });
+      await writeFile(join(dir, name), content);
+    }
+
+    const store = new BundleImageStore(dir);
+    await expect(store.listBaselines()).resolves.toHaveLength(2);
+    await expect(store.getBaseline(story("card"))).resolves.toEqual(
+      Buffer.from("card")
+    );
+
+    await writeFile(
+      join(dir, "baselines", "card-light-1280x720.png"),
+      Buffer.from("tampered")
+    );
+    await expect(store.getBaseline(story("card"))).rejects.toThrow(
+      "integrity check failed"
+    );
+  });
+
+  /**
+   * Tests that bundles can't be written to
+   */
+  it("should be read-only", async () => {
+    const store = new BundleImageStore(
+      await BaselineBundle.fromArchive(await storageAPI.createBaselineBundle())
+    );
+
+    await expect(store.saveBaseline()).rejects.toThrow("read-only");
+  });
+});
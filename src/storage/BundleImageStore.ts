@@ -0,0 +1,139 @@
+/**
+ * Baseline bundle image store for test runners
+ *
+ * Read-only `ImageStore` serving baselines from a baseline bundle (a bundle file
+ * or an unpacked bundle directory), so runners don't need access to the shared
+ * baseline storage. The bundle already holds the baselines resolved for one branch,
+ * so namespaces are ignored. Image references are bundle paths.
+ */
+
+import type {
+  BaselineVersion,
+  ImageUsage,
+  StoryIdentifier,
+} from "../types/index.js";
+import type { ImageStore } from "./StorageAdapter.js";
+import { BaselineBundle } from "./baselineBundle.js";
+import { SCHEMA_VERSION } from "./schema.js";
+
+export class BundleImageStore implements ImageStore {
+  private bundle: Promise<BaselineBundle> | null = null;
+  private readonly source: string | BaselineBundle;
+
+  /**
+   * @param source Path to a bundle file or unpacked bundle directory (loaded on first use), or a loaded bundle
+   */
+  constructor(source: string | BaselineBundle) {
+    this.source = source;
+  }
+
+  /**
+   * Get the bundle, loading it on first use
+   * @returns The bundle
+   */
+  private getBundle(): Promise<BaselineBundle> {
+    this.bundle ??=
+      typeof this.source === "string"
+        ? BaselineBundle.load(this.source)
+        : Promise.resolve(this.source);
+
+    return this.bundle;
+  }
+
+  /**
+   * Reject writes: bundles are read-only
+   */
+  private readOnly(): never {
+    throw new Error("Baseline bundle image store is read-only");
+  }
+
+  /**
+   * Load the bundle (and check its manifest)
+   */
+  async init() {
+    await this.getBundle();
+  }
+
+  async saveBaseline(): Promise<string> {
+    return this.readOnly();
+  }
+
+  async listBaselineVersions(): Promise<BaselineVersion[]> {
+    return [];
+  }
+
+  async restoreBaselineVersion(): Promise<string> {
+    return this.readOnly();
+  }
+
+  async promoteBaselines(): Promise<string[]> {
+    return this.readOnly();
+  }
+
+  async saveRunImage(): Promise<string> {
+    return this.readOnly();
+  }
+
+  async getImage(ref: string): Promise<Buffer | null> {
+    return (await this.getBundle()).read(ref);
+  }
+
+  async getBaselineRef(
+    storyIdentifier: StoryIdentifier
+  ): Promise<string | null> {
+    return (await this.getBundle()).getBaselineRef(storyIdentifier);
+  }
+
+  async listBaselines(): Promise<StoryIdentifier[]> {
+    return (await this.getBundle()).listBaselines();
+  }
+
+  async getBaseline(storyIdentifier: StoryIdentifier): Promise<Buffer | null> {
+    return (await this.getBundle()).getBaseline(storyIdentifier);
+  }
+
+  async getRunImage(): Promise<Buffer | null> {
+    return null;
+  }
+
+  async deleteTestImages(): Promise<void> {
+    return this.readOnly();
+  }
+
+  async deleteBaseline(): Promise<void> {
+    return this.readOnly();
+  }
+
+  async deleteRunImages(): Promise<ImageUsage> {
+    return this.readOnly();
+  }
+
+  async listRunImages(): Promise<Record<string, string[]>> {
+    return {};
+  }
+
+  async hasImage(ref: string): Promise<boolean> {
+    return (await (await this.getBundle()).read(ref)) !== null;
+  }
+
+  async deleteRunImage(): Promise<void> {
+    return this.readOnly();
+  }
+
+  async migrateImageIds(): Promise<number> {
+    return 0;
+  }
+
+  async getSchemaVersion(): Promise<number> {
+    // Bundles are versioned by their manifest, checked when loaded
+    return SCHEMA_VERSION;
+  }
+
+  async setSchemaVersion(): Promise<void> {
+    return this.readOnly();
+  }
+
+  async migrateSchema(): Promise<number> {
+    return 0;
+  }
+}
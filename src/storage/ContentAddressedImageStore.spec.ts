@@ -0,0 +1,275 @@
+/**
+ * Unit tests for the ContentAddressedImageStore
+ * These tests verify that run images and baselines are stored once per content
+ * and that blobs are only deleted once no image file links them.
+ */
+
+import { describe, it, expect, beforeEach, afterAll, vi } from "vitest";
+import { link, readdir, rm, stat } from "fs/promises";
+import { existsSync } from "fs";
+import { join } from "path";
+import type { StoryIdentifier } from "../types";
+import {
+  ContentAddressedImageStore,
+  getImageHash,
+} from "./ContentAddressedImageStore";
+
+vi.mock("fs/promises", async (importOriginal) => {
+  const fs = await importOriginal<typeof import("fs/promises")>();
+  return { ...fs, link: vi.fn(fs.link) };
+});
+
+/**
+ * Mock storage root directory for test images
+ */
+const MOCK_STORAGE_ROOT = "./spec-cas-image-store";
+
+/**
+ * Create a story identifier
+ * @param storyId - The story id
+ * @returns Story identifier with a fixed theme and viewport
+ */
+const story = (storyId: string): StoryIdentifier => ({
+  storyId,
+  theme: "light",
+  viewport: { width: 1280, height: 720 },
+});
+
+describe("ContentAddressedImageStore", () => {
+  let store: ContentAddressedImageStore;
+
+  /**
+   * Count the blobs stored under the image root
+   * @returns Number of blob files
+   */
+  const countBlobs = async () =>
+    (
+      await readdir(join(MOCK_STORAGE_ROOT, "blobs"), { recursive: true })
+    ).filter((file) => file.endsWith(".png")).length;
+
+  /**
+   * Start every test with a fresh image root
+   */
+  beforeEach(async () => {
+    await rm(MOCK_STORAGE_ROOT, { recursive: true, force: true });
+    store = new ContentAddressedImageStore(MOCK_STORAGE_ROOT);
+    await store.init();
+  });
+
+  afterAll(async () => {
+    await rm(MOCK_STORAGE_ROOT, { recursive: true, force: true });
+  });
+
+  /**
+   * Tests that identical images share one blob named after their hash
+   */
+  it("should store identical images once", async () => {
+    const buffer = Buffer.from("capture");
+
+    const ref1 = await store.saveRunImage(
+      "run-1",
+      story("button"),
+      buffer,
+      "current"
+    );
+    const ref2 = await store.saveRunImage(
+      "run-2",
+      story("button"),
+      buffer,
+      "current"
+    );
+    const ref3 = await store.saveRunImage(
+      "run-2",
+      story("card"),
+      buffer,
+      "current"
+    );
+
+    const hash = getImageHash(buffer);
+    expect(ref1).toBe(
+      join(MOCK_STORAGE_ROOT, "blobs", hash.slice(0, 2), `${hash}.png`)
+    );
+    expect(ref2).toBe(ref1);
+    expect(ref3).toBe(ref1);
+    await expect(countBlobs()).resolves.toBe(1);
+    await expect(
+      store.getRunImage("run-2", story("card"), "current")
+    ).resolves.toEqual(buffer);
+  });
+
+  /**
+   * Tests that deleting a run only deletes the blobs no other run references
+   */
+  it("should only delete unreferenced blobs", async () => {
+    const shared = Buffer.from("shared");
+    const own = Buffer.from("own");
+
+    await store.saveRunImage("run-1", story("button"), shared, "current");
+    await store.saveRunImage("run-1", story("button"), own, "diff");
+    await store.saveRunImage("run-2", story("button"), shared, "current");
+
+    await expect(store.deleteRunImages("run-1", true)).resolves.toEqual({
+      files: 1,
+      bytes: own.length,
+    });
+    await expect(store.deleteRunImages("run-1")).resolves.toEqual({
+      files: 1,
+      bytes: own.length,
+    });
+
+    await expect(countBlobs()).resolves.toBe(1);
+    await expect(
+      store.getRunImage("run-1", story("button"), "current")
+    ).resolves.toBeNull();
+    await expect(
+      store.getRunImage("run-2", story("button"), "current")
+    ).resolves.toEqual(shared);
+
+    await store.deleteRunImages("run-2");
+    await expect(countBlobs()).resolves.toBe(0);
+  });
+
+  /**
+   * Tests that run images are listed as blobs and deleted one run at a time
+   */
+  it("should list and delete the blobs of a run", async () => {
+    const shared = Buffer.from("shared");
+
+    const ref = await store.saveRunImage(
+      "run-1",
+      story("button"),
+      shared,
+      "current"
+    );
+    await store.saveRunImage("run-1", story("card"), shared, "current");
+    await store.saveRunImage("run-2", story("button"), shared, "current");
+
+    await expect(store.listRunImages()).resolves.toEqual({
+      "run-1": [ref],
+      "run-2": [ref],
+    });
+
+    await store.deleteRunImage("run-1", ref);
+    await expect(store.listRunImages()).resolves.toEqual({
+      "run-1": [],
+      "run-2": [ref],
+    });
+    await expect(store.hasImage(ref)).resolves.toBe(true);
+
+    await store.deleteRunImage("run-2", ref);
+    await expect(store.hasImage(ref)).resolves.toBe(false);
+  });
+
+  /**
+   * Tests that replacing a run image releases the previous blob
+   */
+  it("should release the blob of a replaced image", async () => {
+    const first = await store.saveRunImage(
+      "run-1",
+      story("button"),
+      Buffer.from("first"),
+      "current"
+    );
+    await store.saveRunImage(
+      "run-1",
+      story("button"),
+      Buffer.from("second"),
+      "current"
+    );
+
+    expect(existsSync(first)).toBe(false);
+    await expect(countBlobs()).resolves.toBe(1);
+  });
+
+  /**
+   * Tests that deleting the images of a test keeps the blobs other tests reference
+   */
+  it("should delete test images", async () => {
+    const buffer = Buffer.from("capture");
+
+    await store.saveRunImage("run-1", story("button"), buffer, "current");
+    await store.saveRunImage("run-1", story("card"), buffer, "current");
+
+    await store.deleteTestImages("run-1", story("button"));
+
+    await expect(
+      store.getRunImage("run-1", story("button"), "current")
+    ).resolves.toBeNull();
+    await expect(
+      store.getRunImage("run-1", story("card"), "current")
+    ).resolves.toEqual(buffer);
+
+    await store.deleteTestImages("run-1", story("card"));
+    await expect(countBlobs()).resolves.toBe(0);
+  });
+
+  /**
+   * Tests that store instances sharing the image root never delete a blob the other links
+   */
+  it("should share blobs between store instances", async () => {
+    const buffer = Buffer.from("capture");
+    const other = new ContentAddressedImageStore(MOCK_STORAGE_ROOT);
+
+    await store.saveRunImage("run-1", story("button"), buffer, "current");
+    const [, ref] = await Promise.all([
+      other.deleteRunImages("run-1"),
+      store.saveRunImage("run-2", story("button"), buffer, "current"),
+    ]);
+
+    await expect(other.getImage(ref)).resolves.toEqual(buffer);
+    await expect(
+      other.getRunImage("run-2", story("button"), "current")
+    ).resolves.toEqual(buffer);
+
+    await other.deleteRunImages("run-2");
+    await expect(countBlobs()).resolves.toBe(0);
+  });
+
+  /**
+   * Tests that baselines, their history and run images share the blob of identical images
+   */
+  it("should store baselines as blobs", async () => {
+    const buffer = Buffer.from("capture");
+
+    const ref = await store.saveRunImage(
+      "run-1",
+      story("button"),
+      buffer,
+      "current"
+    );
+    const baseline = await store.saveBaseline(story("button"), buffer);
+    const [version] = await store.listBaselineVersions(story("button"));
+
+    expect((await stat(baseline)).ino).toBe((await stat(ref)).ino);
+    expect((await stat(version?.ref ?? "")).ino).toBe((await stat(ref)).ino);
+    await expect(countBlobs()).resolves.toBe(1);
+
+    await store.deleteRunImages("run-1");
+    await expect(store.getBaseline(story("button"))).resolves.toEqual(buffer);
+    await expect(countBlobs()).resolves.toBe(1);
+  });
+
+  /**
+   * Tests that images are never copied when hard links can't be made
+   */
+  it("should refuse filesystems without hard links", async () => {
+    const unsupported = Object.assign(new Error("link not permitted"), {
+      code: "EPERM",
+    });
+
+    vi.mocked(link).mockRejectedValueOnce(unsupported);
+    await expect(
+      new ContentAddressedImageStore(MOCK_STORAGE_ROOT).init()
+    ).rejects.toThrow("its filesystem doesn't support hard links (EPERM)");
+
+    vi.mocked(link).mockRejectedValue(unsupported);
+    try {
+      await expect(
+        store.saveBaseline(story("button"), Buffer.from("capture"))
+      ).rejects.toThrow("link not permitted");
+    } finally {
+      vi.mocked(link).mockRestore();
+    }
+    await expect(store.getBaseline(story("button"))).resolves.toBeNull();
+  });
+});
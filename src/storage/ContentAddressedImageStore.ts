@@ -0,0 +1,359 @@
+/**
+ * Content-addressed filesystem image store
+ *
+ * `FileSystemImageStore` variant storing every image once per content: each image
+ * is a blob named after its SHA-256 in `blobs/{hash[0..1]}/{hash}.png`, and run
+ * images, baseline versions and active baselines are hard links to their blob, so
+ * identical captures across tests, runs and baselines cost no extra disk. Run image
+ * references are the blob paths; baseline references are the baseline paths, like
+ * in `FileSystemImageStore`.
+ *
+ * The references of a blob are its links: no count is cached, so several processes
+ * can share the image root. A blob is deleted once no image file links it anymore;
+ * it is moved aside first and put back if another process linked it meanwhile, and
+ * a process linking a blob deleted since it checked writes it again.
+ *
+ * The image root must be on a filesystem supporting hard links: `init` checks it,
+ * and an image is never copied instead of linked, since a copy isn't a reference
+ * to its blob (which would be deleted while the copy still uses it).
+ */
+
+import { createHash, randomUUID } from "crypto";
+import { existsSync } from "fs";
+import {
+  link,
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  stat,
+  writeFile,
+} from "fs/promises";
+import { dirname, join } from "path";
+import type { ImageUsage, StoryIdentifier } from "../types/index.js";
+import type { RunImageType } from "./StorageAdapter.js";
+import { FileSystemImageStore } from "./FileSystemImageStore.js";
+
+/**
+ * Identity, link count and size of a stored image file
+ */
+type ImageFileStat = { id: string; links: number; size: number };
+
+/**
+ * Compute the content hash of an image
+ * @param buffer The image buffer
+ * @returns Hex SHA-256 digest
+ */
+export const getImageHash = (buffer: Buffer) =>
+  createHash("sha256").update(buffer).digest("hex");
+
+/**
+ * Get the identity (device and inode), link count and size of an image file
+ * @param path Path of the image file
+ * @returns The file stat, or null if there is no file at the path
+ */
+const statImageFile = async (path: string): Promise<ImageFileStat | null> => {
+  const fileStat = await stat(path, { bigint: true }).catch(() => null);
+  if (!fileStat?.isFile()) return null;
+
+  return {
+    id: `${fileStat.dev}:${fileStat.ino}`,
+    links: Number(fileStat.nlink),
+    size: Number(fileStat.size),
+  };
+};
+
+/**
+ * Get the code of a filesystem error
+ * @param error Error thrown by `fs`
+ * @returns The error code (e.g. `ENOENT`)
+ */
+const getErrorCode = (error: unknown) => (error as NodeJS.ErrnoException).code;
+
+export class ContentAddressedImageStore extends FileSystemImageStore {
+  // ---------------------------
+  // Paths helpers
+  // ---------------------------
+  private getBlobDir() {
+    return join(this.imageRoot, "blobs");
+  }
+
+  /**
+   * Get path of an image blob
+   * @param hash Content hash of the image
+   * @returns Path to the blob (the image reference)
+   */
+  private getBlobPath(hash: string) {
+    return join(this.getBlobDir(), hash.slice(0, 2), `${hash}.png`);
+  }
+
+  // ---------------------------
+  // Blob helpers
+  // ---------------------------
+  /**
+   * Get the blob of a stored image file from its content
+   * @param path Path of the image file
+   * @returns Path to the blob
+   */
+  private async getContentBlobPath(path: string) {
+    return this.getBlobPath(getImageHash(await readFile(path)));
+  }
+
+  /**
+   * Map the identity of every blob to its path
+   * @returns Blob paths by file identity
+   */
+  private async getBlobIds(): Promise<Map<string, string>> {
+    const blobDir = this.getBlobDir();
+    const blobs = new Map<string, string>();
+
+    if (!existsSync(blobDir)) return blobs;
+
+    for (const file of await readdir(blobDir, { recursive: true })) {
+      if (!file.endsWith(".png")) continue;
+
+      const path = join(blobDir, file);
+      const blob = await statImageFile(path);
+      if (blob) blobs.set(blob.id, path);
+    }
+
+    return blobs;
+  }
+
+  /**
+   * Write a blob unless it exists: an existing blob is never replaced, so the
+   * files linking it stay links to the blob path
+   * @param blobPath Path of the blob
+   * @param buffer The image buffer
+   */
+  private async writeBlob(blobPath: string, buffer: Buffer) {
+    const tmpPath = `${blobPath}.${randomUUID()}.tmp`;
+
+    await mkdir(dirname(blobPath), { recursive: true });
+    await writeFile(tmpPath, Buffer.from(buffer));
+    try {
+      await link(tmpPath, blobPath);
+    } catch (error) {
+      if (getErrorCode(error) !== "EEXIST") throw error;
+    } finally {
+      await rm(tmpPath, { force: true });
+    }
+  }
+
+  /**
+   * Delete a blob if no image file links it
+   * The blob is moved aside before checking its links again, and put back if
+   * another process linked it in the meantime.
+   * @param blobPath Path of the blob
+   */
+  private async collectBlob(blobPath: string) {
+    if ((await statImageFile(blobPath))?.links !== 1) return;
+
+    const deletedPath = `${blobPath}.${randomUUID()}.deleted`;
+    try {
+      await rename(blobPath, deletedPath);
+    } catch (error) {
+      if (getErrorCode(error) === "ENOENT") return;
+      throw error;
+    }
+
+    if (((await statImageFile(deletedPath))?.links ?? 1) > 1) {
+      // Another process wrote the blob again if it is back already
+      await link(deletedPath, blobPath).catch((error) => {
+        if (getErrorCode(error) !== "EEXIST") throw error;
+      });
+    }
+    await rm(deletedPath, { force: true });
+  }
+
+  // ---------------------------
+  // Image files
+  // ---------------------------
+  /**
+   * Create image storage directories if they don't exist
+   * @throws {Error} If the image root is on a filesystem without hard links
+   */
+  override async init() {
+    await super.init();
+    await mkdir(this.getBlobDir(), { recursive: true });
+    await this.assertHardLinks();
+  }
+
+  /**
+   * Check that hard links can be made in the image root
+   * @throws {Error} If linking a file fails
+   */
+  private async assertHardLinks() {
+    const probePath = join(this.getBlobDir(), `${randomUUID()}.probe`);
+
+    await writeFile(probePath, "");
+    try {
+      await link(probePath, `${probePath}.link`);
+    } catch (error) {
+      throw new Error(
+        `Cannot store content-addressed images in ${
+          this.imageRoot
+        }: its filesystem doesn't support hard links (${getErrorCode(error)})`
+      );
+    } finally {
+      await rm(probePath, { force: true });
+      await rm(`${probePath}.link`, { force: true });
+    }
+  }
+
+  /**
+   * Make a path a hard link to a blob (never a copy)
+   * @param sourcePath Path of the blob
+   * @param path Path of the link, replaced atomically if it exists
+   * @throws {Error} If the link can't be made
+   */
+  protected override async linkImageFile(sourcePath: string, path: string) {
+    const tmpPath = `${path}.${randomUUID()}.tmp`;
+
+    await mkdir(dirname(path), { recursive: true });
+    await link(sourcePath, tmpPath);
+    await rename(tmpPath, path);
+  }
+
+  /**
+   * Write an image file as a link to its blob, writing the blob if it doesn't exist
+   * (a replaced image file releases its blob)
+   * @param path Path of the image file
+   * @param buffer The image buffer to write
+   */
+  protected override async writeImageFile(path: string, buffer: Buffer) {
+    const blobPath = this.getBlobPath(getImageHash(buffer));
+    const [file, blob] = await Promise.all([
+      statImageFile(path),
+      statImageFile(blobPath),
+    ]);
+
+    if (file && file.id === blob?.id) return;
+    if (file) await this.deleteImageFiles([path]);
+    if (!blob) await this.writeBlob(blobPath, buffer);
+
+    try {
+      await this.linkImageFile(blobPath, path);
+    } catch (error) {
+      if (getErrorCode(error) !== "ENOENT") throw error;
+
+      // The blob was deleted by another process since it was checked
+      await this.writeBlob(blobPath, buffer);
+      await this.linkImageFile(blobPath, path);
+    }
+  }
+
+  /**
+   * Delete image files, and the blobs no other image file links anymore
+   * @param paths Paths of the image files (missing files are ignored)
+   * @param dryRun Only compute what would be deleted
+   * @returns Number and size of the (to be) deleted blobs
+   */
+  protected override async deleteImageFiles(
+    paths: string[],
+    dryRun = false
+  ): Promise<ImageUsage> {
+    const usage: ImageUsage = { files: 0, bytes: 0 };
+    const deleted: string[] = [];
+    const images = new Map<string, ImageFileStat & { path: string }>();
+    const linksDeleted = new Map<string, number>();
+
+    for (const path of new Set(paths)) {
+      const file = await statImageFile(path);
+      if (!file) continue;
+
+      deleted.push(path);
+      if (!images.has(file.id)) images.set(file.id, { ...file, path });
+      linksDeleted.set(file.id, (linksDeleted.get(file.id) ?? 0) + 1);
+    }
+
+    // Images left with no link but their blob
+    const released = [...images.values()].filter(
+      ({ id, links }) => links - (linksDeleted.get(id) ?? 0) <= 1
+    );
+    for (const { size } of released) {
+      usage.files++;
+      usage.bytes += size;
+    }
+
+    if (dryRun) return usage;
+
+    const blobPaths = await Promise.all(
+      released.map(({ path }) => this.getContentBlobPath(path))
+    );
+    for (const path of deleted) await rm(path, { force: true });
+    for (const blobPath of blobPaths) await this.collectBlob(blobPath);
+
+    return usage;
+  }
+
+  // ---------------------------
+  // Run images
+  // ---------------------------
+  /**
+   * Save a run image as a link to its blob
+   * @returns Path to the blob
+   */
+  override async saveRunImage(
+    runId: string,
+    storyIdentifier: StoryIdentifier,
+    buffer: Buffer,
+    type: RunImageType
+  ): Promise<string> {
+    await super.saveRunImage(runId, storyIdentifier, buffer, type);
+
+    return this.getBlobPath(getImageHash(buffer));
+  }
+
+  override async listRunImages(): Promise<Record<string, string[]>> {
+    const blobs = await this.getBlobIds();
+    const images: Record<string, string[]> = {};
+
+    for (const [runId, paths] of Object.entries(await super.listRunImages())) {
+      const refs = new Set<string>();
+
+      for (const path of paths) {
+        const file = await statImageFile(path);
+        refs.add(
+          (file && blobs.get(file.id)) ?? (await this.getContentBlobPath(path))
+        );
+      }
+      images[runId] = [...refs];
+    }
+
+    return images;
+  }
+
+  /**
+   * Delete the run image files linking a blob (the blob is deleted when no
+   * other image file links it)
+   * @param runId The unique identifier for the test run
+   * @param ref Path of the blob
+   */
+  override async deleteRunImage(runId: string, ref: string): Promise<void> {
+    const dir = this.getRunImageDir(runId);
+    const blob = await statImageFile(ref);
+    const paths: string[] = [];
+
+    if (!existsSync(dir)) return;
+
+    for (const file of await readdir(dir)) {
+      if (!file.endsWith(".png")) continue;
+
+      const path = join(dir, file);
+      const image = await statImageFile(path);
+      if (!image) continue;
+
+      if (
+        blob
+          ? image.id === blob.id
+          : (await this.getContentBlobPath(path)) === ref
+      ) {
+        paths.push(path);
+      }
+    }
+
+    await this.deleteImageFiles(paths);
+  }
+}
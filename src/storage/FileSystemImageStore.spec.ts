@@ -0,0 +1,295 @@
+/**
+ * Unit tests for the FileSystemImageStore
+ * These tests verify that baseline and run images are written, read and deleted
+ * at the expected paths under the image root.
+ */
+
+import { describe, it, expect, beforeEach, afterAll } from "vitest";
+import {
+  access,
+  mkdir,
+  readdir,
+  readFile,
+  rm,
+  stat,
+  writeFile,
+} from "fs/promises";
+import { join } from "path";
+import type { StoryIdentifier } from "../types";
+import { FileSystemImageStore } from "./FileSystemImageStore";
+import { SCHEMA_VERSION } from "./schema";
+
+/**
+ * Mock storage root directory for test images
+ */
+const MOCK_STORAGE_ROOT = "./spec-fs-image-store";
+
+const mockStoryIdentifier: StoryIdentifier = {
+  storyId: "button-primary",
+  theme: "dark",
+  viewport: { width: 1920, height: 1080 },
+};
+
+describe("FileSystemImageStore", () => {
+  let store: FileSystemImageStore;
+
+  /**
+   * Start every test with a fresh image root
+   */
+  beforeEach(async () => {
+    await rm(MOCK_STORAGE_ROOT, { recursive: true, force: true });
+    store = new FileSystemImageStore(MOCK_STORAGE_ROOT);
+    await store.init();
+  });
+
+  afterAll(async () => {
+    await rm(MOCK_STORAGE_ROOT, { recursive: true, force: true });
+  });
+
+  /**
+   * Tests that baselines are saved under `baselines/` and can be read back
+   */
+  it("should save and read a baseline", async () => {
+    const buffer = Buffer.from("baseline");
+
+    const ref = await store.saveBaseline(mockStoryIdentifier, buffer);
+
+    expect(ref).toBe(
+      join(MOCK_STORAGE_ROOT, "baselines", "button-primary-dark-1920x1080.png")
+    );
+    await expect(store.getBaselineRef(mockStoryIdentifier)).resolves.toBe(ref);
+    await expect(store.getBaseline(mockStoryIdentifier)).resolves.toEqual(
+      buffer
+    );
+  });
+
+  /**
+   * Tests that the active baseline links its version and old versions are dropped beyond the limit
+   */
+  it("should store baseline versions once and keep the history limit", async () => {
+    const limitedStore = new FileSystemImageStore(
+      MOCK_STORAGE_ROOT,
+      undefined,
+      {
+        baselineHistoryLimit: 2,
+      }
+    );
+
+    for (const content of ["v1", "v2", "v3"]) {
+      await limitedStore.saveBaseline(
+        mockStoryIdentifier,
+        Buffer.from(content)
+      );
+    }
+
+    const versions = await limitedStore.listBaselineVersions(
+      mockStoryIdentifier
+    );
+    expect(versions.map((v) => v.active)).toEqual([true, false]);
+    await expect(readFile(versions[1]?.ref ?? "")).resolves.toEqual(
+      Buffer.from("v2")
+    );
+
+    const ref = await limitedStore.getBaselineRef(mockStoryIdentifier);
+    expect((await stat(ref ?? "")).ino).toBe(
+      (await stat(versions[0]?.ref ?? "")).ino
+    );
+    await expect(
+      readdir(
+        join(
+          MOCK_STORAGE_ROOT,
+          "baseline-history",
+          "button-primary-dark-1920x1080"
+        )
+      )
+    ).resolves.toHaveLength(3);
+
+    await limitedStore.restoreBaselineVersion(
+      mockStoryIdentifier,
+      versions[1]?.versionId ?? ""
+    );
+    await expect(
+      limitedStore.getBaseline(mockStoryIdentifier)
+    ).resolves.toEqual(Buffer.from("v2"));
+  });
+
+  /**
+   * Tests that a missing baseline has no reference
+   */
+  it("should return null for a missing baseline", async () => {
+    await expect(store.getBaselineRef(mockStoryIdentifier)).resolves.toBeNull();
+    await expect(store.getBaseline(mockStoryIdentifier)).resolves.toBeNull();
+  });
+
+  /**
+   * Tests that run images are saved under `runs/{runId}/` and can be deleted
+   */
+  it("should save, read and delete run images", async () => {
+    const current = await store.saveRunImage(
+      "run-1",
+      mockStoryIdentifier,
+      Buffer.from("current"),
+      "current"
+    );
+    const diff = await store.saveRunImage(
+      "run-1",
+      mockStoryIdentifier,
+      Buffer.from("diff"),
+      "diff"
+    );
+
+    expect(current).toBe(
+      join(
+        MOCK_STORAGE_ROOT,
+        "runs",
+        "run-1",
+        "button-primary-dark-1920x1080-current.png"
+      )
+    );
+    await expect(readFile(diff)).resolves.toEqual(Buffer.from("diff"));
+    await expect(
+      store.getRunImage("run-1", mockStoryIdentifier, "current")
+    ).resolves.toEqual(Buffer.from("current"));
+
+    await store.deleteTestImages("run-1", mockStoryIdentifier);
+
+    await expect(access(current)).rejects.toThrow();
+    await expect(access(diff)).rejects.toThrow();
+  });
+
+  /**
+   * Tests that story ids can't escape the baselines directory
+   */
+  it("should encode story ids in file names", async () => {
+    const ref = await store.saveBaseline(
+      { ...mockStoryIdentifier, storyId: "../../escape/story:1" },
+      Buffer.from("baseline")
+    );
+
+    expect(ref).toBe(
+      join(
+        MOCK_STORAGE_ROOT,
+        "baselines",
+        "%2E%2E%2F%2E%2E%2Fescape%2Fstory%3A1-dark-1920x1080.png"
+      )
+    );
+  });
+
+  /**
+   * Tests that story identifiers are read back from file names, whatever `-` they contain
+   */
+  it("should list baselines of themes containing dashes", async () => {
+    const storyIdentifier: StoryIdentifier = {
+      storyId: "button--primary-large",
+      theme: "high-contrast" as StoryIdentifier["theme"],
+      viewport: { width: 1280, height: 720 },
+    };
+
+    const ref = await store.saveBaseline(storyIdentifier, Buffer.from("a"));
+
+    expect(ref).toBe(
+      join(
+        MOCK_STORAGE_ROOT,
+        "baselines",
+        "button--primary-large-high%2Dcontrast-1280x720.png"
+      )
+    );
+    await expect(store.listBaselines()).resolves.toEqual([storyIdentifier]);
+  });
+
+  /**
+   * Tests that writes resolving outside the image root are rejected
+   */
+  it("should reject paths outside the image root", async () => {
+    await expect(
+      store.saveRunImage(
+        "../../outside",
+        mockStoryIdentifier,
+        Buffer.from("current"),
+        "current"
+      )
+    ).rejects.toThrow("outside the image root");
+    await expect(
+      access(join(MOCK_STORAGE_ROOT, "..", "outside"))
+    ).rejects.toThrow();
+  });
+
+  /**
+   * Tests that a new image root records the schema version, and a root holding legacy images doesn't
+   */
+  it("should record the schema version of a new image root", async () => {
+    await expect(store.getSchemaVersion()).resolves.toBe(SCHEMA_VERSION);
+
+    const legacyRoot = join(MOCK_STORAGE_ROOT, "legacy");
+    await mkdir(join(legacyRoot, "baselines"), { recursive: true });
+    await writeFile(
+      join(legacyRoot, "baselines", "button-dark-1920x1080.png"),
+      Buffer.from("legacy")
+    );
+    const legacyStore = new FileSystemImageStore(legacyRoot);
+    await legacyStore.init();
+
+    await expect(legacyStore.getSchemaVersion()).resolves.toBe(0);
+  });
+
+  /**
+   * Tests that baselines written under legacy, unencoded ids are moved with their history
+   */
+  it("should migrate legacy baselines", async () => {
+    const legacyId = "docs/my.story-dark-1920x1080";
+    const branchRoot = join(MOCK_STORAGE_ROOT, "branches", "release-1.2");
+    const historyDir = join(branchRoot, "baseline-history", legacyId);
+
+    await mkdir(join(branchRoot, "baselines", "docs"), { recursive: true });
+    await writeFile(
+      join(branchRoot, "baselines", `${legacyId}.png`),
+      Buffer.from("legacy")
+    );
+    await mkdir(historyDir, { recursive: true });
+    await writeFile(join(historyDir, "v1.png"), Buffer.from("legacy"));
+    await writeFile(
+      join(historyDir, "manifest.json"),
+      JSON.stringify({
+        activeVersionId: "v1",
+        versions: [
+          {
+            versionId: "v1",
+            createdAt: 1,
+            runId: null,
+            acceptedBy: null,
+            ref: join(historyDir, "v1.png"),
+          },
+        ],
+      })
+    );
+
+    await expect(store.migrateImageIds()).resolves.toBe(1);
+    await expect(store.migrateImageIds()).resolves.toBe(0);
+
+    const storyIdentifier = {
+      ...mockStoryIdentifier,
+      storyId: "docs/my.story",
+    };
+    await expect(
+      store.getBaseline(storyIdentifier, "release-1.2")
+    ).resolves.toEqual(Buffer.from("legacy"));
+
+    const [version] = await store.listBaselineVersions(
+      storyIdentifier,
+      "release-1.2"
+    );
+    expect(version?.ref).toBe(
+      join(
+        MOCK_STORAGE_ROOT,
+        "branches",
+        "release-1%2E2",
+        "baseline-history",
+        "docs%2Fmy%2Estory-dark-1920x1080",
+        "v1.png"
+      )
+    );
+    await expect(readFile(version?.ref ?? "")).resolves.toEqual(
+      Buffer.from("legacy")
+    );
+  });
+});
@@ -0,0 +1,705 @@
+/**
+ * Filesystem image store for visual test results
+ *
+ * Default `ImageStore` implementation. Images are written under `imageRoot`:
+ * archived baseline versions in `baseline-history/{imageId}/`, active baselines in
+ * `baselines/` (hard links to their version, so each baseline is stored once) and
+ * run images (current/diff) in `runs/{runId}/`. Baselines of other namespaces
+ * (e.g. git branches) use the same layout under `branches/{namespace}/`.
+ * The images of a project (see `project.ts`) live under `projects/{project}/`.
+ * Image references are the file paths.
+ */
+
+import {
+  basename,
+  dirname,
+  isAbsolute,
+  join,
+  relative,
+  resolve,
+  sep,
+} from "path";
+import { randomUUID } from "crypto";
+import { existsSync } from "fs";
+import {
+  copyFile,
+  link,
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  stat,
+  writeFile,
+} from "fs/promises";
+import type {
+  BaselineSource,
+  BaselineVersion,
+  ImageUsage,
+  StoryIdentifier,
+} from "../types/index.js";
+import type { ImageStore, RunImageType } from "./StorageAdapter.js";
+import {
+  decodeIdSegment,
+  getImageId,
+  getNamespaceSegments,
+  parseImageId,
+} from "./imageId.js";
+import { getProject, getProjectDir } from "./project.js";
+import {
+  createBaselineVersion,
+  emptyBaselineHistory,
+  getBaselineHistoryLimit,
+  listBaselineVersions,
+  pruneBaselineHistory,
+  type BaselineHistoryManifest,
+} from "./baselineHistory.js";
+import { SCHEMA_VERSION } from "./schema.js";
+
+/**
+ * Options of the filesystem image store
+ *
+ * @property {number} baselineHistoryLimit - Maximum number of versions kept in the history of each baseline
+ * (default: `VITE_VISUAL_TEST_BASELINE_HISTORY_LIMIT`, every version if not set)
+ */
+export type FileSystemImageStoreOptions = {
+  baselineHistoryLimit?: number;
+};
+
+/**
+ * Get a unique temporary path next to a file, to replace it atomically
+ * @param path Path of the file
+ * @returns The temporary path
+ */
+const getTempPath = (path: string) => `${path}.${randomUUID()}.tmp`;
+
+export class FileSystemImageStore implements ImageStore {
+  readonly imageRoot: string;
+  /** Project of the images (undefined for the unprefixed layout) */
+  readonly project: string | undefined;
+  /** Maximum number of versions kept in the history of each baseline */
+  readonly baselineHistoryLimit: number;
+
+  /**
+   * @param imageRootPath Root directory for images
+   * @param project Project namespace, stored in `projects/{project}/` under the image root
+   * (default: `VITE_VISUAL_TEST_PROJECT`)
+   * @param options Baseline history retention
+   */
+  constructor(
+    imageRootPath?: string,
+    project?: string,
+    options: FileSystemImageStoreOptions = {}
+  ) {
+    this.baselineHistoryLimit = getBaselineHistoryLimit(
+      options.baselineHistoryLimit
+    );
+    this.project = getProject(project);
+    this.imageRoot = getProjectDir(
+      imageRootPath ||
+        process.env.VITE_VISUAL_TEST_IMAGES_PATH ||
+        "./tests/visual-test-images",
+      this.project
+    );
+  }
+
+  // ---------------------------
+  // Paths helpers
+  // ---------------------------
+  /**
+   * Join path segments, rejecting paths that resolve outside the image root
+   * @param segments Path segments (starting with the image root)
+   * @returns The joined path
+   */
+  protected resolvePath(...segments: string[]) {
+    const path = join(...segments);
+    const rel = relative(resolve(this.imageRoot), resolve(path));
+
+    if (rel === ".." || rel.startsWith(`..${sep}`) || isAbsolute(rel)) {
+      throw new Error(`Image path resolves outside the image root: ${path}`);
+    }
+
+    return path;
+  }
+
+  /**
+   * Get root directory of a baseline namespace
+   * @param namespace The baseline namespace (default: base namespace)
+   * @returns Path holding `baselines/` and `baseline-history/` of the namespace
+   */
+  private getBaselineRoot(namespace?: string) {
+    return join(this.imageRoot, ...getNamespaceSegments(namespace));
+  }
+
+  private getBaselineDir(namespace?: string) {
+    return join(this.getBaselineRoot(namespace), "baselines");
+  }
+
+  protected getRunDir() {
+    return join(this.imageRoot, "runs");
+  }
+
+  /**
+   * Get directory holding the archived versions of a story baseline
+   * @param imageId The image identifier of the story
+   * @param namespace The baseline namespace
+   * @returns Path to the baseline history directory
+   */
+  private getBaselineHistoryDir(imageId: string, namespace?: string) {
+    return this.resolvePath(
+      this.getBaselineRoot(namespace),
+      "baseline-history",
+      imageId
+    );
+  }
+
+  /**
+   * Get path of an archived baseline version
+   * @param imageId The image identifier of the story
+   * @param versionId The version identifier
+   * @param namespace The baseline namespace
+   * @returns Path to the archived image
+   */
+  private getBaselineVersionPath(
+    imageId: string,
+    versionId: string,
+    namespace?: string
+  ) {
+    return join(
+      this.getBaselineHistoryDir(imageId, namespace),
+      `${versionId}.png`
+    );
+  }
+
+  /**
+   * Get baseline history manifest path for a story
+   * @param imageId The image identifier of the story
+   * @param namespace The baseline namespace
+   * @returns Path to the manifest file
+   */
+  private getBaselineHistoryManifestPath(imageId: string, namespace?: string) {
+    return join(
+      this.getBaselineHistoryDir(imageId, namespace),
+      "manifest.json"
+    );
+  }
+
+  /**
+   * Get baseline image path for a story
+   * @param imageId The image identifier of the story
+   * @param namespace The baseline namespace
+   * @returns Path to the baseline image file
+   */
+  private getBaselinePath(imageId: string, namespace?: string): string {
+    return this.resolvePath(this.getBaselineDir(namespace), `${imageId}.png`);
+  }
+
+  /**
+   * Get directory for run images
+   * @param runId The unique identifier for the test run
+   * @returns Path to the directory for run images
+   */
+  protected getRunImageDir(runId: string) {
+    return this.resolvePath(this.getRunDir(), runId);
+  }
+
+  /**
+   * Get run image (current, diff or baseline copy) path for a test run
+   * @param runId The unique identifier for the test run
+   * @param storyIdentifier The identifier for the story
+   * @param type The type of image: "current", "diff" or "baseline"
+   * @returns Path to the image file
+   */
+  private getRunImagePath(
+    runId: string,
+    storyIdentifier: StoryIdentifier,
+    type: RunImageType
+  ): string {
+    const imageId = getImageId(storyIdentifier);
+
+    return this.resolvePath(
+      this.getRunImageDir(runId),
+      `${imageId}-${type}.png`
+    );
+  }
+
+  /**
+   * Get path of the file recording the schema version of the images
+   * @returns Path to `schema.json` in the image root
+   */
+  private getSchemaPath() {
+    return join(this.imageRoot, "schema.json");
+  }
+
+  // ---------------------------
+  // FS helpers
+  // ---------------------------
+  /**
+   * Create image storage directories if they don't exist
+   * A new image root records the current schema version.
+   */
+  async init() {
+    const isNew =
+      !existsSync(this.getSchemaPath()) && (await this.isEmptyImageRoot());
+
+    await mkdir(this.getBaselineDir(), { recursive: true });
+    await mkdir(this.getRunDir(), { recursive: true });
+
+    if (isNew) await this.setSchemaVersion(SCHEMA_VERSION);
+  }
+
+  /**
+   * Check if the image root holds no image yet
+   * (empty directories created by `init` and other projects are ignored)
+   * @returns True if the image root is missing or holds no file
+   */
+  private async isEmptyImageRoot() {
+    if (!existsSync(this.imageRoot)) return true;
+
+    for (const entry of await readdir(this.imageRoot, {
+      withFileTypes: true,
+    })) {
+      if (entry.name === "projects") continue;
+      if (!entry.isDirectory()) return false;
+
+      const files = await readdir(join(this.imageRoot, entry.name), {
+        recursive: true,
+        withFileTypes: true,
+      });
+      if (files.some((file) => file.isFile())) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Write an image file, replacing an existing file atomically rather than in place
+   * (the file may be linked from other paths)
+   * @param path Path of the image file
+   * @param buffer The image buffer to write
+   */
+  protected async writeImageFile(path: string, buffer: Buffer) {
+    const tmpPath = getTempPath(path);
+
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(tmpPath, Buffer.from(buffer));
+    await rename(tmpPath, path);
+  }
+
+  /**
+   * Make a path a hard link to an image file (a copy on filesystems without hard links)
+   * @param sourcePath Path of the image file
+   * @param path Path of the link, replaced atomically if it exists
+   */
+  protected async linkImageFile(sourcePath: string, path: string) {
+    const tmpPath = getTempPath(path);
+
+    await mkdir(dirname(path), { recursive: true });
+    try {
+      await link(sourcePath, tmpPath);
+    } catch (error) {
+      await copyFile(sourcePath, tmpPath);
+    }
+    await rename(tmpPath, path);
+  }
+
+  /**
+   * Delete image files
+   * @param paths Paths of the image files (missing files are ignored)
+   * @param dryRun Only compute what would be deleted
+   * @returns Number and size of the (to be) deleted images
+   */
+  protected async deleteImageFiles(
+    paths: string[],
+    dryRun = false
+  ): Promise<ImageUsage> {
+    const usage: ImageUsage = { files: 0, bytes: 0 };
+
+    for (const path of paths) {
+      const fileStat = await stat(path).catch(() => null);
+      if (!fileStat?.isFile()) continue;
+
+      usage.files++;
+      usage.bytes += fileStat.size;
+      if (!dryRun) await rm(path, { force: true });
+    }
+
+    return usage;
+  }
+
+  /**
+   * Read the baseline history manifest of a story
+   * @param imageId The image identifier of the story
+   * @param namespace The baseline namespace
+   * @returns The manifest (empty if the story has no history)
+   */
+  private async readBaselineHistory(
+    imageId: string,
+    namespace?: string
+  ): Promise<BaselineHistoryManifest> {
+    const manifestPath = this.getBaselineHistoryManifestPath(
+      imageId,
+      namespace
+    );
+    if (!existsSync(manifestPath)) return emptyBaselineHistory();
+
+    return JSON.parse(
+      await readFile(manifestPath, "utf-8")
+    ) as BaselineHistoryManifest;
+  }
+
+  /**
+   * Write the baseline history manifest of a story
+   * @param imageId The image identifier of the story
+   * @param manifest The manifest to write
+   * @param namespace The baseline namespace
+   */
+  private async writeBaselineHistory(
+    imageId: string,
+    manifest: BaselineHistoryManifest,
+    namespace?: string
+  ) {
+    await mkdir(this.getBaselineHistoryDir(imageId, namespace), {
+      recursive: true,
+    });
+    await writeFile(
+      this.getBaselineHistoryManifestPath(imageId, namespace),
+      JSON.stringify(manifest, null, 2)
+    );
+  }
+
+  /**
+   * Archive a new baseline version of a story and make it the active baseline
+   * The active baseline is a link to the version, and the versions beyond the
+   * history limit are deleted.
+   * @param imageId The image identifier of the story
+   * @param buffer The image buffer to save
+   * @param source Origin of the baseline
+   * @param namespace The baseline namespace
+   * @returns Path to the active baseline
+   */
+  private async writeBaseline(
+    imageId: string,
+    buffer: Buffer,
+    source?: BaselineSource,
+    namespace?: string
+  ): Promise<string> {
+    const version = createBaselineVersion(source);
+    const versionPath = this.getBaselineVersionPath(
+      imageId,
+      version.versionId,
+      namespace
+    );
+    const filePath = this.getBaselinePath(imageId, namespace);
+    const manifest = await this.readBaselineHistory(imageId, namespace);
+
+    await this.writeImageFile(versionPath, buffer);
+    await this.linkImageFile(versionPath, filePath);
+
+    manifest.versions.push({ ...version, ref: versionPath });
+    manifest.activeVersionId = version.versionId;
+    const expired = pruneBaselineHistory(manifest, this.baselineHistoryLimit);
+    await this.writeBaselineHistory(imageId, manifest, namespace);
+    await this.deleteImageFiles(expired.map((v) => v.ref));
+
+    return filePath;
+  }
+
+  /**
+   * Move legacy baselines of a namespace to their encoded image ids
+   * @param namespace The baseline namespace
+   * @returns Number of moved baselines
+   */
+  private async migrateNamespaceImageIds(namespace?: string) {
+    const dir = this.getBaselineDir(namespace);
+    let migrated = 0;
+
+    if (!existsSync(dir)) return migrated;
+
+    for (const file of await readdir(dir, { recursive: true })) {
+      if (!file.endsWith(".png")) continue;
+
+      // Legacy ids with `/` were written in sub directories
+      const legacyId = file.slice(0, -".png".length);
+      const storyIdentifier = parseImageId(legacyId.split(sep).join("/"));
+      if (!storyIdentifier) continue;
+
+      const imageId = getImageId(storyIdentifier);
+      if (file !== `${imageId}.png`) {
+        await rename(join(dir, file), this.getBaselinePath(imageId, namespace));
+
+        const legacyHistoryDir = join(
+          this.getBaselineRoot(namespace),
+          "baseline-history",
+          legacyId
+        );
+        if (existsSync(legacyHistoryDir)) {
+          await mkdir(dirname(this.getBaselineHistoryDir(imageId, namespace)), {
+            recursive: true,
+          });
+          await rename(
+            legacyHistoryDir,
+            this.getBaselineHistoryDir(imageId, namespace)
+          );
+        }
+        migrated++;
+      }
+
+      // Point archived versions to their (possibly moved) location
+      const manifest = await this.readBaselineHistory(imageId, namespace);
+      const versions = manifest.versions.map((version) => ({
+        ...version,
+        ref: this.getBaselineVersionPath(imageId, version.versionId, namespace),
+      }));
+      if (versions.some((v, i) => v.ref !== manifest.versions[i]?.ref)) {
+        await this.writeBaselineHistory(
+          imageId,
+          { ...manifest, versions },
+          namespace
+        );
+      }
+    }
+
+    return migrated;
+  }
+
+  async saveBaseline(
+    storyIdentifier: StoryIdentifier,
+    buffer: Buffer,
+    source?: BaselineSource,
+    namespace?: string
+  ): Promise<string> {
+    return this.writeBaseline(
+      getImageId(storyIdentifier),
+      buffer,
+      source,
+      namespace
+    );
+  }
+
+  async listBaselineVersions(
+    storyIdentifier: StoryIdentifier,
+    namespace?: string
+  ): Promise<BaselineVersion[]> {
+    return listBaselineVersions(
+      await this.readBaselineHistory(getImageId(storyIdentifier), namespace)
+    );
+  }
+
+  async restoreBaselineVersion(
+    storyIdentifier: StoryIdentifier,
+    versionId: string,
+    namespace?: string
+  ): Promise<string> {
+    const imageId = getImageId(storyIdentifier);
+    const manifest = await this.readBaselineHistory(imageId, namespace);
+    const version = manifest.versions.find((v) => v.versionId === versionId);
+    if (!version) throw new Error("Baseline version not found");
+
+    if (!existsSync(version.ref))
+      throw new Error("Baseline version image not found");
+
+    const filePath = this.getBaselinePath(imageId, namespace);
+    await this.linkImageFile(version.ref, filePath);
+
+    manifest.activeVersionId = versionId;
+    await this.writeBaselineHistory(imageId, manifest, namespace);
+
+    return filePath;
+  }
+
+  async promoteBaselines(namespace: string): Promise<string[]> {
+    const dir = this.getBaselineDir(namespace);
+    const promoted: string[] = [];
+
+    if (!existsSync(dir)) return promoted;
+
+    for (const file of await readdir(dir)) {
+      if (!file.endsWith(".png")) continue;
+
+      const imageId = basename(file, ".png");
+      const buffer = await readFile(join(dir, file));
+      const { activeVersionId, versions } = await this.readBaselineHistory(
+        imageId,
+        namespace
+      );
+      const active = versions.find((v) => v.versionId === activeVersionId);
+
+      promoted.push(
+        await this.writeBaseline(imageId, buffer, {
+          runId: active?.runId ?? null,
+          acceptedBy: active?.acceptedBy ?? null,
+        })
+      );
+    }
+
+    return promoted;
+  }
+
+  async saveRunImage(
+    runId: string,
+    storyIdentifier: StoryIdentifier,
+    buffer: Buffer,
+    type: RunImageType
+  ): Promise<string> {
+    const filePath = this.getRunImagePath(runId, storyIdentifier, type);
+    await this.writeImageFile(filePath, buffer);
+    return filePath;
+  }
+
+  async getImage(filePath: string): Promise<Buffer | null> {
+    try {
+      if (!existsSync(filePath)) return null;
+      return await readFile(filePath);
+    } catch (error) {
+      console.error(`Failed to read image from ${filePath}:`, error);
+      return null;
+    }
+  }
+
+  async getBaselineRef(
+    storyIdentifier: StoryIdentifier,
+    namespace?: string
+  ): Promise<string | null> {
+    const baselinePath = this.getBaselinePath(
+      getImageId(storyIdentifier),
+      namespace
+    );
+    return existsSync(baselinePath) ? baselinePath : null;
+  }
+
+  async listBaselines(namespace?: string): Promise<StoryIdentifier[]> {
+    const dir = this.getBaselineDir(namespace);
+
+    if (!existsSync(dir)) return [];
+
+    return (await readdir(dir))
+      .filter((file) => file.endsWith(".png"))
+      .map((file) => parseImageId(basename(file, ".png")))
+      .filter((s): s is StoryIdentifier => s !== null);
+  }
+
+  async getBaseline(
+    storyIdentifier: StoryIdentifier,
+    namespace?: string
+  ): Promise<Buffer | null> {
+    return this.getImage(
+      this.getBaselinePath(getImageId(storyIdentifier), namespace)
+    );
+  }
+
+  async getRunImage(
+    runId: string,
+    storyIdentifier: StoryIdentifier,
+    type: RunImageType
+  ): Promise<Buffer | null> {
+    return this.getImage(this.getRunImagePath(runId, storyIdentifier, type));
+  }
+
+  async deleteTestImages(
+    runId: string,
+    storyIdentifier: StoryIdentifier
+  ): Promise<void> {
+    await this.deleteImageFiles(
+      (["current", "diff"] as const).map((type) =>
+        this.getRunImagePath(runId, storyIdentifier, type)
+      )
+    );
+  }
+
+  async deleteBaseline(
+    storyIdentifier: StoryIdentifier,
+    namespace?: string
+  ): Promise<void> {
+    await this.deleteImageFiles([
+      this.getBaselinePath(getImageId(storyIdentifier), namespace),
+    ]);
+  }
+
+  async deleteRunImages(runId: string, dryRun = false): Promise<ImageUsage> {
+    const dir = this.getRunImageDir(runId);
+
+    if (!existsSync(dir)) return { files: 0, bytes: 0 };
+
+    const usage = await this.deleteImageFiles(
+      (await readdir(dir)).map((file) => join(dir, file)),
+      dryRun
+    );
+    if (!dryRun) await rm(dir, { recursive: true, force: true });
+
+    return usage;
+  }
+
+  async listRunImages(): Promise<Record<string, string[]>> {
+    const runDir = this.getRunDir();
+    const images: Record<string, string[]> = {};
+
+    if (!existsSync(runDir)) return images;
+
+    for (const entry of await readdir(runDir, { withFileTypes: true })) {
+      if (!entry.isDirectory()) continue;
+
+      const dir = join(runDir, entry.name);
+      images[entry.name] = (await readdir(dir))
+        .filter((file) => file.endsWith(".png"))
+        .map((file) => join(dir, file));
+    }
+
+    return images;
+  }
+
+  async hasImage(ref: string): Promise<boolean> {
+    return existsSync(ref);
+  }
+
+  async deleteRunImage(runId: string, ref: string): Promise<void> {
+    const path = this.resolvePath(this.getRunImageDir(runId), basename(ref));
+    await this.deleteImageFiles([path]);
+  }
+
+  async migrateImageIds(): Promise<number> {
+    const namespaces: (string | undefined)[] = [undefined];
+    const branchesDir = join(this.imageRoot, "branches");
+
+    if (existsSync(branchesDir)) {
+      for (const segment of await readdir(branchesDir)) {
+        const namespace = decodeIdSegment(segment);
+        const dir = join(this.imageRoot, ...getNamespaceSegments(namespace));
+
+        if (dir !== join(branchesDir, segment)) {
+          if (existsSync(dir)) {
+            throw new Error(
+              `Cannot migrate branch '${namespace}': ${dir} exists`
+            );
+          }
+          await rename(join(branchesDir, segment), dir);
+        }
+        namespaces.push(namespace);
+      }
+    }
+
+    let migrated = 0;
+    for (const namespace of namespaces) {
+      migrated += await this.migrateNamespaceImageIds(namespace);
+    }
+
+    return migrated;
+  }
+
+  async getSchemaVersion(): Promise<number> {
+    const path = this.getSchemaPath();
+    if (!existsSync(path)) return 0;
+
+    return (JSON.parse(await readFile(path, "utf-8")) as { version: number })
+      .version;
+  }
+
+  async setSchemaVersion(version: number): Promise<void> {
+    await mkdir(this.imageRoot, { recursive: true });
+    await writeFile(this.getSchemaPath(), JSON.stringify({ version }, null, 2));
+  }
+
+  async migrateSchema(version: number): Promise<number> {
+    return version === 2 ? this.migrateImageIds() : 0;
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * Tests for the JsonFileMetadataStore ("lite mode")
+ * These tests verify that runs and tests are persisted to a local JSON file,
+ * that events are emitted in-process, and that the VisualTestStorageAPI
+ * works end-to-end without Redis.
+ */
+
+import { describe, it, expect, beforeEach, afterAll } from "vitest";
+import { mkdir, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import type { PublishMsg, StoryIdentifier } from "../types";
+import { JsonFileMetadataStore } from "./JsonFileMetadataStore";
+import {
+  VisualTestStorageAPI,
+  createLiteStorageAdapter,
+} from "./VisualTestStorageAPI";
+
+/**
+ * Mock storage root directory for the database file and images
+ */
+const MOCK_STORAGE_ROOT = "./spec-lite-storage";
+const MOCK_DB_PATH = join(MOCK_STORAGE_ROOT, "db.json");
+
+const mockStoryIdentifier: StoryIdentifier = {
+  storyId: "button-primary",
+  theme: "light",
+  viewport: { width: 1280, height: 720 },
+};
+
+describe("JsonFileMetadataStore", () => {
+  beforeEach(async () => {
+    await rm(MOCK_STORAGE_ROOT, { recursive: true, force: true });
+  });
+
+  afterAll(async () => {
+    await rm(MOCK_STORAGE_ROOT, { recursive: true, force: true });
+  });
+
+  /**
+   * Tests that operations throw when the database is not loaded
+   */
+  it("should throw when not connected", async () => {
+    const store = new JsonFileMetadataStore(MOCK_DB_PATH);
+
+    await expect(store.getRun("run")).rejects.toThrow(
+      "JSON file store not connected"
+    );
+  });
+
+  /**
+   * Tests that data written by one instance is read back by another one
+   */
+  it("should persist runs and tests to the database file", async () => {
+    const api = new VisualTestStorageAPI(
+      createLiteStorageAdapter(MOCK_DB_PATH, MOCK_STORAGE_ROOT)
+    );
+    await api.connect();
+
+    const run = await api.startRun(1);
+    await api.startTest(run.runId, mockStoryIdentifier);
+    await api.finishTest(run.runId, {
+      storyIdentifier: mockStoryIdentifier,
+      status: "new",
+      baseline: Buffer.from("baseline"),
+      current: null,
+      diff: null,
+      diffRatio: null,
+      message: "Created new baseline",
+    });
+    await api.finishRun(run.runId, "passed");
+    await api.disconnect();
+
+    const reopened = new JsonFileMetadataStore(MOCK_DB_PATH);
+    await reopened.connect();
+
+    const savedRun = await reopened.getRun(run.runId);
+    expect(savedRun?.reason).toBe("passed");
+    expect(savedRun?.summary).toEqual({
+      total: 1,
+      finished: 1,
+      passed: 0,
+      failed: 0,
+      changed: 0,
+      skipped: 0,
+      new: 1,
+      unreviewed: 1,
+      rejected: 0,
+      aborted: 0,
+    });
+
+    await expect(reopened.listRuns()).resolves.toHaveLength(1);
+
+    const tests = await reopened.listTestsForRun(run.runId);
+    expect(tests).toHaveLength(1);
+    expect(tests[0]?.status).toBe("new");
+    expect(tests[0]?.baseline).toBe(
+      join(MOCK_STORAGE_ROOT, "baselines", "button-primary-light-1280x720.png")
+    );
+  });
+
+  /**
+   * Tests that events are emitted in-process on the global and run channels
+   */
+  it("should emit events in-process", async () => {
+    const adapter = createLiteStorageAdapter(MOCK_DB_PATH, MOCK_STORAGE_ROOT);
+    const api = new VisualTestStorageAPI(adapter);
+    await api.connect();
+
+    const globalEvents: PublishMsg[] = [];
+    adapter.metadata.subscribe((msg) => globalEvents.push(msg));
+
+    const run = await api.startRun(1);
+
+    const runEvents: PublishMsg[] = [];
+    const unsubscribe = adapter.metadata.subscribe(
+      (msg) => runEvents.push(msg),
+      run.runId
+    );
+
+    await api.startTest(run.runId, mockStoryIdentifier);
+    unsubscribe();
+    await api.finishRun(run.runId);
+
+    expect(globalEvents.map((e) => e.type)).toEqual([
+      "run:started",
+      "test:started",
+      "run:finished",
+      "run:summary",
+    ]);
+    expect(runEvents.map((e) => e.type)).toEqual(["test:started"]);
+
+    await api.disconnect();
+  });
+
+  /**
+   * Tests that tests keyed by raw story ids are re-keyed with encoded ids
+   */
+  it("should migrate legacy test keys", async () => {
+    const storyIdentifier = {
+      ...mockStoryIdentifier,
+      storyId: "docs/my.story",
+    };
+    await mkdir(MOCK_STORAGE_ROOT, { recursive: true });
+    await writeFile(
+      MOCK_DB_PATH,
+      JSON.stringify({
+        runs: {},
+        tests: {
+          "run-1": {
+            "docs/my.story:light:1280x720": {
+              runId: "run-1",
+              storyIdentifier,
+              status: "passed",
+            },
+          },
+        },
+      })
+    );
+
+    const store = new JsonFileMetadataStore(MOCK_DB_PATH);
+    await store.connect();
+
+    await expect(store.getTest("run-1", storyIdentifier)).resolves.toBeNull();
+    await expect(store.migrateTestKeys()).resolves.toBe(1);
+    await expect(
+      store.getTest("run-1", storyIdentifier)
+    ).resolves.toMatchObject({ status: "passed" });
+  });
+});
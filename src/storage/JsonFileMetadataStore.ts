@@ -0,0 +1,562 @@
+/**
+ * JSON file metadata store for visual test results ("lite mode")
+ *
+ * `MetadataStore` implementation that keeps runs and tests in a single local
+ * JSON file and emits events in-process, so visual tests can run without Redis
+ * (developer laptops, small CI jobs).
+ *
+ * The whole database is loaded on `connect` and written back after each mutation.
+ * Writes are serialized and go through a temporary file + rename so the file is
+ * never left half written. It is meant for a single process (the vitest reporter).
+ * Event logs (per run and global) are kept in memory only.
+ */
+
+import { EventEmitter } from "events";
+import { existsSync } from "fs";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { basename, dirname } from "path";
+import type {
+  EventLogPage,
+  EventLogQuery,
+  LoggedEvent,
+  NewStoredVisualTest,
+  NewVisualTestRun,
+  RunPage,
+  RunQuery,
+  StoredVisualTestResult,
+  StoryIdentifier,
+  VisualTestEvent,
+  VisualTestRun,
+} from "../types/index.js";
+import type {
+  InterruptedRun,
+  MetadataStore,
+  SummaryIncrements,
+} from "./StorageAdapter.js";
+import {
+  DEFAULT_RUN_PAGE_SIZE,
+  compareRunsByStart,
+  decodeRunCursor,
+  encodeRunCursor,
+  isAfterRunCursor,
+  matchesRunQuery,
+} from "./runQuery.js";
+import { encodeIdSegment } from "./imageId.js";
+import { getProject, getProjectFilePath, listProjectDirs } from "./project.js";
+import {
+  DEFAULT_EVENT_PAGE_SIZE,
+  compareEventIds,
+  getEventLogMaxLength,
+  type EventLogErrorListener,
+  type EventLogListener,
+} from "./eventLog.js";
+import { SCHEMA_VERSION } from "./schema.js";
+
+/**
+ * Shape of the JSON database file (`schemaVersion` is missing before schema versioning)
+ */
+type JsonFileDb = {
+  schemaVersion?: number;
+  runs: Record<string, VisualTestRun>;
+  tests: Record<string, Record<string, StoredVisualTestResult>>;
+};
+
+/**
+ * Listener for in-process events
+ */
+export type JsonFileEventListener = (msg: VisualTestEvent) => void;
+
+export class JsonFileMetadataStore
+  implements MetadataStore<JsonFileMetadataStore>
+{
+  readonly dbFilePath: string;
+  /** Project of the database (undefined for the unprefixed layout) */
+  readonly project: string | undefined;
+  /** Database file path shared by the projects (`dbFilePath` without a project) */
+  private readonly sharedDbFilePath: string;
+  private db: JsonFileDb | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private readonly events = new EventEmitter();
+  private readonly GLOBAL_CHANNEL = "visualtest:events";
+  private readonly eventLogs = new Map<string, LoggedEvent[]>();
+  private readonly eventLogMaxLength: number;
+  private lastEventId = { ms: 0, seq: 0 };
+
+  /**
+   * @param dbFilePath Path of the JSON database file
+   * @param eventLogMaxLength Maximum number of events kept by each event log
+   * @param project Project namespace, stored in `projects/{project}/` next to the database file
+   * (default: `VITE_VISUAL_TEST_PROJECT`)
+   */
+  constructor(
+    dbFilePath?: string,
+    eventLogMaxLength?: number,
+    project?: string
+  ) {
+    this.sharedDbFilePath =
+      dbFilePath ||
+      process.env.VITE_VISUAL_TEST_DB_PATH ||
+      "./tests/visual-test-db.json";
+    this.project = getProject(project);
+    this.dbFilePath = getProjectFilePath(this.sharedDbFilePath, this.project);
+    this.eventLogMaxLength = getEventLogMaxLength(eventLogMaxLength);
+  }
+
+  // ---------------------------
+  // Key / Channel helpers
+  // ---------------------------
+  /**
+   * Generate key for a specific test inside its run
+   * @param s The story identifier containing storyId, theme, and viewport
+   * @returns Key string for the specific test
+   */
+  private testKeyFor(s: StoryIdentifier) {
+    const { storyId, theme, viewport } = s;
+    return `${encodeIdSegment(storyId)}:${encodeIdSegment(theme)}:${
+      viewport.width
+    }x${viewport.height}`;
+  }
+
+  /**
+   * Generate event channel for a run
+   * @param runId The unique identifier for the test run
+   * @returns Channel string for the run
+   */
+  private runChannel(runId: string) {
+    return `visualrun:${runId}:channel`;
+  }
+
+  /**
+   * Generate the next event offset (same format as Redis stream entry ids)
+   * @returns An offset greater than all previous ones
+   */
+  private nextEventId() {
+    const now = Date.now();
+    const { ms, seq } = this.lastEventId;
+
+    this.lastEventId = now > ms ? { ms: now, seq: 0 } : { ms, seq: seq + 1 };
+
+    return `${this.lastEventId.ms}-${this.lastEventId.seq}`;
+  }
+
+  /**
+   * Get the channel of an event log query
+   * @param query The event log query
+   * @returns Run channel, or the global channel
+   */
+  private eventLogChannel(query: EventLogQuery) {
+    return query.runId ? this.runChannel(query.runId) : this.GLOBAL_CHANNEL;
+  }
+
+  /**
+   * Get the loaded database or throw
+   * @returns The in-memory database
+   */
+  private getDb(): JsonFileDb {
+    if (!this.db) throw new Error("JSON file store not connected");
+    return this.db;
+  }
+
+  /**
+   * Write the in-memory database to disk (serialized, atomic)
+   */
+  private async flush(): Promise<void> {
+    const data = JSON.stringify(this.getDb());
+    const tmpPath = `${this.dbFilePath}.tmp`;
+
+    this.writeQueue = this.writeQueue.then(async () => {
+      await writeFile(tmpPath, data);
+      await rename(tmpPath, this.dbFilePath);
+    });
+
+    await this.writeQueue;
+  }
+
+  // ---------------------------
+  // Lifecycle
+  // ---------------------------
+  /**
+   * Load the database file (created if missing)
+   * @returns The store itself, which doubles as its own client
+   */
+  async connect(): Promise<JsonFileMetadataStore> {
+    if (this.db) return this;
+
+    await mkdir(dirname(this.dbFilePath), { recursive: true });
+
+    if (existsSync(this.dbFilePath)) {
+      const raw = await readFile(this.dbFilePath, "utf-8");
+      this.db = JSON.parse(raw) as JsonFileDb;
+    } else {
+      this.db = { schemaVersion: SCHEMA_VERSION, runs: {}, tests: {} };
+      await this.flush();
+    }
+
+    return this;
+  }
+
+  /**
+   * Wait for pending writes and unload the database
+   */
+  async disconnect() {
+    if (!this.db) return;
+
+    await this.writeQueue;
+    this.db = null;
+  }
+
+  // ---------------------------
+  // Runs
+  // ---------------------------
+  async saveRun(run: NewVisualTestRun | VisualTestRun): Promise<void> {
+    const db = this.getDb();
+
+    db.runs[run.runId] = structuredClone(run) as VisualTestRun;
+    await this.flush();
+  }
+
+  async getRun(runId: string): Promise<VisualTestRun | null> {
+    const run = this.getDb().runs[runId];
+
+    return run ? structuredClone(run) : null;
+  }
+
+  async listRuns(): Promise<VisualTestRun[]> {
+    return Object.values(this.getDb().runs)
+      .sort(compareRunsByStart)
+      .map((run) => structuredClone(run));
+  }
+
+  async queryRuns(query: RunQuery): Promise<RunPage> {
+    const cursor = query.cursor ? decodeRunCursor(query.cursor) : null;
+    const limit = query.limit ?? DEFAULT_RUN_PAGE_SIZE;
+
+    const runs = Object.values(this.getDb().runs)
+      .sort(compareRunsByStart)
+      .filter(
+        (run) =>
+          (!cursor || isAfterRunCursor(run, cursor)) &&
+          matchesRunQuery(run, query)
+      );
+    const page = runs.slice(0, limit).map((run) => structuredClone(run));
+    const last = page[page.length - 1];
+
+    return {
+      runs: page,
+      nextCursor: runs.length > limit && last ? encodeRunCursor(last) : null,
+    };
+  }
+
+  async deleteRun(runId: string): Promise<number> {
+    const db = this.getDb();
+
+    const testCount = Object.keys(db.tests[runId] ?? {}).length;
+    delete db.runs[runId];
+    delete db.tests[runId];
+    this.eventLogs.delete(this.runChannel(runId));
+    await this.flush();
+
+    return testCount;
+  }
+
+  async incrementSummary(
+    runId: string,
+    increments: SummaryIncrements
+  ): Promise<VisualTestRun | null> {
+    const run = this.getDb().runs[runId];
+
+    if (!run || !run.summary) return null;
+
+    for (const [counter, amount] of Object.entries(increments)) {
+      const key = counter as keyof SummaryIncrements;
+      run.summary[key] = (run.summary[key] ?? 0) + (amount ?? 0);
+    }
+
+    await this.flush();
+
+    return structuredClone(run);
+  }
+
+  async touchRun(runId: string, heartbeatAt: number): Promise<boolean> {
+    const run = this.getDb().runs[runId];
+
+    if (!run) return false;
+
+    run.heartbeatAt = heartbeatAt;
+    await this.flush();
+
+    return true;
+  }
+
+  async finishRun(
+    runId: string,
+    reason: VisualTestRun["reason"],
+    finishedAt: number
+  ): Promise<VisualTestRun | null> {
+    const run = this.getDb().runs[runId];
+
+    if (!run) return null;
+
+    run.finishedAt = finishedAt;
+    run.reason = reason;
+    run.duration = finishedAt - run.startedAt;
+    await this.flush();
+
+    return structuredClone(run);
+  }
+
+  async interruptRun(
+    runId: string,
+    heartbeatAt: number,
+    tests: StoredVisualTestResult[]
+  ): Promise<InterruptedRun | null> {
+    const run = this.getDb().runs[runId];
+
+    // Checked and updated synchronously, so no other write of the process interleaves
+    if (
+      !run ||
+      run.finishedAt ||
+      (run.heartbeatAt ?? run.startedAt) !== heartbeatAt
+    ) {
+      return null;
+    }
+
+    const runTests = this.getDb().tests[runId] ?? {};
+    const aborted: StoredVisualTestResult[] = [];
+    for (const { storyIdentifier, startedAt } of tests) {
+      const test = runTests[this.testKeyFor(storyIdentifier)];
+      if (test?.status !== "running" || test.startedAt !== startedAt) continue;
+
+      Object.assign(test, {
+        status: "aborted",
+        message: "Run interrupted",
+        finishedAt: heartbeatAt,
+      });
+      aborted.push(structuredClone(test));
+    }
+
+    run.summary.aborted = (run.summary.aborted ?? 0) + aborted.length;
+    run.finishedAt = heartbeatAt;
+    run.reason = "interrupted";
+    run.duration = heartbeatAt - run.startedAt;
+    await this.flush();
+
+    return { run: structuredClone(run), tests: aborted };
+  }
+
+  // ---------------------------
+  // Tests
+  // ---------------------------
+  async saveTest(
+    test: NewStoredVisualTest | Partial<StoredVisualTestResult>
+  ): Promise<void> {
+    const db = this.getDb();
+
+    if (!test.runId || !test.storyIdentifier) {
+      throw new Error("Cannot save a test without runId and storyIdentifier");
+    }
+
+    const runTests = (db.tests[test.runId] ??= {});
+    runTests[this.testKeyFor(test.storyIdentifier)] = structuredClone(
+      test
+    ) as StoredVisualTestResult;
+
+    await this.flush();
+  }
+
+  async getTest(
+    runId: string,
+    storyIdentifier: StoryIdentifier
+  ): Promise<StoredVisualTestResult | null> {
+    const test = this.getDb().tests[runId]?.[this.testKeyFor(storyIdentifier)];
+
+    return test ? structuredClone(test) : null;
+  }
+
+  async listTestsForRun(runId: string): Promise<StoredVisualTestResult[]> {
+    return Object.values(this.getDb().tests[runId] ?? {}).map((test) =>
+      structuredClone(test)
+    );
+  }
+
+  async listTestsForStory(
+    storyIdentifier: StoryIdentifier,
+    limit: number
+  ): Promise<StoredVisualTestResult[]> {
+    const key = this.testKeyFor(storyIdentifier);
+
+    return Object.values(this.getDb().tests)
+      .map((runTests) => runTests[key])
+      .filter((test): test is StoredVisualTestResult => Boolean(test))
+      .sort(
+        (a, b) =>
+          (b.startedAt ?? 0) - (a.startedAt ?? 0) ||
+          b.runId.localeCompare(a.runId)
+      )
+      .slice(0, limit)
+      .map((test) => structuredClone(test));
+  }
+
+  async migrateTestKeys(): Promise<number> {
+    const db = this.getDb();
+    let migrated = 0;
+
+    for (const runTests of Object.values(db.tests)) {
+      for (const [key, test] of Object.entries(runTests)) {
+        const newKey = this.testKeyFor(test.storyIdentifier);
+        if (newKey === key) continue;
+
+        runTests[newKey] = test;
+        delete runTests[key];
+        migrated++;
+      }
+    }
+
+    if (migrated > 0) await this.flush();
+
+    return migrated;
+  }
+
+  // ---------------------------
+  // Schema
+  // ---------------------------
+  async getSchemaVersion(): Promise<number> {
+    return this.getDb().schemaVersion ?? 0;
+  }
+
+  async setSchemaVersion(version: number): Promise<void> {
+    this.getDb().schemaVersion = version;
+    await this.flush();
+  }
+
+  async migrateSchema(version: number): Promise<number> {
+    switch (version) {
+      case 2:
+        return this.migrateTestKeys();
+      case 3:
+        return this.stampSchemaVersion(version);
+      default:
+        // Step 1 only concerns Redis keys
+        return 0;
+    }
+  }
+
+  /**
+   * Record a schema version on the run and test documents that have none
+   * @param version The schema version
+   * @returns Number of stamped documents
+   */
+  private async stampSchemaVersion(version: number): Promise<number> {
+    const db = this.getDb();
+    let stamped = 0;
+
+    const documents = [
+      ...Object.values(db.runs),
+      ...Object.values(db.tests).flatMap((runTests) => Object.values(runTests)),
+    ];
+    for (const document of documents) {
+      if (document.schemaVersion !== undefined) continue;
+
+      document.schemaVersion = version;
+      stamped++;
+    }
+
+    if (stamped > 0) await this.flush();
+
+    return stamped;
+  }
+
+  // ---------------------------
+  // Events
+  // ---------------------------
+  async publish(msg: VisualTestEvent): Promise<void> {
+    this.getDb();
+
+    const event: LoggedEvent = { ...msg, eventId: this.nextEventId() };
+
+    for (const channel of [this.runChannel(msg.runId), this.GLOBAL_CHANNEL]) {
+      const log = this.eventLogs.get(channel) ?? [];
+      log.push(event);
+      log.splice(0, log.length - this.eventLogMaxLength);
+      this.eventLogs.set(channel, log);
+
+      this.events.emit(channel, msg);
+      this.events.emit(`${channel}:log`, event);
+    }
+  }
+
+  async readEvents(query: EventLogQuery): Promise<EventLogPage> {
+    const { after } = query;
+    const log = this.eventLogs.get(this.eventLogChannel(query)) ?? [];
+
+    const events = log
+      .filter((event) => !after || compareEventIds(event.eventId, after) > 0)
+      .slice(0, query.limit ?? DEFAULT_EVENT_PAGE_SIZE);
+
+    return {
+      events,
+      cursor: events[events.length - 1]?.eventId ?? after ?? null,
+    };
+  }
+
+  async tailEvents(
+    listener: EventLogListener,
+    query: EventLogQuery,
+    onError?: EventLogErrorListener
+  ): Promise<() => Promise<void>> {
+    const { after } = query;
+    const channel = `${this.eventLogChannel(query)}:log`;
+    let failure: { error: unknown } | null = null;
+
+    // A listener error ends the tail instead of failing the publisher (or `tailEvents`)
+    const follow = (event: LoggedEvent) => {
+      try {
+        listener(event);
+      } catch (error) {
+        this.events.off(channel, follow);
+        failure = { error };
+        onError?.(error);
+      }
+    };
+
+    // Events are logged synchronously, so none can be missed between replay and subscription
+    for (const event of this.eventLogs.get(this.eventLogChannel(query)) ?? []) {
+      if (after && compareEventIds(event.eventId, after) <= 0) continue;
+
+      follow(event);
+      if (failure) break;
+    }
+    if (!failure) this.events.on(channel, follow);
+
+    return async () => {
+      this.events.off(channel, follow);
+      if (failure) throw failure.error;
+    };
+  }
+
+  /**
+   * Subscribe to in-process events
+   * @param listener Called with every published event
+   * @param runId Only receive events of this run (default: all runs)
+   * @returns Function to unsubscribe the listener
+   */
+  subscribe(listener: JsonFileEventListener, runId?: string): () => void {
+    const channel = runId ? this.runChannel(runId) : this.GLOBAL_CHANNEL;
+
+    this.events.on(channel, listener);
+
+    return () => {
+      this.events.off(channel, listener);
+    };
+  }
+
+  // ---------------------------
+  // Projects
+  // ---------------------------
+  async listProjects(): Promise<string[]> {
+    return listProjectDirs(
+      dirname(this.sharedDbFilePath),
+      basename(this.sharedDbFilePath)
+    );
+  }
+}
@@ -0,0 +1,259 @@
+/**
+ * Integration tests for Redis Cluster and Redis Sentinel deployments
+ * These tests run the storage API against a single-node Redis Cluster (which
+ * still rejects commands and transactions spanning several hash slots) and a
+ * Sentinel monitoring one master, to verify that saving runs, Lua scripts, event
+ * logs, Pub/Sub and run pagination work with every client kind.
+ *
+ * The Sentinel deployment uses host networking (Linux Docker hosts only) so the
+ * master address announced by the sentinel is reachable from the tests.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import {
+  GenericContainer,
+  Wait,
+  type StartedTestContainer,
+} from "testcontainers";
+import { rm } from "fs/promises";
+import type { LoggedEvent, StoryIdentifier, VisualTestEvent } from "../types";
+import { VisualTestStorageAPI } from "./VisualTestStorageAPI";
+import { VisualTestEventsClient } from "./VisualTestEventsClient";
+import type { RedisConnectionOptions } from "./redisConnection";
+
+/**
+ * Mock storage root directory for test images
+ */
+const MOCK_STORAGE_ROOT = "./spec-redis-deployments";
+
+const SENTINEL_MASTER_PORT = 16390;
+const SENTINEL_PORT = 26390;
+
+/**
+ * A started Redis deployment
+ */
+type Deployment = {
+  containers: StartedTestContainer[];
+  options: RedisConnectionOptions;
+};
+
+/**
+ * Start a single-node Redis Cluster serving every hash slot
+ * @returns The container and cluster options mapping the announced node address to the exposed port
+ */
+const startCluster = async (): Promise<Deployment> => {
+  const container = await new GenericContainer("redis:8")
+    .withCommand(["redis-server", "--cluster-enabled", "yes"])
+    .withExposedPorts(6379)
+    .withWaitStrategy(Wait.forLogMessage("Ready to accept connections"))
+    .start();
+
+  await container.exec(["redis-cli", "cluster", "addslotsrange", "0", "16383"]);
+  await vi.waitFor(
+    async () => {
+      const { output } = await container.exec(["redis-cli", "cluster", "info"]);
+      expect(output).toContain("cluster_state:ok");
+    },
+    { timeout: 10000, interval: 200 }
+  );
+
+  const host = container.getHost();
+  const port = container.getMappedPort(6379);
+
+  return {
+    containers: [container],
+    options: {
+      rootNodes: [{ url: `redis://${host}:${port}` }],
+      nodeAddressMap: () => ({ host, port }),
+    },
+  };
+};
+
+/**
+ * Start a Redis master and a Sentinel monitoring it as `mymaster`
+ * @returns The containers and sentinel options
+ */
+const startSentinel = async (): Promise<Deployment> => {
+  const master = await new GenericContainer("redis:8")
+    .withNetworkMode("host")
+    .withCommand(["redis-server", "--port", String(SENTINEL_MASTER_PORT)])
+    .withWaitStrategy(Wait.forLogMessage("Ready to accept connections"))
+    .start();
+
+  const sentinel = await new GenericContainer("redis:8")
+    .withNetworkMode("host")
+    .withCopyContentToContainer([
+      {
+        content: [
+          `port ${SENTINEL_PORT}`,
+          `sentinel monitor mymaster 127.0.0.1 ${SENTINEL_MASTER_PORT} 1`,
+        ].join("\n"),
+        target: "/data/sentinel.conf",
+      },
+    ])
+    .withCommand(["redis-sentinel", "/data/sentinel.conf"])
+    .withWaitStrategy(Wait.forLogMessage("+monitor master mymaster"))
+    .start();
+
+  return {
+    containers: [master, sentinel],
+    options: {
+      name: "mymaster",
+      sentinelRootNodes: [{ host: "127.0.0.1", port: SENTINEL_PORT }],
+    },
+  };
+};
+
+/**
+ * Create a story identifier for a storyId
+ * @param storyId - The story identifier
+ * @returns Story identifier with a fixed theme and viewport
+ */
+const story = (storyId: string): StoryIdentifier => ({
+  storyId,
+  theme: "light",
+  viewport: { width: 1280, height: 720 },
+});
+
+describe.each([
+  { name: "Redis Cluster", start: startCluster },
+  { name: "Redis Sentinel", start: startSentinel },
+])("$name - Integration Tests", ({ start }) => {
+  let deployment: Deployment;
+  let storageAPI: VisualTestStorageAPI;
+
+  beforeAll(async () => {
+    deployment = await start();
+    storageAPI = new VisualTestStorageAPI(
+      deployment.options,
+      MOCK_STORAGE_ROOT
+    );
+    await storageAPI.connect();
+  }, 120000);
+
+  afterAll(async () => {
+    await storageAPI?.disconnect();
+    for (const container of deployment?.containers.reverse() ?? []) {
+      await container.stop();
+    }
+    await rm(MOCK_STORAGE_ROOT, { recursive: true, force: true });
+  });
+
+  /**
+   * Tests that runs and tests are saved in transactions and summarized by the Lua script
+   */
+  it("should save, summarize and prune a run", async () => {
+    const run = await storageAPI.startRun(2);
+
+    for (const [storyId, status] of [
+      ["button", "passed"],
+      ["card", "failed"],
+    ] as const) {
+      await storageAPI.startTest(run.runId, story(storyId));
+      await storageAPI.finishTest(run.runId, {
+        storyIdentifier: story(storyId),
+        status,
+        baseline: null,
+        current: Buffer.from(`current-${storyId}`),
+        diff: status === "failed" ? Buffer.from(`diff-${storyId}`) : null,
+        diffRatio: null,
+        message: status,
+      });
+    }
+    await storageAPI.finishRun(run.runId, "failed");
+
+    const finished = await storageAPI.getRun(run.runId);
+    expect(finished?.summary).toMatchObject({
+      finished: 2,
+      passed: 1,
+      failed: 1,
+    });
+    await expect(storageAPI.listTestsForRun(run.runId)).resolves.toHaveLength(
+      2
+    );
+    await expect(
+      storageAPI.getStoryHistory(story("card"))
+    ).resolves.toMatchObject([{ runId: run.runId, status: "failed" }]);
+
+    const report = await storageAPI.pruneRuns({ keepLast: 0 });
+    expect(report.runIds).toContain(run.runId);
+    await expect(storageAPI.getRun(run.runId)).resolves.toBeNull();
+  });
+
+  /**
+   * Tests that heartbeats run their Lua script on the slot of the run
+   */
+  it("should record heartbeats", async () => {
+    const run = await storageAPI.startRun(0);
+
+    await expect(storageAPI.heartbeat(run.runId)).resolves.toBe(true);
+    await expect(storageAPI.heartbeat("missing-run")).resolves.toBe(false);
+    await storageAPI.finishRun(run.runId);
+  });
+
+  /**
+   * Tests that events are logged, tailed and published on dedicated connections
+   */
+  it("should log, tail and publish events", async () => {
+    const published: VisualTestEvent[] = [];
+    const tailed: LoggedEvent[] = [];
+    const events = new VisualTestEventsClient(deployment.options);
+    events.on((event) => published.push(event));
+    await events.connect();
+
+    try {
+      const run = await storageAPI.startRun(0);
+      const stopTail = await storageAPI.tailEvents(
+        (event) => tailed.push(event),
+        { runId: run.runId }
+      );
+      await storageAPI.finishRun(run.runId);
+
+      await vi.waitFor(() => {
+        expect(tailed.map((event) => event.type)).toEqual([
+          "run:started",
+          "run:finished",
+          "run:summary",
+        ]);
+        expect(published.map((event) => event.runId)).toContain(run.runId);
+      });
+      await stopTail();
+
+      const { events: logged } = await storageAPI.readEvents({
+        runId: run.runId,
+      });
+      expect(logged.map((event) => event.eventId)).toEqual(
+        tailed.map((event) => event.eventId)
+      );
+    } finally {
+      await events.close();
+    }
+  });
+
+  /**
+   * Tests that run queries page through runs stored in different slots
+   */
+  it("should page runs across slots", async () => {
+    const runIds: string[] = [];
+    for (let i = 0; i < 5; i++) {
+      const run = await storageAPI.startRun(0, { batch: "pagination" });
+      await storageAPI.finishRun(run.runId);
+      runIds.push(run.runId);
+    }
+
+    const paged: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const page = await storageAPI.queryRuns({
+        labels: { batch: "pagination" },
+        limit: 2,
+        cursor,
+      });
+      expect(page.runs.length).toBeLessThanOrEqual(2);
+      paged.push(...page.runs.map((run) => run.runId));
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    expect(paged.sort()).toEqual([...runIds].sort());
+  });
+});
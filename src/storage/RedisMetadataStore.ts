@@ -0,0 +1,959 @@
+/**
+ * Redis metadata store for visual test results
+ *
+ * Default `MetadataStore` implementation. Runs and tests are stored as
+ * RedisJSON documents, indexed with sets (runs in a sorted set scored by `startedAt`),
+ * and events are published with Redis Pub/Sub and appended to capped Redis Streams
+ * (one per run and a global one) so they can be replayed.
+ *
+ * Works with standalone Redis, Redis Cluster and Redis Sentinel. The keys of a run
+ * (run document, tests set, test documents and event stream) share the `{runId}`
+ * hash tag so they live in one cluster slot: transactions only group keys of a
+ * single run, shared keys (run index, story histories, global event stream) are
+ * written with separate commands.
+ */
+
+import type {
+  EventLogPage,
+  EventLogQuery,
+  LoggedEvent,
+  NewStoredVisualTest,
+  NewVisualTestRun,
+  RunPage,
+  RunQuery,
+  StoredVisualTestResult,
+  StoryIdentifier,
+  VisualTestEvent,
+  VisualTestRun,
+} from "../types/index.js";
+import type {
+  InterruptedRun,
+  MetadataStore,
+  SummaryIncrements,
+} from "./StorageAdapter.js";
+import {
+  DEFAULT_RUN_PAGE_SIZE,
+  compareRunsByStart,
+  decodeRunCursor,
+  encodeRunCursor,
+  isAfterRunCursor,
+  matchesRunQuery,
+} from "./runQuery.js";
+import { encodeIdSegment } from "./imageId.js";
+import { getProject, getProjectKeyPrefix } from "./project.js";
+import {
+  createRedisConnection,
+  type RedisConnection,
+  type RedisConnectionOptions,
+} from "./redisConnection.js";
+import {
+  DEFAULT_EVENT_PAGE_SIZE,
+  getEventLogMaxLength,
+  type EventLogErrorListener,
+  type EventLogListener,
+} from "./eventLog.js";
+import { SCHEMA_VERSION } from "./schema.js";
+
+/**
+ * Lua script incrementing run summary counters in a single atomic step
+ * KEYS[1]: run key, ARGV: counter/amount pairs (counters missing from older runs start at 0).
+ * Returns the updated run JSON (nil if missing).
+ */
+const INCREMENT_SUMMARY_SCRIPT = `
+if redis.call("EXISTS", KEYS[1]) == 0 then return false end
+for i = 1, #ARGV, 2 do
+  local path = "$.summary." .. ARGV[i]
+  if #redis.call("JSON.TYPE", KEYS[1], path) == 0 then
+    redis.call("JSON.SET", KEYS[1], path, "0")
+  end
+  redis.call("JSON.NUMINCRBY", KEYS[1], path, ARGV[i + 1])
+end
+return redis.call("JSON.GET", KEYS[1])
+`;
+
+/**
+ * Lua script setting the heartbeat of a run if the run exists
+ * KEYS[1]: run key, ARGV[1]: heartbeat timestamp. Returns 1 if the run exists, 0 otherwise.
+ */
+const TOUCH_RUN_SCRIPT = `
+if redis.call("EXISTS", KEYS[1]) == 0 then return 0 end
+redis.call("JSON.SET", KEYS[1], "$.heartbeatAt", ARGV[1])
+return 1
+`;
+
+/**
+ * Lua script recording the end of a run if the run exists
+ * KEYS[1]: run key, ARGV[1]: end timestamp, ARGV[2]: reason. The duration is computed
+ * from the `startedAt` of the run. Returns the updated run JSON (nil if missing).
+ */
+const FINISH_RUN_SCRIPT = `
+if redis.call("EXISTS", KEYS[1]) == 0 then return false end
+local startedAt = cjson.decode(redis.call("JSON.GET", KEYS[1], "$.startedAt"))[1]
+redis.call("JSON.SET", KEYS[1], "$.finishedAt", ARGV[1])
+redis.call("JSON.SET", KEYS[1], "$.reason", cjson.encode(ARGV[2]))
+if type(startedAt) == "number" then
+  redis.call("JSON.SET", KEYS[1], "$.duration", tostring(tonumber(ARGV[1]) - startedAt))
+end
+return redis.call("JSON.GET", KEYS[1])
+`;
+
+/**
+ * Lua script interrupting a stale run if it is still unfinished with the same heartbeat
+ * KEYS[1]: run key, KEYS[2..]: test keys, ARGV[1]: heartbeat timestamp the run was found
+ * stale with, ARGV[2..]: `startedAt` of each test when it was read. Tests still running
+ * with the same `startedAt` are aborted at the heartbeat (only the fields set by the sweep
+ * are written). Returns the updated run JSON followed by the indexes (from 1) of the
+ * aborted tests, or nil if the run changed.
+ */
+const INTERRUPT_RUN_SCRIPT = `
+local raw = redis.call("JSON.GET", KEYS[1])
+if not raw then return false end
+local run = cjson.decode(raw)
+local heartbeat = tonumber(ARGV[1])
+if run.finishedAt ~= nil and run.finishedAt ~= cjson.null then return false end
+local lastHeartbeat = run.heartbeatAt
+if lastHeartbeat == nil or lastHeartbeat == cjson.null then lastHeartbeat = run.startedAt end
+if lastHeartbeat ~= heartbeat then return false end
+local result = {}
+for i = 2, #KEYS do
+  local testRaw = redis.call("JSON.GET", KEYS[i])
+  local test = testRaw and cjson.decode(testRaw)
+  if test and test.status == "running" and test.startedAt == tonumber(ARGV[i]) then
+    redis.call("JSON.SET", KEYS[i], "$.status", '"aborted"')
+    redis.call("JSON.SET", KEYS[i], "$.message", '"Run interrupted"')
+    redis.call("JSON.SET", KEYS[i], "$.finishedAt", ARGV[1])
+    table.insert(result, i - 1)
+  end
+end
+if #redis.call("JSON.TYPE", KEYS[1], "$.summary.aborted") == 0 then
+  redis.call("JSON.SET", KEYS[1], "$.summary.aborted", "0")
+end
+redis.call("JSON.NUMINCRBY", KEYS[1], "$.summary.aborted", #result)
+redis.call("JSON.SET", KEYS[1], "$.finishedAt", ARGV[1])
+redis.call("JSON.SET", KEYS[1], "$.reason", '"interrupted"')
+redis.call("JSON.SET", KEYS[1], "$.duration", tostring(heartbeat - run.startedAt))
+table.insert(result, 1, redis.call("JSON.GET", KEYS[1]))
+return result
+`;
+
+/**
+ * How long a tail blocks waiting for new events before checking if it was stopped
+ */
+const TAIL_BLOCK_MS = 1000;
+
+/**
+ * Entry of an event stream (the event is stored as JSON in the `msg` field)
+ */
+type EventStreamEntry = { id: string; message: Record<string, string> };
+
+/**
+ * Options of the Redis metadata store
+ *
+ * @property {number} eventLogMaxLength - Approximate maximum number of events kept by each event stream
+ * (default: `VITE_VISUAL_TEST_EVENT_LOG_MAX_LENGTH` or 10000)
+ * @property {string} project - Project namespace prefixing every key and channel
+ * (default: `VITE_VISUAL_TEST_PROJECT`, unprefixed if not set)
+ */
+export type RedisMetadataStoreOptions = {
+  eventLogMaxLength?: number;
+  project?: string;
+};
+
+/**
+ * Convert an event stream entry to a logged event
+ * @param entry The stream entry
+ * @returns The logged event
+ */
+const toLoggedEvent = ({ id, message }: EventStreamEntry): LoggedEvent => ({
+  ...(JSON.parse(message.msg ?? "{}") as VisualTestEvent),
+  eventId: id,
+});
+
+export class RedisMetadataStore implements MetadataStore<RedisConnection> {
+  private client: RedisConnection | null = null;
+  /** Project namespace of the keys and channels (undefined for the unprefixed layout) */
+  readonly project: string | undefined;
+  private readonly keyPrefix: string;
+  private readonly GLOBAL_CHANNEL: string;
+  private readonly EVENT_LOG_KEY: string;
+  private readonly RUN_INDEX_KEY: string;
+  private readonly LEGACY_RUN_INDEX_KEY: string;
+  private readonly SCHEMA_KEY: string;
+  /** Set of the projects stored in the Redis database (shared, never prefixed) */
+  private readonly PROJECTS_KEY = "visualtest:projects";
+  private readonly redisOptions?: RedisConnectionOptions;
+  /** Options of the current connection, reused by dedicated connections (tails, subscriptions) */
+  private connectionOptions: RedisConnectionOptions | null = null;
+  private readonly eventLogMaxLength: number;
+
+  constructor(
+    redisOptions?: RedisConnectionOptions,
+    options: RedisMetadataStoreOptions = {}
+  ) {
+    this.redisOptions = redisOptions;
+    this.eventLogMaxLength = getEventLogMaxLength(options.eventLogMaxLength);
+    this.project = getProject(options.project);
+    this.keyPrefix = getProjectKeyPrefix(this.project);
+    this.GLOBAL_CHANNEL = `${this.keyPrefix}visualtest:events`;
+    this.EVENT_LOG_KEY = `${this.keyPrefix}visualtest:events:log`;
+    this.RUN_INDEX_KEY = `${this.keyPrefix}visualruns:timeline`;
+    this.LEGACY_RUN_INDEX_KEY = `${this.keyPrefix}visualruns:index`;
+    this.SCHEMA_KEY = `${this.keyPrefix}visualtest:schema`;
+  }
+
+  // ---------------------------
+  // Key / Channel helpers
+  // ---------------------------
+  /**
+   * Generate Redis key for a run
+   * @param runId The unique identifier for the test run
+   * @returns Redis key string for the run
+   */
+  private runKey(runId: string) {
+    return `${this.keyPrefix}visualrun:{${runId}}`;
+  }
+
+  /**
+   * Generate Redis key for run tests set
+   * @param runId The unique identifier for the test run
+   * @returns Redis key string for the set of tests in the run
+   */
+  private runTestsSetKey(runId: string) {
+    return `${this.keyPrefix}visualrun:{${runId}}:tests`;
+  }
+
+  /**
+   * Generate the key segments of a story (story id and theme are encoded so they can't contain `:`)
+   * @param s The story identifier containing storyId, theme, and viewport
+   * @returns Key string for the story
+   */
+  private storyKeyPart(s: StoryIdentifier) {
+    const { storyId, theme, viewport } = s;
+    return `${encodeIdSegment(storyId)}:${encodeIdSegment(theme)}:${
+      viewport.width
+    }x${viewport.height}`;
+  }
+
+  /**
+   * Generate Redis key for a specific test
+   * @param runId The unique identifier for the test run
+   * @param s The story identifier containing storyId, theme, and viewport
+   * @returns Redis key string for the specific test
+   */
+  private testKeyFor(runId: string, s: StoryIdentifier) {
+    return `${this.keyPrefix}visualtest:{${runId}}:${this.storyKeyPart(s)}`;
+  }
+
+  /**
+   * Generate Redis key for the history of a story (runs scored by test start)
+   * @param s The story identifier containing storyId, theme, and viewport
+   * @returns Redis key string for the story history sorted set
+   */
+  private storyHistoryKey(s: StoryIdentifier) {
+    return `${this.keyPrefix}visualstory:${this.storyKeyPart(s)}:history`;
+  }
+
+  /**
+   * Generate Redis channel for a run
+   * @param runId The unique identifier for the test run
+   * @returns Redis channel string for the run
+   */
+  private runChannel(runId: string) {
+    return `${this.keyPrefix}visualrun:${runId}:channel`;
+  }
+
+  /**
+   * Generate Redis key for the event stream of a run
+   * @param runId The unique identifier for the test run
+   * @returns Redis key string for the run event stream
+   */
+  private runEventsKey(runId: string) {
+    return `${this.keyPrefix}visualrun:{${runId}}:events`;
+  }
+
+  /**
+   * Generate the key of a run in the layout without hash tags
+   * @param runId The unique identifier for the test run
+   * @returns Legacy Redis key string for the run (its tests set and event stream are suffixed)
+   */
+  private legacyRunKey(runId: string) {
+    return `${this.keyPrefix}visualrun:${runId}`;
+  }
+
+  /**
+   * Get the event stream key of an event log query
+   * @param query The event log query
+   * @returns Run event stream key, or the global event stream key
+   */
+  private eventLogKey(query: EventLogQuery) {
+    return query.runId ? this.runEventsKey(query.runId) : this.EVENT_LOG_KEY;
+  }
+
+  /**
+   * Get the connected client or throw
+   * @returns The connected Redis client
+   */
+  private getClient(): RedisConnection {
+    if (!this.client) throw new Error("Redis not connected");
+    return this.client;
+  }
+
+  // ---------------------------
+  // Lifecycle
+  // ---------------------------
+  /**
+   * Connect to Redis client
+   * @param options Standalone, cluster or sentinel connection options (overwrites constructor options if set)
+   * @returns The Redis client instance
+   */
+  async connect(options?: RedisConnectionOptions): Promise<RedisConnection> {
+    if (this.client) return this.client;
+
+    const opts = options ?? this.redisOptions;
+
+    if (!opts) {
+      throw new Error(
+        "Cannot connect to Redis without 'RedisConnectionOptions'"
+      );
+    }
+
+    this.client = await this.openConnection(opts);
+    this.connectionOptions = opts;
+
+    if (this.project) await this.client.sAdd(this.PROJECTS_KEY, this.project);
+    await this.initSchemaVersion();
+
+    return this.client;
+  }
+
+  /**
+   * Record the current schema version in a database holding no run of the project yet
+   * Databases holding runs without a version are left at version 0 for `migrate`.
+   */
+  private async initSchemaVersion() {
+    const client = this.getClient();
+
+    // Separate commands: the keys are in different cluster slots
+    const existing = await Promise.all(
+      [
+        this.SCHEMA_KEY,
+        this.RUN_INDEX_KEY,
+        this.LEGACY_RUN_INDEX_KEY,
+        this.EVENT_LOG_KEY,
+      ].map((key) => client.exists(key))
+    );
+    if (existing.some(Boolean)) return;
+
+    await client.set(this.SCHEMA_KEY, String(SCHEMA_VERSION), {
+      condition: "NX",
+    });
+  }
+
+  /**
+   * Open a connection to Redis
+   * @param options Standalone, cluster or sentinel connection options
+   * @returns The connected client
+   */
+  private async openConnection(
+    options: RedisConnectionOptions
+  ): Promise<RedisConnection> {
+    const connection = createRedisConnection(options);
+    await connection.connect();
+
+    return connection;
+  }
+
+  /**
+   * Open a connection dedicated to blocking reads or Pub/Sub, with the options of the current connection
+   * @returns The connected client (close it when done)
+   */
+  private async openDedicatedConnection(): Promise<RedisConnection> {
+    if (!this.connectionOptions) throw new Error("Redis not connected");
+
+    return this.openConnection(this.connectionOptions);
+  }
+
+  /**
+   * Move runs of the legacy unordered run index (Set) into the sorted run index
+   * Part of schema migration step 1; does nothing once the legacy index is gone.
+   * @returns Number of migrated runs
+   */
+  async migrateRunIndex(): Promise<number> {
+    const client = this.getClient();
+
+    const ids = await client.sMembers(this.LEGACY_RUN_INDEX_KEY);
+    let migrated = 0;
+
+    for (const id of ids) {
+      // Runs of the legacy index can still be stored without hash tags
+      const run = ((await client.json.get(this.runKey(id))) ??
+        (await client.json.get(this.legacyRunKey(id)))) as VisualTestRun | null;
+      if (!run) continue;
+
+      await client.zAdd(this.RUN_INDEX_KEY, {
+        score: run.startedAt,
+        value: run.runId,
+      });
+      migrated++;
+    }
+
+    if (ids.length > 0) await client.del(this.LEGACY_RUN_INDEX_KEY);
+
+    return migrated;
+  }
+
+  /**
+   * Move the keys of runs stored without hash tags (`visualrun:{runId}`) to the hash-tagged layout
+   * Part of schema migration step 1; does nothing for runs already using hash tags.
+   * The legacy layout only exists on standalone and sentinel deployments, where keys
+   * can be renamed across slots.
+   * @returns Number of migrated runs
+   */
+  async migrateKeyLayout(): Promise<number> {
+    const client = this.getClient();
+
+    const runIds = await client.zRange(this.RUN_INDEX_KEY, 0, -1);
+    const legacy = await Promise.all(
+      runIds.map((runId) => client.exists(this.legacyRunKey(runId)))
+    );
+    let migrated = 0;
+
+    for (const [index, runId] of runIds.entries()) {
+      if (!legacy[index]) continue;
+
+      const legacyRunKey = this.legacyRunKey(runId);
+      const legacyTestsSetKey = `${legacyRunKey}:tests`;
+      const legacyEventsKey = `${legacyRunKey}:events`;
+      const legacyTestPrefix = `${this.keyPrefix}visualtest:${runId}:`;
+      const testPrefix = `${this.keyPrefix}visualtest:{${runId}}:`;
+
+      const members = await client.sMembers(legacyTestsSetKey);
+      const hasEvents = await client.exists(legacyEventsKey);
+
+      const pipeline = client.multi();
+      pipeline.rename(legacyRunKey, this.runKey(runId));
+      if (hasEvents) pipeline.rename(legacyEventsKey, this.runEventsKey(runId));
+      for (const member of members) {
+        const key = member.startsWith(legacyTestPrefix)
+          ? testPrefix + member.slice(legacyTestPrefix.length)
+          : member;
+
+        if (key !== member) pipeline.rename(member, key);
+        pipeline.sAdd(this.runTestsSetKey(runId), key);
+      }
+      pipeline.del(legacyTestsSetKey);
+      await pipeline.exec();
+      migrated++;
+    }
+
+    return migrated;
+  }
+
+  /**
+   * Disconnect from Redis client
+   */
+  async disconnect() {
+    if (!this.client) return;
+
+    await this.client.close();
+    this.client = null;
+    this.connectionOptions = null;
+  }
+
+  // ---------------------------
+  // Runs
+  // ---------------------------
+  async saveRun(run: NewVisualTestRun | VisualTestRun): Promise<void> {
+    const client = this.getClient();
+
+    // The run index is shared by all runs (another cluster slot than the run)
+    await client.json.set(this.runKey(run.runId), "$", run);
+    await client.zAdd(this.RUN_INDEX_KEY, {
+      score: run.startedAt,
+      value: run.runId,
+    });
+  }
+
+  async getRun(runId: string): Promise<VisualTestRun | null> {
+    const client = this.getClient();
+
+    return (await client.json.get(this.runKey(runId))) as VisualTestRun | null;
+  }
+
+  async listRuns(): Promise<VisualTestRun[]> {
+    const client = this.getClient();
+
+    const ids = await client.zRange(this.RUN_INDEX_KEY, 0, -1, { REV: true });
+
+    return this.getRuns(ids);
+  }
+
+  async queryRuns(query: RunQuery): Promise<RunPage> {
+    const client = this.getClient();
+
+    const cursor = query.cursor ? decodeRunCursor(query.cursor) : null;
+    const limit = query.limit ?? DEFAULT_RUN_PAGE_SIZE;
+    const max = Math.min(cursor?.startedAt ?? Infinity, query.to ?? Infinity);
+    const min = query.from ?? -Infinity;
+
+    // Walk the index by score (newest first) until one run more than a page matches
+    const runs: VisualTestRun[] = [];
+    for (let offset = 0; runs.length <= limit; offset += limit + 1) {
+      const ids = await client.zRange(
+        this.RUN_INDEX_KEY,
+        max === Infinity ? "+inf" : max,
+        min === -Infinity ? "-inf" : min,
+        { BY: "SCORE", REV: true, LIMIT: { offset, count: limit + 1 } }
+      );
+      if (ids.length === 0) break;
+
+      for (const run of await this.getRuns(ids)) {
+        if (cursor && !isAfterRunCursor(run, cursor)) continue;
+        if (matchesRunQuery(run, query)) runs.push(run);
+      }
+    }
+
+    const page = runs.sort(compareRunsByStart).slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+      runs: page,
+      nextCursor: runs.length > limit && last ? encodeRunCursor(last) : null,
+    };
+  }
+
+  /**
+   * Get run documents
+   * @param ids Run identifiers
+   * @returns Existing runs, in the order of `ids`
+   */
+  private async getRuns(ids: string[]): Promise<VisualTestRun[]> {
+    const client = this.getClient();
+
+    if (!ids || ids.length === 0) return [];
+
+    // Runs are in different cluster slots: separate (pipelined) reads
+    const res = await Promise.all(
+      ids.map((id) => client.json.get(this.runKey(id)))
+    );
+
+    return res.filter(Boolean) as unknown as VisualTestRun[];
+  }
+
+  async deleteRun(runId: string): Promise<number> {
+    const client = this.getClient();
+
+    const testKeys = await client.sMembers(this.runTestsSetKey(runId));
+    const tests = await this.listTestsForRun(runId);
+
+    const pipeline = client.multi();
+    pipeline.del(this.runKey(runId));
+    pipeline.del(this.runTestsSetKey(runId));
+    pipeline.del(this.runEventsKey(runId));
+    if (testKeys.length > 0) pipeline.del(testKeys);
+    await pipeline.exec();
+
+    await Promise.all([
+      ...tests.map((test) =>
+        client.zRem(this.storyHistoryKey(test.storyIdentifier), runId)
+      ),
+      client.zRem(this.RUN_INDEX_KEY, runId),
+    ]);
+
+    return testKeys.length;
+  }
+
+  async incrementSummary(
+    runId: string,
+    increments: SummaryIncrements
+  ): Promise<VisualTestRun | null> {
+    const client = this.getClient();
+
+    const args = Object.entries(increments).flatMap(([counter, amount]) => [
+      counter,
+      String(amount ?? 0),
+    ]);
+    const raw = (await client.eval(INCREMENT_SUMMARY_SCRIPT, {
+      keys: [this.runKey(runId)],
+      arguments: args,
+    })) as string | null;
+
+    if (!raw) return null;
+
+    const runObj = JSON.parse(raw) as VisualTestRun;
+    return runObj.summary ? runObj : null;
+  }
+
+  async touchRun(runId: string, heartbeatAt: number): Promise<boolean> {
+    const client = this.getClient();
+
+    const touched = await client.eval(TOUCH_RUN_SCRIPT, {
+      keys: [this.runKey(runId)],
+      arguments: [String(heartbeatAt)],
+    });
+
+    return touched === 1;
+  }
+
+  async finishRun(
+    runId: string,
+    reason: VisualTestRun["reason"],
+    finishedAt: number
+  ): Promise<VisualTestRun | null> {
+    const client = this.getClient();
+
+    const raw = (await client.eval(FINISH_RUN_SCRIPT, {
+      keys: [this.runKey(runId)],
+      arguments: [String(finishedAt), String(reason)],
+    })) as string | null;
+
+    return raw ? (JSON.parse(raw) as VisualTestRun) : null;
+  }
+
+  async interruptRun(
+    runId: string,
+    heartbeatAt: number,
+    tests: StoredVisualTestResult[]
+  ): Promise<InterruptedRun | null> {
+    const client = this.getClient();
+
+    // The run and its tests share the slot of the run
+    const result = (await client.eval(INTERRUPT_RUN_SCRIPT, {
+      keys: [
+        this.runKey(runId),
+        ...tests.map((test) => this.testKeyFor(runId, test.storyIdentifier)),
+      ],
+      arguments: [
+        String(heartbeatAt),
+        ...tests.map((test) => String(test.startedAt)),
+      ],
+    })) as [string, ...number[]] | null;
+
+    if (!result) return null;
+
+    const [raw, ...aborted] = result;
+    return {
+      run: JSON.parse(raw) as VisualTestRun,
+      tests: aborted.map((index) => ({
+        ...tests[index - 1]!,
+        status: "aborted",
+        message: "Run interrupted",
+        finishedAt: heartbeatAt,
+      })),
+    };
+  }
+
+  // ---------------------------
+  // Tests
+  // ---------------------------
+  async saveTest(
+    test: NewStoredVisualTest | Partial<StoredVisualTestResult>
+  ): Promise<void> {
+    const client = this.getClient();
+
+    if (!test.runId || !test.storyIdentifier) {
+      throw new Error("Cannot save a test without runId and storyIdentifier");
+    }
+
+    const key = this.testKeyFor(test.runId, test.storyIdentifier);
+
+    const pipeline = client.multi();
+    pipeline.json.set(key, "$", test);
+    pipeline.sAdd(this.runTestsSetKey(test.runId), key);
+    await pipeline.exec();
+
+    // Keep the score of the first save so updates don't reorder the history
+    await client.zAdd(
+      this.storyHistoryKey(test.storyIdentifier),
+      { score: test.startedAt ?? Date.now(), value: test.runId },
+      { condition: "NX" }
+    );
+  }
+
+  async getTest(
+    runId: string,
+    storyIdentifier: StoryIdentifier
+  ): Promise<StoredVisualTestResult | null> {
+    const client = this.getClient();
+
+    const key = this.testKeyFor(runId, storyIdentifier);
+
+    return (await client.json.get(key)) as StoredVisualTestResult | null;
+  }
+
+  async listTestsForRun(runId: string): Promise<StoredVisualTestResult[]> {
+    const client = this.getClient();
+
+    const members = await client.sMembers(this.runTestsSetKey(runId));
+
+    if (!members || members.length === 0) return [];
+
+    const pipeline = client.multi();
+    for (const m of members) pipeline.json.get(m);
+    const res = await pipeline.exec();
+
+    return (res || []).filter(Boolean) as unknown as StoredVisualTestResult[];
+  }
+
+  async listTestsForStory(
+    storyIdentifier: StoryIdentifier,
+    limit: number
+  ): Promise<StoredVisualTestResult[]> {
+    const client = this.getClient();
+
+    if (limit <= 0) return [];
+
+    const runIds = await client.zRange(
+      this.storyHistoryKey(storyIdentifier),
+      0,
+      limit - 1,
+      { REV: true }
+    );
+
+    if (runIds.length === 0) return [];
+
+    // Tests of different runs are in different cluster slots
+    const res = await Promise.all(
+      runIds.map((runId) =>
+        client.json.get(this.testKeyFor(runId, storyIdentifier))
+      )
+    );
+
+    return res.filter(Boolean) as unknown as StoredVisualTestResult[];
+  }
+
+  async migrateTestKeys(): Promise<number> {
+    const client = this.getClient();
+    let migrated = 0;
+
+    for (const runId of await client.zRange(this.RUN_INDEX_KEY, 0, -1)) {
+      const setKey = this.runTestsSetKey(runId);
+
+      for (const member of await client.sMembers(setKey)) {
+        const test = (await client.json.get(
+          member
+        )) as StoredVisualTestResult | null;
+        if (!test?.storyIdentifier) continue;
+
+        const key = this.testKeyFor(runId, test.storyIdentifier);
+        if (key === member) continue;
+
+        // Legacy keys contained the raw story id and theme
+        const { storyId, theme, viewport } = test.storyIdentifier;
+        const legacyHistoryKey = `${this.keyPrefix}visualstory:${storyId}:${theme}:${viewport.width}x${viewport.height}:history`;
+        const score = await client.zScore(legacyHistoryKey, runId);
+
+        const pipeline = client.multi();
+        pipeline.rename(member, key);
+        pipeline.sRem(setKey, member);
+        pipeline.sAdd(setKey, key);
+        await pipeline.exec();
+
+        if (score !== null) {
+          await client.zRem(legacyHistoryKey, runId);
+          await client.zAdd(
+            this.storyHistoryKey(test.storyIdentifier),
+            { score, value: runId },
+            { condition: "NX" }
+          );
+        }
+        migrated++;
+      }
+    }
+
+    return migrated;
+  }
+
+  // ---------------------------
+  // Schema
+  // ---------------------------
+  async getSchemaVersion(): Promise<number> {
+    return Number((await this.getClient().get(this.SCHEMA_KEY)) ?? 0);
+  }
+
+  async setSchemaVersion(version: number): Promise<void> {
+    await this.getClient().set(this.SCHEMA_KEY, String(version));
+  }
+
+  async migrateSchema(version: number): Promise<number> {
+    switch (version) {
+      case 1:
+        return (await this.migrateRunIndex()) + (await this.migrateKeyLayout());
+      case 2:
+        return this.migrateTestKeys();
+      case 3:
+        return this.stampSchemaVersion(version);
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * Record a schema version on the run and test documents that have none
+   * @param version The schema version
+   * @returns Number of stamped documents
+   */
+  private async stampSchemaVersion(version: number): Promise<number> {
+    const client = this.getClient();
+    let stamped = 0;
+
+    for (const runId of await client.zRange(this.RUN_INDEX_KEY, 0, -1)) {
+      const keys = [
+        this.runKey(runId),
+        ...(await client.sMembers(this.runTestsSetKey(runId))),
+      ];
+
+      for (const key of keys) {
+        const current = (await client.json.get(key, {
+          path: "$.schemaVersion",
+        })) as unknown[] | null;
+        // Missing document, or already stamped
+        if (!current || current.length > 0) continue;
+
+        await client.json.set(key, "$.schemaVersion", version);
+        stamped++;
+      }
+    }
+
+    return stamped;
+  }
+
+  // ---------------------------
+  // Pub/Sub & event log
+  // ---------------------------
+  async publish(msg: VisualTestEvent): Promise<void> {
+    const client = this.getClient();
+    const entry = { msg: JSON.stringify(msg) };
+    const trim = {
+      TRIM: {
+        strategy: "MAXLEN",
+        strategyModifier: "~",
+        threshold: this.eventLogMaxLength,
+      },
+    } as const;
+
+    // The run and global streams are in different cluster slots
+    await Promise.all([
+      client.xAdd(this.runEventsKey(msg.runId), "*", entry, trim),
+      client.xAdd(this.EVENT_LOG_KEY, "*", entry, trim),
+    ]);
+    await Promise.all([
+      client.publish(this.runChannel(msg.runId), JSON.stringify(msg)),
+      client.publish(this.GLOBAL_CHANNEL, JSON.stringify(msg)),
+    ]);
+  }
+
+  async readEvents(query: EventLogQuery): Promise<EventLogPage> {
+    const client = this.getClient();
+
+    const entries = (await client.xRange(
+      this.eventLogKey(query),
+      query.after ? `(${query.after}` : "-",
+      "+",
+      { COUNT: query.limit ?? DEFAULT_EVENT_PAGE_SIZE }
+    )) as unknown as EventStreamEntry[];
+    const events = entries.map(toLoggedEvent);
+
+    return {
+      events,
+      cursor: events[events.length - 1]?.eventId ?? query.after ?? null,
+    };
+  }
+
+  /**
+   * Replay the events of an event stream from an offset, then follow new events
+   * Uses a dedicated connection for the blocking reads, closed when the tail stops.
+   * Read errors (e.g. a lost connection) are passed to `onError` and the read retried
+   * from the last event. Without `onError`, a read error ends the tail like a listener
+   * error does: the function stopping the tail rejects with it.
+   * @param listener Called with every event, in log order
+   * @param query Log (run or global) and offset (`limit` is the batch size)
+   * @param onError Called with read and listener errors
+   * @returns Function stopping the tail
+   */
+  async tailEvents(
+    listener: EventLogListener,
+    query: EventLogQuery,
+    onError?: EventLogErrorListener
+  ): Promise<() => Promise<void>> {
+    const reader = await this.openDedicatedConnection();
+
+    const key = this.eventLogKey(query);
+    let cursor = query.after || "0-0";
+    let stopped = false;
+
+    const tail = (async () => {
+      while (!stopped) {
+        let streams: { messages: EventStreamEntry[] }[] | null;
+
+        try {
+          streams = (await reader.xRead(
+            { key, id: cursor },
+            {
+              COUNT: query.limit ?? DEFAULT_EVENT_PAGE_SIZE,
+              BLOCK: TAIL_BLOCK_MS,
+            }
+          )) as unknown as { messages: EventStreamEntry[] }[] | null;
+        } catch (err) {
+          if (stopped) break;
+          if (!onError) throw err;
+
+          // The client reconnects on its own: resume from the last received event
+          onError(err);
+          await new Promise((resolve) => setTimeout(resolve, TAIL_BLOCK_MS));
+          continue;
+        }
+
+        for (const entry of streams?.[0]?.messages ?? []) {
+          if (stopped) break;
+          cursor = entry.id;
+          listener(toLoggedEvent(entry));
+        }
+      }
+    })();
+    // Keep the error that ended the tail for the stop function
+    const ended = tail.then(
+      () => null,
+      (error: unknown) => {
+        if (!stopped) onError?.(error);
+        return { error };
+      }
+    );
+
+    return async () => {
+      stopped = true;
+      const failure = await ended;
+      await reader.close();
+      if (failure) throw failure.error;
+    };
+  }
+
+  /**
+   * Subscribe to the events published on the global channel or the channel of a run
+   * Uses a dedicated connection, resubscribed by the Redis client when it reconnects.
+   * @param listener Called with every published message (the event as JSON)
+   * @param runId Only receive events of this run (default: all runs)
+   * @returns Function unsubscribing and closing the connection
+   */
+  async subscribe(
+    listener: (message: string) => void,
+    runId?: string
+  ): Promise<() => Promise<void>> {
+    const subscriber = await this.openDedicatedConnection();
+
+    const channel = runId ? this.runChannel(runId) : this.GLOBAL_CHANNEL;
+    await subscriber.subscribe(channel, listener);
+
+    return async () => {
+      await subscriber.unsubscribe(channel);
+      await subscriber.close();
+    };
+  }
+
+  // ---------------------------
+  // Projects
+  // ---------------------------
+  async listProjects(): Promise<string[]> {
+    return (await this.getClient().sMembers(this.PROJECTS_KEY)).sort();
+  }
+}
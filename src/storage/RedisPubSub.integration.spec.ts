@@ -19,6 +19,8 @@ import type { NewVisualTestRun, PublishMsg, StoryIdentifier } from "../types";
 import { rm } from "fs/promises";
 import { createClient, type RedisClientType } from "redis";
 import type { VisualTestStorageAPI } from "./VisualTestStorageAPI.js";
+import { isVisualTestEvent } from "./eventProtocol.js";
+import { VisualTestEventsClient } from "./VisualTestEventsClient.js";
 
 // Image config and helpers
 /**
@@ -154,8 +156,7 @@ describe("Redis Publish/Subscribe - Integration Tests", () => {
    * remove test image directory, and restore environment variables
    */
   afterAll(async () => {
-    const client = await storageAPI.connect({ url: redisUrl });
-    await client.flushAll();
+    await publisherClient.flushAll();
     await storageAPI.disconnect();
     await publisherClient?.destroy();
     await subscriberClient?.destroy();
@@ -169,8 +170,7 @@ describe("Redis Publish/Subscribe - Integration Tests", () => {
    * to ensure test isolation
    */
   beforeEach(async () => {
-    const client = await storageAPI.connect({ url: redisUrl });
-    await client.flushAll();
+    await publisherClient.flushAll();
     await storageAPI.disconnect();
     await rm(MOCK_STORAGE_ROOT, { recursive: true });
     await storageAPI.connect({ url: redisUrl });
@@ -243,6 +243,7 @@ describe("Redis Publish/Subscribe - Integration Tests", () => {
         expect(runStartedMessage!.payload.testCount).toBe(payload.testCount);
         expect(runStartedMessage!.timestamp).toBeTypeOf("number");
         expect(runStartedMessage!.timestamp).toBeLessThanOrEqual(Date.now());
+        expect(isVisualTestEvent(runStartedMessage)).toBe(true);
       } finally {
         await cleanup();
       }
@@ -702,8 +703,8 @@ describe("Redis Publish/Subscribe - Integration Tests", () => {
 
         await storageAPI.finishRun(run.runId, "passed");
 
-        // Wait for all expected messages (test:updated, test:finished, run:summary, baseline:accepted, run:finished, run:summary)
-        await waitForMessages(allEventMessages, 6);
+        // Wait for all expected messages (test:updated, run:summary, test:finished, run:summary, baseline:accepted, run:summary, run:finished, run:summary)
+        await waitForMessages(allEventMessages, 8);
 
         // Verify all expected event types were published
         const eventTypes = allEventMessages.map((msg) => msg.type);
@@ -870,4 +871,187 @@ describe("Redis Publish/Subscribe - Integration Tests", () => {
       }
     });
   });
+
+  /**
+   * Tests for the event log (Redis Streams)
+   * Verifies that published events can be replayed from an offset and tailed
+   */
+  describe("Event Log", () => {
+    const mockStoryIdentifier: StoryIdentifier = {
+      storyId: "event-log-test",
+      theme: "light",
+      viewport: { width: 1024, height: 768 },
+    };
+
+    it("should replay the events of a run from an offset", async () => {
+      const run = await storageAPI.startRun(1);
+      await storageAPI.startTest(run.runId, mockStoryIdentifier);
+      await storageAPI.finishTest(run.runId, {
+        storyIdentifier: mockStoryIdentifier,
+        status: "passed",
+        baseline: null,
+        current: createTestImageBuffer("current"),
+        diff: null,
+        diffRatio: 0,
+        message: "passed",
+      });
+
+      const page = await storageAPI.readEvents({ runId: run.runId });
+      expect(page.events.map((event) => event.type)).toEqual([
+        "run:started",
+        "test:started",
+        "test:finished",
+        "run:summary",
+      ]);
+      expect(page.cursor).toBe(page.events[3]!.eventId);
+
+      const rest = await storageAPI.readEvents({
+        runId: run.runId,
+        after: page.events[1]!.eventId,
+        limit: 1,
+      });
+      expect(rest.events.map((event) => event.type)).toEqual(["test:finished"]);
+
+      const global = await storageAPI.readEvents();
+      expect(global.events).toHaveLength(4);
+    });
+
+    it("should replay missed events then tail new ones", async () => {
+      const run = await storageAPI.startRun(1);
+      const events: PublishMsg[] = [];
+
+      const stop = await storageAPI.tailEvents((event) => events.push(event), {
+        runId: run.runId,
+      });
+
+      try {
+        await waitForMessages(events, 1);
+        await storageAPI.startTest(run.runId, mockStoryIdentifier);
+        await waitForMessages(events, 2);
+
+        expect(events.map((event) => event.type)).toEqual([
+          "run:started",
+          "test:started",
+        ]);
+      } finally {
+        await stop();
+      }
+    });
+
+    it("should surface listener errors of a tail", async () => {
+      const run = await storageAPI.startRun(1);
+      const errors: unknown[] = [];
+
+      const stop = await storageAPI.tailEvents(
+        () => {
+          throw new Error("listener failed");
+        },
+        { runId: run.runId },
+        (error) => errors.push(error)
+      );
+
+      await vi.waitFor(() =>
+        expect(errors).toEqual([new Error("listener failed")])
+      );
+      await expect(stop()).rejects.toThrow("listener failed");
+    });
+
+    it("should delete the event stream of a deleted run", async () => {
+      const run = await storageAPI.startRun(1);
+      await storageAPI.finishRun(run.runId);
+
+      await storageAPI.pruneRuns({ keepLast: 0 });
+
+      const page = await storageAPI.readEvents({ runId: run.runId });
+      expect(page.events).toEqual([]);
+      expect(page.cursor).toBeNull();
+    });
+  });
+
+  /**
+   * Tests for the typed events client
+   * Verifies live subscriptions, async iteration and catching up on the event log
+   */
+  describe("Events Client", () => {
+    const mockStoryIdentifier: StoryIdentifier = {
+      storyId: "events-client-test",
+      theme: "light",
+      viewport: { width: 1024, height: 768 },
+    };
+
+    it("should deliver the live events of a run to listeners", async () => {
+      const run = await storageAPI.startRun(1);
+      const otherRun = await storageAPI.startRun(1);
+      const client = new VisualTestEventsClient(
+        { url: redisUrl },
+        { runId: run.runId }
+      );
+      const events: PublishMsg[] = [];
+      client.on((event) => events.push(event));
+
+      try {
+        await client.connect();
+        await storageAPI.startTest(otherRun.runId, mockStoryIdentifier);
+        await storageAPI.startTest(run.runId, mockStoryIdentifier);
+        await waitForMessages(events, 1);
+
+        expect(events).toHaveLength(1);
+        expect(events[0]).toMatchObject({
+          type: "test:started",
+          runId: run.runId,
+          payload: { storyIdentifier: mockStoryIdentifier },
+        });
+      } finally {
+        await client.close();
+      }
+    });
+
+    it("should report invalid messages instead of delivering them", async () => {
+      const onError = vi.fn();
+      const client = new VisualTestEventsClient({ url: redisUrl }, { onError });
+      const events: PublishMsg[] = [];
+      client.on((event) => events.push(event));
+
+      try {
+        await client.connect();
+        await publisherClient.publish(
+          "visualtest:events",
+          JSON.stringify({ type: "run:started", runId: "legacy" })
+        );
+        await storageAPI.startRun(1);
+        await waitForMessages(events, 1);
+
+        expect(events[0]!.type).toBe("run:started");
+        expect(onError).toHaveBeenCalledTimes(1);
+      } finally {
+        await client.close();
+      }
+    });
+
+    it("should catch up on missed events then iterate over new ones", async () => {
+      const run = await storageAPI.startRun(1);
+      const client = new VisualTestEventsClient(
+        { url: redisUrl },
+        { runId: run.runId, catchUp: true }
+      );
+      const iterator = client[Symbol.asyncIterator]();
+
+      try {
+        await client.connect();
+        await storageAPI.startTest(run.runId, mockStoryIdentifier);
+
+        const first = await iterator.next();
+        const second = await iterator.next();
+        expect(first.value?.type).toBe("run:started");
+        expect(second.value?.type).toBe("test:started");
+      } finally {
+        await client.close();
+      }
+
+      await expect(iterator.next()).resolves.toEqual({
+        done: true,
+        value: undefined,
+      });
+    });
+  });
 });
@@ -0,0 +1,437 @@
+/**
+ * Tests for the S3ImageStore
+ * These tests run against a minimal in-process S3-compatible stand-in (path-style
+ * bucket/object PUT, CopyObject, GET, HEAD and DELETE, ListObjectsV2) so no MinIO
+ * container is required. Deleting objects of `read-only-*` buckets is denied.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import type { StoryIdentifier } from "../types";
+import { S3ImageStore } from "./S3ImageStore";
+import { SCHEMA_VERSION } from "./schema";
+
+/**
+ * Start an in-memory S3-compatible server
+ * @returns The server, its endpoint and the stored objects (by `bucket/key`)
+ */
+const startFakeS3 = async () => {
+  const buckets = new Set<string>();
+  const objects = new Map<string, Buffer>();
+
+  const server = createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+
+    const path = decodeURIComponent(new URL(req.url!, "http://s3").pathname);
+    const [bucket = "", ...keyParts] = path.slice(1).split("/");
+    const key = keyParts.join("/");
+    const objectId = `${bucket}/${key}`;
+
+    const notFound = (code: string) => {
+      res.statusCode = 404;
+      res.setHeader("Content-Type", "application/xml");
+      res.end(
+        req.method === "HEAD"
+          ? undefined
+          : `<Error><Code>${code}</Code></Error>`
+      );
+    };
+
+    if (!key && req.method === "GET" && buckets.has(bucket)) {
+      const prefix = new URL(req.url!, "http://s3").searchParams.get("prefix");
+      const contents = [...objects]
+        .filter(([id]) => id.startsWith(`${bucket}/${prefix ?? ""}`))
+        .map(
+          ([id, body]) =>
+            `<Contents><Key>${id.slice(bucket.length + 1)}</Key><Size>${
+              body.length
+            }</Size></Contents>`
+        );
+      res.statusCode = 200;
+      res.setHeader("Content-Type", "application/xml");
+      return res.end(
+        `<ListBucketResult><IsTruncated>false</IsTruncated>${contents.join(
+          ""
+        )}</ListBucketResult>`
+      );
+    }
+
+    if (!key) {
+      if (req.method === "PUT") buckets.add(bucket);
+      else if (!buckets.has(bucket)) return notFound("NoSuchBucket");
+      res.statusCode = 200;
+      return res.end();
+    }
+
+    const copySource = req.headers["x-amz-copy-source"];
+    if (req.method === "PUT" && typeof copySource === "string") {
+      const source = objects.get(decodeURIComponent(copySource));
+      if (!source) return notFound("NoSuchKey");
+
+      objects.set(objectId, source);
+      res.statusCode = 200;
+      res.setHeader("Content-Type", "application/xml");
+      return res.end(
+        `<CopyObjectResult><ETag>"copy"</ETag></CopyObjectResult>`
+      );
+    }
+
+    switch (req.method) {
+      case "PUT":
+        objects.set(objectId, Buffer.concat(chunks));
+        res.statusCode = 200;
+        return res.end();
+      case "GET":
+      case "HEAD": {
+        const body = objects.get(objectId);
+        if (!body) return notFound("NoSuchKey");
+        res.statusCode = 200;
+        res.setHeader("Content-Length", body.length);
+        return res.end(req.method === "GET" ? body : undefined);
+      }
+      case "DELETE":
+        if (!buckets.has(bucket)) return notFound("NoSuchBucket");
+        if (bucket.startsWith("read-only-")) {
+          res.statusCode = 403;
+          res.setHeader("Content-Type", "application/xml");
+          return res.end(`<Error><Code>AccessDenied</Code></Error>`);
+        }
+        objects.delete(objectId);
+        res.statusCode = 204;
+        return res.end();
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return { server, endpoint: `http://127.0.0.1:${port}`, objects };
+};
+
+const mockStoryIdentifier: StoryIdentifier = {
+  storyId: "button-primary",
+  theme: "dark",
+  viewport: { width: 1440, height: 900 },
+};
+
+describe("S3ImageStore", () => {
+  let server: Server;
+  let objects: Map<string, Buffer>;
+  let store: S3ImageStore;
+  let endpoint: string;
+
+  beforeAll(async () => {
+    const fakeS3 = await startFakeS3();
+    server = fakeS3.server;
+    objects = fakeS3.objects;
+    endpoint = fakeS3.endpoint;
+
+    store = new S3ImageStore({
+      endpoint,
+      bucket: "visual-tests",
+      prefix: "/project-a/",
+      credentials: { accessKeyId: "test", secretAccessKey: "test" },
+      createBucket: true,
+    });
+    await store.init();
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  /**
+   * Tests that baselines are stored under the prefix and referenced by object key
+   */
+  it("should save and read a baseline by object key", async () => {
+    const buffer = Buffer.from("baseline");
+
+    const key = await store.saveBaseline(mockStoryIdentifier, buffer);
+
+    expect(key).toBe("project-a/baselines/button-primary-dark-1440x900.png");
+    expect(objects.get(`visual-tests/${key}`)).toEqual(buffer);
+    await expect(store.getBaselineRef(mockStoryIdentifier)).resolves.toBe(key);
+    await expect(store.getBaseline(mockStoryIdentifier)).resolves.toEqual(
+      buffer
+    );
+    await expect(store.getImage(key)).resolves.toEqual(buffer);
+  });
+
+  /**
+   * Tests that the images of a project are stored under its own prefix
+   */
+  it("should store the images of a project under the prefix", async () => {
+    const projectStore = new S3ImageStore({
+      endpoint,
+      bucket: "visual-tests",
+      prefix: "/project-a/",
+      project: "design system",
+      credentials: { accessKeyId: "test", secretAccessKey: "test" },
+    });
+    await projectStore.init();
+
+    const key = await projectStore.saveBaseline(
+      mockStoryIdentifier,
+      Buffer.from("project baseline")
+    );
+
+    expect(key).toBe(
+      "project-a/projects/design%20system/baselines/button-primary-dark-1440x900.png"
+    );
+    await expect(
+      projectStore.getBaseline(mockStoryIdentifier)
+    ).resolves.toEqual(Buffer.from("project baseline"));
+    await expect(projectStore.getSchemaVersion()).resolves.toBe(SCHEMA_VERSION);
+    await expect(store.getBaseline(mockStoryIdentifier)).resolves.not.toEqual(
+      Buffer.from("project baseline")
+    );
+  });
+
+  /**
+   * Tests that run images are stored per run and can be deleted
+   */
+  it("should save, read and delete run images", async () => {
+    const key = await store.saveRunImage(
+      "run-1",
+      mockStoryIdentifier,
+      Buffer.from("current"),
+      "current"
+    );
+
+    expect(key).toBe(
+      "project-a/runs/run-1/button-primary-dark-1440x900-current.png"
+    );
+    await expect(
+      store.getRunImage("run-1", mockStoryIdentifier, "current")
+    ).resolves.toEqual(Buffer.from("current"));
+
+    await store.deleteTestImages("run-1", mockStoryIdentifier);
+
+    await expect(store.getImage(key)).resolves.toBeNull();
+  });
+
+  /**
+   * Tests that run images are listed by run and deleted one by one
+   */
+  it("should list and delete single run images", async () => {
+    const key = await store.saveRunImage(
+      "run-2",
+      mockStoryIdentifier,
+      Buffer.from("diff"),
+      "diff"
+    );
+
+    await expect(store.listRunImages()).resolves.toMatchObject({
+      "run-2": [key],
+    });
+    await expect(store.hasImage(key)).resolves.toBe(true);
+
+    await store.deleteRunImage("run-2", key);
+
+    await expect(store.hasImage(key)).resolves.toBe(false);
+  });
+
+  /**
+   * Tests that baselines are archived as versions that can be restored
+   */
+  it("should keep baseline versions and restore them", async () => {
+    await store.saveBaseline(mockStoryIdentifier, Buffer.from("v1"), {
+      runId: "run-1",
+      acceptedBy: "alice",
+    });
+    await store.saveBaseline(mockStoryIdentifier, Buffer.from("v2"));
+
+    const versions = await store.listBaselineVersions(mockStoryIdentifier);
+    const first = versions.find((v) => v.acceptedBy === "alice")!;
+
+    expect(first).toMatchObject({ runId: "run-1", active: false });
+    expect(first.ref).toMatch(
+      /^project-a\/baseline-history\/button-primary-dark-1440x900\//
+    );
+
+    await store.restoreBaselineVersion(mockStoryIdentifier, first.versionId);
+
+    await expect(store.getBaseline(mockStoryIdentifier)).resolves.toEqual(
+      Buffer.from("v1")
+    );
+    const restored = await store.listBaselineVersions(mockStoryIdentifier);
+    expect(restored.find((v) => v.active)?.versionId).toBe(first.versionId);
+  });
+
+  /**
+   * Tests that the active version is stored once and old versions are dropped beyond the limit
+   */
+  it("should store baseline versions once and keep the history limit", async () => {
+    const limitedStore = new S3ImageStore({
+      endpoint,
+      bucket: "visual-tests",
+      prefix: "project-limited",
+      credentials: { accessKeyId: "test", secretAccessKey: "test" },
+      baselineHistoryLimit: 2,
+    });
+
+    for (const content of ["v1", "v2", "v3"]) {
+      await limitedStore.saveBaseline(
+        mockStoryIdentifier,
+        Buffer.from(content)
+      );
+    }
+
+    const versions = await limitedStore.listBaselineVersions(
+      mockStoryIdentifier
+    );
+    expect(versions.map((v) => v.ref)).toEqual([
+      "project-limited/baselines/button-primary-dark-1440x900.png",
+      `project-limited/baseline-history/button-primary-dark-1440x900/${versions[1]?.versionId}.png`,
+    ]);
+    expect(
+      [...objects.keys()].filter((id) =>
+        id.startsWith("visual-tests/project-limited/baseline-history/")
+      )
+    ).toHaveLength(2);
+
+    await limitedStore.restoreBaselineVersion(
+      mockStoryIdentifier,
+      versions[1]?.versionId ?? ""
+    );
+    await expect(
+      limitedStore.getBaseline(mockStoryIdentifier)
+    ).resolves.toEqual(Buffer.from("v2"));
+    const [newest] = await limitedStore.listBaselineVersions(
+      mockStoryIdentifier
+    );
+    await expect(limitedStore.getImage(newest?.ref ?? "")).resolves.toEqual(
+      Buffer.from("v3")
+    );
+  });
+
+  /**
+   * Tests that branch baselines are stored apart and can be promoted
+   */
+  it("should promote branch baselines to the base namespace", async () => {
+    const key = await store.saveBaseline(
+      mockStoryIdentifier,
+      Buffer.from("branch"),
+      { runId: "run-2", acceptedBy: "bob" },
+      "feature/x"
+    );
+
+    expect(key).toBe(
+      "project-a/branches/feature%2Fx/baselines/button-primary-dark-1440x900.png"
+    );
+
+    const promoted = await store.promoteBaselines("feature/x");
+
+    expect(promoted).toEqual([
+      "project-a/baselines/button-primary-dark-1440x900.png",
+    ]);
+    await expect(store.getBaseline(mockStoryIdentifier)).resolves.toEqual(
+      Buffer.from("branch")
+    );
+    const [active] = await store.listBaselineVersions(mockStoryIdentifier);
+    expect(active).toMatchObject({ runId: "run-2", acceptedBy: "bob" });
+  });
+
+  /**
+   * Tests that missing objects resolve to null instead of throwing
+   */
+  it("should return null for missing objects", async () => {
+    await store.deleteBaseline(mockStoryIdentifier);
+
+    await expect(store.getBaselineRef(mockStoryIdentifier)).resolves.toBeNull();
+    await expect(store.getBaseline(mockStoryIdentifier)).resolves.toBeNull();
+  });
+
+  /**
+   * Tests that failed deletions are reported, and deleting from a missing bucket isn't
+   */
+  it("should only ignore deletions of missing objects", async () => {
+    const open = (bucket: string) =>
+      new S3ImageStore({
+        endpoint,
+        bucket,
+        credentials: { accessKeyId: "test", secretAccessKey: "test" },
+        createBucket: true,
+      });
+
+    const readOnlyStore = open("read-only-images");
+    await readOnlyStore.init();
+    await readOnlyStore.saveBaseline(mockStoryIdentifier, Buffer.from("base"));
+
+    await expect(
+      readOnlyStore.deleteBaseline(mockStoryIdentifier)
+    ).rejects.toMatchObject({ name: "AccessDenied" });
+    await expect(
+      readOnlyStore.getBaseline(mockStoryIdentifier)
+    ).resolves.toEqual(Buffer.from("base"));
+
+    await expect(
+      open("missing-bucket").deleteBaseline(mockStoryIdentifier)
+    ).resolves.toBeUndefined();
+  });
+
+  /**
+   * Tests that keys resolving outside the prefix are rejected
+   */
+  it("should reject keys outside the prefix", async () => {
+    await expect(
+      store.saveRunImage(
+        "../../other-project",
+        mockStoryIdentifier,
+        Buffer.from("current"),
+        "current"
+      )
+    ).rejects.toThrow("outside the prefix");
+  });
+
+  /**
+   * Tests that a new prefix records the schema version, and a prefix holding legacy images doesn't
+   */
+  it("should record the schema version of a new prefix", async () => {
+    const open = async (prefix: string) => {
+      const prefixStore = new S3ImageStore({
+        endpoint,
+        bucket: "visual-tests",
+        prefix,
+        credentials: { accessKeyId: "test", secretAccessKey: "test" },
+      });
+      await prefixStore.init();
+      return prefixStore;
+    };
+    objects.set(
+      "visual-tests/project-legacy/baselines/button-dark-1440x900.png",
+      Buffer.from("legacy")
+    );
+
+    await expect((await open("project-new")).getSchemaVersion()).resolves.toBe(
+      SCHEMA_VERSION
+    );
+    await expect(
+      (await open("project-legacy")).getSchemaVersion()
+    ).resolves.toBe(0);
+  });
+
+  /**
+   * Tests that baselines stored under legacy, unencoded ids are moved
+   */
+  it("should migrate legacy baselines", async () => {
+    objects.set(
+      "visual-tests/project-a/branches/release-1.2/baselines/docs/my.story-dark-1440x900.png",
+      Buffer.from("legacy")
+    );
+
+    await expect(store.migrateImageIds()).resolves.toBe(1);
+
+    expect([...objects.keys()]).toContain(
+      "visual-tests/project-a/branches/release-1%2E2/baselines/docs%2Fmy%2Estory-dark-1440x900.png"
+    );
+    await expect(
+      store.getBaseline(
+        { ...mockStoryIdentifier, storyId: "docs/my.story" },
+        "release-1.2"
+      )
+    ).resolves.toEqual(Buffer.from("legacy"));
+  });
+});
@@ -0,0 +1,795 @@
+/**
+ * S3-compatible image store for visual test results
+ *
+ * `ImageStore` implementation that writes images to an S3-compatible bucket
+ * (AWS S3, MinIO, R2, ...) so CI runners and reviewers don't need a shared disk.
+ * Objects are laid out like the filesystem store, under an optional prefix:
+ * `{prefix}/baselines/{imageId}.png`, `{prefix}/baseline-history/{imageId}/{versionId}.png`
+ * and `{prefix}/runs/{runId}/{imageId}-{type}.png`. Baselines of other namespaces
+ * (e.g. git branches) use the same layout under `{prefix}/branches/{namespace}/`.
+ * The active baseline version is only stored under `baselines/` (its history entry
+ * points to it) and is copied to `baseline-history/` when replaced.
+ * The images of a project (see `project.ts`) live under `{prefix}/projects/{project}/`.
+ * Image references are the object keys.
+ */
+
+import {
+  CopyObjectCommand,
+  CreateBucketCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadBucketCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import { posix } from "path";
+import type {
+  BaselineSource,
+  BaselineVersion,
+  ImageUsage,
+  StoryIdentifier,
+} from "../types/index.js";
+import type { ImageStore, RunImageType } from "./StorageAdapter.js";
+import {
+  decodeIdSegment,
+  encodeIdSegment,
+  getImageId,
+  getNamespaceSegments,
+  parseImageId,
+} from "./imageId.js";
+import {
+  createBaselineVersion,
+  emptyBaselineHistory,
+  getBaselineHistoryLimit,
+  listBaselineVersions,
+  pruneBaselineHistory,
+  type BaselineHistoryManifest,
+} from "./baselineHistory.js";
+import { getProject } from "./project.js";
+import { SCHEMA_VERSION } from "./schema.js";
+
+/**
+ * Configuration of the S3 image store
+ *
+ * @property {string} bucket - Bucket where images are stored
+ * @property {string} endpoint - S3-compatible endpoint URL (omit for AWS S3)
+ * @property {string} prefix - Key prefix for all images (default: none)
+ * @property {string} region - Bucket region (default: `us-east-1`)
+ * @property {object} credentials - Access key pair (default: AWS SDK credential chain)
+ * @property {boolean} forcePathStyle - Use `endpoint/bucket/key` URLs (default: true when `endpoint` is set, required by MinIO)
+ * @property {boolean} createBucket - Create the bucket on `init` if it doesn't exist (default: false)
+ * @property {number} baselineHistoryLimit - Maximum number of versions kept in the history of each baseline
+ * (default: `VITE_VISUAL_TEST_BASELINE_HISTORY_LIMIT`, every version if not set)
+ * @property {string} project - Project namespace, stored under `{prefix}/projects/{project}/`
+ * (default: `VITE_VISUAL_TEST_PROJECT`, directly under the prefix if not set)
+ */
+export type S3ImageStoreOptions = {
+  bucket: string;
+  endpoint?: string;
+  prefix?: string;
+  region?: string;
+  credentials?: { accessKeyId: string; secretAccessKey: string };
+  forcePathStyle?: boolean;
+  createBucket?: boolean;
+  baselineHistoryLimit?: number;
+  project?: string;
+};
+
+/**
+ * Check if an AWS SDK error means that the object/bucket doesn't exist
+ * @param error Error thrown by the S3 client
+ * @returns True for "not found" errors
+ */
+const isNotFoundError = (error: unknown) => {
+  const err = error as {
+    name?: string;
+    $metadata?: { httpStatusCode?: number };
+  };
+
+  return (
+    err?.name === "NoSuchKey" ||
+    err?.name === "NotFound" ||
+    err?.name === "NoSuchBucket" ||
+    err?.$metadata?.httpStatusCode === 404
+  );
+};
+
+export class S3ImageStore implements ImageStore {
+  readonly bucket: string;
+  /** Key prefix of the images (including the project) */
+  readonly prefix: string;
+  /** Project of the images (undefined for the unprefixed layout) */
+  readonly project: string | undefined;
+  private readonly client: S3Client;
+  private readonly createBucket: boolean;
+  /** Maximum number of versions kept in the history of each baseline */
+  readonly baselineHistoryLimit: number;
+
+  constructor(options: S3ImageStoreOptions) {
+    this.bucket = options.bucket;
+    this.baselineHistoryLimit = getBaselineHistoryLimit(
+      options.baselineHistoryLimit
+    );
+    this.project = getProject(options.project);
+
+    const prefix = (options.prefix ?? "").replace(/^\/+|\/+$/g, "");
+    this.prefix = this.project
+      ? posix.join(prefix, "projects", encodeIdSegment(this.project))
+      : prefix;
+    this.createBucket = options.createBucket ?? false;
+    this.client = new S3Client({
+      endpoint: options.endpoint,
+      region: options.region ?? "us-east-1",
+      credentials: options.credentials,
+      forcePathStyle: options.forcePathStyle ?? Boolean(options.endpoint),
+    });
+  }
+
+  // ---------------------------
+  // Keys helpers
+  // ---------------------------
+  /**
+   * Prefix a key with the configured prefix, rejecting keys that resolve outside of it
+   * @param parts Key segments
+   * @returns Full object key
+   */
+  private key(...parts: string[]) {
+    const key = this.prefix
+      ? posix.join(this.prefix, ...parts)
+      : posix.join(...parts);
+
+    if (
+      (this.prefix && !key.startsWith(`${this.prefix}/`)) ||
+      key === ".." ||
+      key.startsWith("../") ||
+      key.startsWith("/")
+    ) {
+      throw new Error(`Image key resolves outside the prefix: ${key}`);
+    }
+
+    return key;
+  }
+
+  /**
+   * Get baselines object key prefix of a namespace
+   * @param namespace The baseline namespace (default: base namespace)
+   * @returns Key prefix of the baseline images
+   */
+  private getBaselinesKey(namespace?: string) {
+    return this.key(...getNamespaceSegments(namespace), "baselines");
+  }
+
+  /**
+   * Get baseline object key for a story
+   * @param imageId The image identifier of the story
+   * @param namespace The baseline namespace
+   * @returns Object key of the baseline image
+   */
+  private getBaselineKey(imageId: string, namespace?: string) {
+    return this.key(
+      ...getNamespaceSegments(namespace),
+      "baselines",
+      `${imageId}.png`
+    );
+  }
+
+  /**
+   * Get baseline history object key for a story
+   * @param imageId The image identifier of the story
+   * @param file File name inside the story history
+   * @param namespace The baseline namespace
+   * @returns Object key inside the baseline history of the story
+   */
+  private getBaselineHistoryKey(
+    imageId: string,
+    file: string,
+    namespace?: string
+  ) {
+    return this.key(
+      ...getNamespaceSegments(namespace),
+      "baseline-history",
+      imageId,
+      file
+    );
+  }
+
+  /**
+   * Get run image (current, diff or baseline copy) object key
+   * @param runId The unique identifier for the test run
+   * @param storyIdentifier The identifier for the story
+   * @param type The type of image: "current", "diff" or "baseline"
+   * @returns Object key of the run image
+   */
+  private getRunImageKey(
+    runId: string,
+    storyIdentifier: StoryIdentifier,
+    type: RunImageType
+  ) {
+    return this.key(
+      "runs",
+      runId,
+      `${getImageId(storyIdentifier)}-${type}.png`
+    );
+  }
+
+  // ---------------------------
+  // Object helpers
+  // ---------------------------
+  /**
+   * Upload an object
+   * @param key Object key
+   * @param buffer Object content
+   * @param contentType Object content type (default: PNG image)
+   * @returns The object key
+   */
+  private async putObject(
+    key: string,
+    buffer: Buffer,
+    contentType = "image/png"
+  ): Promise<string> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: Buffer.from(buffer),
+        ContentType: contentType,
+      })
+    );
+    return key;
+  }
+
+  /**
+   * List all objects under a key prefix
+   * @param prefix Key prefix (a trailing `/` is added)
+   * @returns Keys and sizes of the objects
+   */
+  private async listObjects(
+    prefix: string
+  ): Promise<{ key: string; size: number }[]> {
+    const objects: { key: string; size: number }[] = [];
+    let ContinuationToken: string | undefined;
+
+    do {
+      const res = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: `${prefix}/`,
+          ContinuationToken,
+        })
+      );
+
+      for (const object of res.Contents ?? []) {
+        if (!object.Key) continue;
+        objects.push({ key: object.Key, size: object.Size ?? 0 });
+      }
+
+      ContinuationToken = res.IsTruncated
+        ? res.NextContinuationToken
+        : undefined;
+    } while (ContinuationToken);
+
+    return objects;
+  }
+
+  /**
+   * Check if objects exist under a key prefix
+   * @param prefix Key prefix (without trailing `/`)
+   * @returns True if at least one object exists
+   */
+  private async hasObjects(prefix: string): Promise<boolean> {
+    const res = await this.client.send(
+      new ListObjectsV2Command({
+        Bucket: this.bucket,
+        Prefix: `${prefix}/`,
+        MaxKeys: 1,
+      })
+    );
+
+    return (res.Contents ?? []).length > 0;
+  }
+
+  /**
+   * Read the baseline history manifest of a story
+   * @param imageId The image identifier of the story
+   * @param namespace The baseline namespace
+   * @returns The manifest (empty if the story has no history)
+   */
+  private async readBaselineHistory(
+    imageId: string,
+    namespace?: string
+  ): Promise<BaselineHistoryManifest> {
+    const manifest = await this.getImage(
+      this.getBaselineHistoryKey(imageId, "manifest.json", namespace)
+    );
+    if (!manifest) return emptyBaselineHistory();
+
+    return JSON.parse(manifest.toString("utf-8")) as BaselineHistoryManifest;
+  }
+
+  /**
+   * Write the baseline history manifest of a story
+   * @param imageId The image identifier of the story
+   * @param manifest The manifest to write
+   * @param namespace The baseline namespace
+   */
+  private async writeBaselineHistory(
+    imageId: string,
+    manifest: BaselineHistoryManifest,
+    namespace?: string
+  ) {
+    await this.putObject(
+      this.getBaselineHistoryKey(imageId, "manifest.json", namespace),
+      Buffer.from(JSON.stringify(manifest, null, 2)),
+      "application/json"
+    );
+  }
+
+  /**
+   * Check if an object exists
+   * @param key Object key
+   * @returns True if the object exists
+   */
+  private async exists(key: string): Promise<boolean> {
+    try {
+      await this.client.send(
+        new HeadObjectCommand({ Bucket: this.bucket, Key: key })
+      );
+      return true;
+    } catch (error) {
+      if (isNotFoundError(error)) return false;
+      throw error;
+    }
+  }
+
+  /**
+   * Delete an object (no-op if it doesn't exist)
+   * @param key Object key
+   * @throws {Error} If the deletion fails for another reason (e.g. access denied)
+   */
+  private async deleteObject(key: string) {
+    try {
+      await this.client.send(
+        new DeleteObjectCommand({ Bucket: this.bucket, Key: key })
+      );
+    } catch (error) {
+      if (!isNotFoundError(error)) throw error;
+    }
+  }
+
+  /**
+   * Copy an object to another key, server side
+   * @param from Source object key
+   * @param to Target object key
+   */
+  private async copyObject(from: string, to: string) {
+    await this.client.send(
+      new CopyObjectCommand({
+        Bucket: this.bucket,
+        Key: to,
+        CopySource: [this.bucket, ...from.split("/")]
+          .map(encodeURIComponent)
+          .join("/"),
+      })
+    );
+  }
+
+  /**
+   * Move an object to another key
+   * @param from Current object key
+   * @param to New object key
+   */
+  private async moveObject(from: string, to: string) {
+    const buffer = await this.getImage(from);
+    if (!buffer) return;
+
+    await this.putObject(
+      to,
+      buffer,
+      from.endsWith(".json") ? "application/json" : "image/png"
+    );
+    await this.deleteObject(from);
+  }
+
+  /**
+   * Move legacy baselines of a namespace to their encoded image ids
+   * @param namespace The baseline namespace
+   * @returns Number of moved baselines
+   */
+  private async migrateNamespaceImageIds(namespace?: string) {
+    const baselinesKey = this.getBaselinesKey(namespace);
+    let migrated = 0;
+
+    for (const { key } of await this.listObjects(baselinesKey)) {
+      if (!key.endsWith(".png")) continue;
+
+      const legacyId = key.slice(baselinesKey.length + 1, -".png".length);
+      const storyIdentifier = parseImageId(legacyId);
+      if (!storyIdentifier) continue;
+
+      const imageId = getImageId(storyIdentifier);
+      if (imageId !== legacyId) {
+        await this.moveObject(key, this.getBaselineKey(imageId, namespace));
+
+        const legacyHistoryKey = this.key(
+          ...getNamespaceSegments(namespace),
+          "baseline-history",
+          legacyId
+        );
+        for (const object of await this.listObjects(legacyHistoryKey)) {
+          await this.moveObject(
+            object.key,
+            this.getBaselineHistoryKey(
+              imageId,
+              object.key.slice(legacyHistoryKey.length + 1),
+              namespace
+            )
+          );
+        }
+        migrated++;
+      }
+
+      // Point archived versions to their (possibly moved) location
+      const baselineKey = this.getBaselineKey(imageId, namespace);
+      const manifest = await this.readBaselineHistory(imageId, namespace);
+      const versions = manifest.versions.map((version) => ({
+        ...version,
+        ref:
+          version.ref === key || version.ref === baselineKey
+            ? baselineKey
+            : this.getBaselineHistoryKey(
+                imageId,
+                `${version.versionId}.png`,
+                namespace
+              ),
+      }));
+      if (versions.some((v, i) => v.ref !== manifest.versions[i]?.ref)) {
+        await this.writeBaselineHistory(
+          imageId,
+          { ...manifest, versions },
+          namespace
+        );
+      }
+    }
+
+    return migrated;
+  }
+
+  /**
+   * Copy the active baseline of a story to the history key of its version,
+   * before the baseline key is overwritten or deleted
+   * @param imageId The image identifier of the story
+   * @param manifest The manifest of the story, updated in place
+   * @param namespace The baseline namespace
+   * @returns True if the active version was copied (the manifest must be written)
+   */
+  private async archiveActiveBaseline(
+    imageId: string,
+    manifest: BaselineHistoryManifest,
+    namespace?: string
+  ): Promise<boolean> {
+    const key = this.getBaselineKey(imageId, namespace);
+    const active = manifest.versions.find(
+      (v) => v.versionId === manifest.activeVersionId
+    );
+    if (active?.ref !== key) return false;
+
+    const versionKey = this.getBaselineHistoryKey(
+      imageId,
+      `${active.versionId}.png`,
+      namespace
+    );
+    await this.copyObject(key, versionKey);
+    active.ref = versionKey;
+
+    return true;
+  }
+
+  /**
+   * Make a new baseline version of a story the active baseline
+   * The version is only stored under the baseline key, and the versions beyond
+   * the history limit are deleted.
+   * @param imageId The image identifier of the story
+   * @param buffer The image buffer to save
+   * @param source Origin of the baseline
+   * @param namespace The baseline namespace
+   * @returns Object key of the active baseline
+   */
+  private async writeBaseline(
+    imageId: string,
+    buffer: Buffer,
+    source?: BaselineSource,
+    namespace?: string
+  ): Promise<string> {
+    const version = createBaselineVersion(source);
+    const manifest = await this.readBaselineHistory(imageId, namespace);
+
+    await this.archiveActiveBaseline(imageId, manifest, namespace);
+    const key = await this.putObject(
+      this.getBaselineKey(imageId, namespace),
+      buffer
+    );
+
+    manifest.versions.push({ ...version, ref: key });
+    manifest.activeVersionId = version.versionId;
+    const expired = pruneBaselineHistory(manifest, this.baselineHistoryLimit);
+    await this.writeBaselineHistory(imageId, manifest, namespace);
+    for (const { ref } of expired) await this.deleteObject(ref);
+
+    return key;
+  }
+
+  // ---------------------------
+  // ImageStore
+  // ---------------------------
+  /**
+   * Check that the bucket is reachable (and create it if `createBucket` is set)
+   */
+  async init() {
+    try {
+      await this.client.send(new HeadBucketCommand({ Bucket: this.bucket }));
+    } catch (error) {
+      if (!this.createBucket || !isNotFoundError(error)) throw error;
+
+      await this.client.send(new CreateBucketCommand({ Bucket: this.bucket }));
+    }
+
+    // A new prefix records the current schema version
+    if (!(await this.exists(this.key("schema.json")))) {
+      const layout = ["baselines", "baseline-history", "runs", "branches"];
+      const hasImages = await Promise.all(
+        layout.map((dir) => this.hasObjects(this.key(dir)))
+      );
+
+      if (!hasImages.some(Boolean)) await this.setSchemaVersion(SCHEMA_VERSION);
+    }
+  }
+
+  async saveBaseline(
+    storyIdentifier: StoryIdentifier,
+    buffer: Buffer,
+    source?: BaselineSource,
+    namespace?: string
+  ): Promise<string> {
+    return this.writeBaseline(
+      getImageId(storyIdentifier),
+      buffer,
+      source,
+      namespace
+    );
+  }
+
+  async listBaselineVersions(
+    storyIdentifier: StoryIdentifier,
+    namespace?: string
+  ): Promise<BaselineVersion[]> {
+    return listBaselineVersions(
+      await this.readBaselineHistory(getImageId(storyIdentifier), namespace)
+    );
+  }
+
+  async restoreBaselineVersion(
+    storyIdentifier: StoryIdentifier,
+    versionId: string,
+    namespace?: string
+  ): Promise<string> {
+    const imageId = getImageId(storyIdentifier);
+    const manifest = await this.readBaselineHistory(imageId, namespace);
+    const version = manifest.versions.find((v) => v.versionId === versionId);
+    if (!version) throw new Error("Baseline version not found");
+
+    const key = this.getBaselineKey(imageId, namespace);
+    const versionKey = version.ref;
+
+    if (versionKey !== key) {
+      if (!(await this.exists(versionKey)))
+        throw new Error("Baseline version image not found");
+
+      // Move the restored version to the baseline key
+      await this.archiveActiveBaseline(imageId, manifest, namespace);
+      await this.copyObject(versionKey, key);
+      version.ref = key;
+    }
+
+    manifest.activeVersionId = versionId;
+    await this.writeBaselineHistory(imageId, manifest, namespace);
+    if (versionKey !== key) await this.deleteObject(versionKey);
+
+    return key;
+  }
+
+  async promoteBaselines(namespace: string): Promise<string[]> {
+    const promoted: string[] = [];
+
+    for (const { key } of await this.listObjects(
+      this.getBaselinesKey(namespace)
+    )) {
+      if (!key.endsWith(".png")) continue;
+
+      const imageId = posix.basename(key, ".png");
+      const buffer = await this.getImage(key);
+      if (!buffer) continue;
+
+      const { activeVersionId, versions } = await this.readBaselineHistory(
+        imageId,
+        namespace
+      );
+      const active = versions.find((v) => v.versionId === activeVersionId);
+
+      promoted.push(
+        await this.writeBaseline(imageId, buffer, {
+          runId: active?.runId ?? null,
+          acceptedBy: active?.acceptedBy ?? null,
+        })
+      );
+    }
+
+    return promoted;
+  }
+
+  async saveRunImage(
+    runId: string,
+    storyIdentifier: StoryIdentifier,
+    buffer: Buffer,
+    type: RunImageType
+  ): Promise<string> {
+    return this.putObject(
+      this.getRunImageKey(runId, storyIdentifier, type),
+      buffer
+    );
+  }
+
+  async getImage(key: string): Promise<Buffer | null> {
+    try {
+      const res = await this.client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: key })
+      );
+      if (!res.Body) return null;
+
+      return Buffer.from(await res.Body.transformToByteArray());
+    } catch (error) {
+      if (!isNotFoundError(error))
+        console.error(`Failed to read image from ${key}:`, error);
+      return null;
+    }
+  }
+
+  async getBaselineRef(
+    storyIdentifier: StoryIdentifier,
+    namespace?: string
+  ): Promise<string | null> {
+    const key = this.getBaselineKey(getImageId(storyIdentifier), namespace);
+    return (await this.exists(key)) ? key : null;
+  }
+
+  async listBaselines(namespace?: string): Promise<StoryIdentifier[]> {
+    return (await this.listObjects(this.getBaselinesKey(namespace)))
+      .filter(({ key }) => key.endsWith(".png"))
+      .map(({ key }) => parseImageId(posix.basename(key, ".png")))
+      .filter((s): s is StoryIdentifier => s !== null);
+  }
+
+  async getBaseline(
+    storyIdentifier: StoryIdentifier,
+    namespace?: string
+  ): Promise<Buffer | null> {
+    return this.getImage(
+      this.getBaselineKey(getImageId(storyIdentifier), namespace)
+    );
+  }
+
+  async getRunImage(
+    runId: string,
+    storyIdentifier: StoryIdentifier,
+    type: RunImageType
+  ): Promise<Buffer | null> {
+    return this.getImage(this.getRunImageKey(runId, storyIdentifier, type));
+  }
+
+  async deleteTestImages(
+    runId: string,
+    storyIdentifier: StoryIdentifier
+  ): Promise<void> {
+    for (const type of ["current", "diff"] as const) {
+      await this.deleteObject(
+        this.getRunImageKey(runId, storyIdentifier, type)
+      );
+    }
+  }
+
+  async deleteBaseline(
+    storyIdentifier: StoryIdentifier,
+    namespace?: string
+  ): Promise<void> {
+    const imageId = getImageId(storyIdentifier);
+    const manifest = await this.readBaselineHistory(imageId, namespace);
+
+    // Keep the active version in the history
+    if (await this.archiveActiveBaseline(imageId, manifest, namespace)) {
+      await this.writeBaselineHistory(imageId, manifest, namespace);
+    }
+    await this.deleteObject(this.getBaselineKey(imageId, namespace));
+  }
+
+  async deleteRunImages(runId: string, dryRun = false): Promise<ImageUsage> {
+    const usage: ImageUsage = { files: 0, bytes: 0 };
+    const objects = await this.listObjects(this.key("runs", runId));
+
+    for (const { size } of objects) {
+      usage.files++;
+      usage.bytes += size;
+    }
+
+    if (!dryRun) {
+      for (const { key } of objects) await this.deleteObject(key);
+    }
+
+    return usage;
+  }
+
+  async listRunImages(): Promise<Record<string, string[]>> {
+    const runsKey = this.key("runs");
+    const images: Record<string, string[]> = {};
+
+    for (const { key } of await this.listObjects(runsKey)) {
+      const [runId = "", ...rest] = key.slice(runsKey.length + 1).split("/");
+      if (!key.endsWith(".png") || rest.length === 0) continue;
+
+      (images[runId] ??= []).push(key);
+    }
+
+    return images;
+  }
+
+  async hasImage(key: string): Promise<boolean> {
+    return this.exists(key);
+  }
+
+  async deleteRunImage(runId: string, key: string): Promise<void> {
+    await this.deleteObject(this.key("runs", runId, posix.basename(key)));
+  }
+
+  async migrateImageIds(): Promise<number> {
+    const branchesKey = this.key("branches");
+    const namespaces = new Set<string | undefined>([undefined]);
+
+    for (const { key } of await this.listObjects(branchesKey)) {
+      const [segment = "", ...rest] = key
+        .slice(branchesKey.length + 1)
+        .split("/");
+      const namespace = decodeIdSegment(segment);
+      const target = this.key(...getNamespaceSegments(namespace), ...rest);
+
+      if (target !== key) await this.moveObject(key, target);
+      namespaces.add(namespace);
+    }
+
+    let migrated = 0;
+    for (const namespace of namespaces) {
+      migrated += await this.migrateNamespaceImageIds(namespace);
+    }
+
+    return migrated;
+  }
+
+  async getSchemaVersion(): Promise<number> {
+    const schema = await this.getImage(this.key("schema.json"));
+    if (!schema) return 0;
+
+    return (JSON.parse(schema.toString("utf-8")) as { version: number })
+      .version;
+  }
+
+  async setSchemaVersion(version: number): Promise<void> {
+    await this.putObject(
+      this.key("schema.json"),
+      Buffer.from(JSON.stringify({ version }, null, 2)),
+      "application/json"
+    );
+  }
+
+  async migrateSchema(version: number): Promise<number> {
+    return version === 2 ? this.migrateImageIds() : 0;
+  }
+}
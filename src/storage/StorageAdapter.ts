@@ -0,0 +1,467 @@
+/**
+ * Storage adapter contracts for visual test results
+ *
+ * `VisualTestStorageAPI` orchestrates runs, tests and events but delegates
+ * persistence to two pluggable stores:
+ * - a `MetadataStore` for runs, tests, summaries and event publishing (default: Redis)
+ * - an `ImageStore` for baseline, current and diff images (default: filesystem)
+ *
+ * Implement these types to plug a custom persistence layer into
+ * `VisualTestStorageAPI`, `VisualTestReporter` or `simpleVisualTests()`.
+ */
+
+import type {
+  BaselineSource,
+  BaselineVersion,
+  EventLogPage,
+  EventLogQuery,
+  ImageUsage,
+  NewStoredVisualTest,
+  NewVisualTestRun,
+  RunPage,
+  RunQuery,
+  StoredVisualTestResult,
+  StoryIdentifier,
+  VisualTestEvent,
+  VisualTestRun,
+} from "../types/index.js";
+import type { EventLogErrorListener, EventLogListener } from "./eventLog.js";
+
+/**
+ * Type of image stored for a test run
+ * (`baseline` is a copy of the baseline the run compared against, e.g. for imported runs)
+ */
+export type RunImageType = "baseline" | "current" | "diff";
+
+/**
+ * Amounts to add to the counters of a run summary
+ */
+export type SummaryIncrements = Partial<
+  Record<keyof VisualTestRun["summary"], number>
+>;
+
+/**
+ * Run interrupted by `MetadataStore.interruptRun`, with the tests it aborted
+ */
+export type InterruptedRun = {
+  run: VisualTestRun;
+  tests: StoredVisualTestResult[];
+};
+
+/**
+ * Metadata persistence (runs, tests, summaries) and event publishing
+ *
+ * @template TClient Type of the underlying client returned by `connect`
+ */
+export type MetadataStore<TClient = unknown> = {
+  /**
+   * Open the connection to the metadata backend (must be idempotent)
+   * @param options Backend specific connection options
+   * @returns The underlying client
+   */
+  connect(options?: unknown): Promise<TClient>;
+
+  /**
+   * Close the connection to the metadata backend
+   */
+  disconnect(): Promise<void>;
+
+  /**
+   * Persist a run document and register it in the run index
+   * @param run The run to save
+   */
+  saveRun(run: NewVisualTestRun | VisualTestRun): Promise<void>;
+
+  /**
+   * Get a run document
+   * @param runId The unique identifier for the test run
+   * @returns The run or null if not found
+   */
+  getRun(runId: string): Promise<VisualTestRun | null>;
+
+  /**
+   * List all indexed runs
+   * @returns Array of all runs, newest first
+   */
+  listRuns(): Promise<VisualTestRun[]>;
+
+  /**
+   * Get a page of runs matching a query, newest first
+   * @param query Filters, page size and cursor
+   * @returns The runs of the page and the cursor of the next one
+   */
+  queryRuns(query: RunQuery): Promise<RunPage>;
+
+  /**
+   * Delete a run document, its tests and remove it from the run index
+   * @param runId The unique identifier for the test run
+   * @returns Number of deleted test documents
+   */
+  deleteRun(runId: string): Promise<number>;
+
+  /**
+   * Atomically add increments (possibly negative) to the run summary counters
+   * @param runId The unique identifier for the test run
+   * @param increments Amount to add to each counter
+   * @returns The updated run or null if the run does not exist
+   */
+  incrementSummary(
+    runId: string,
+    increments: SummaryIncrements
+  ): Promise<VisualTestRun | null>;
+
+  /**
+   * Record a heartbeat on a run, without rewriting the rest of the run document
+   * @param runId The unique identifier for the test run
+   * @param heartbeatAt Unix timestamp of the heartbeat
+   * @returns False if the run does not exist
+   */
+  touchRun(runId: string, heartbeatAt: number): Promise<boolean>;
+
+  /**
+   * Record the end of a run (`finishedAt`, `reason` and `duration`) in one atomic
+   * step, without rewriting the rest of the run document
+   * @param runId The unique identifier for the test run
+   * @param reason The reason for finishing the run
+   * @param finishedAt Unix timestamp of the end of the run
+   * @returns The updated run or null if the run does not exist
+   */
+  finishRun(
+    runId: string,
+    reason: VisualTestRun["reason"],
+    finishedAt: number
+  ): Promise<VisualTestRun | null>;
+
+  /**
+   * Interrupt a stale run in one atomic step, only if it is still unfinished and its
+   * last heartbeat (or start) is still `heartbeatAt`: the given tests still running
+   * with the same `startedAt` are marked as aborted at `heartbeatAt` and counted in the
+   * `aborted` summary counter, and the run is finished with the "interrupted" reason
+   * @param runId The unique identifier for the test run
+   * @param heartbeatAt Last heartbeat of the run when it was found stale
+   * @param tests Running tests of the run when it was found stale
+   * @returns The interrupted run and aborted tests, or null if the run changed since
+   */
+  interruptRun(
+    runId: string,
+    heartbeatAt: number,
+    tests: StoredVisualTestResult[]
+  ): Promise<InterruptedRun | null>;
+
+  /**
+   * Persist a test document and register it in its run test set
+   * @param test The test to save
+   */
+  saveTest(
+    test: NewStoredVisualTest | Partial<StoredVisualTestResult>
+  ): Promise<void>;
+
+  /**
+   * Get a test document
+   * @param runId The unique identifier for the test run
+   * @param storyIdentifier The identifier for the story
+   * @returns The test or null if not found
+   */
+  getTest(
+    runId: string,
+    storyIdentifier: StoryIdentifier
+  ): Promise<StoredVisualTestResult | null>;
+
+  /**
+   * List all tests of a run
+   * @param runId The unique identifier for the test run
+   * @returns Array of tests for the run
+   */
+  listTestsForRun(runId: string): Promise<StoredVisualTestResult[]>;
+
+  /**
+   * List the tests of a story across runs
+   * @param storyIdentifier The identifier for the story
+   * @param limit Maximum number of tests to return
+   * @returns The most recent tests of the story, newest first
+   */
+  listTestsForStory(
+    storyIdentifier: StoryIdentifier,
+    limit: number
+  ): Promise<StoredVisualTestResult[]>;
+
+  /**
+   * Re-key tests stored under legacy, unencoded story identifiers
+   * @returns Number of re-keyed tests
+   */
+  migrateTestKeys(): Promise<number>;
+
+  /**
+   * Get the schema version of the stored metadata
+   * @returns The version (0 for data written before schema versioning)
+   */
+  getSchemaVersion(): Promise<number>;
+
+  /**
+   * Record the schema version of the stored metadata
+   * @param version The version reached by a migration step
+   */
+  setSchemaVersion(version: number): Promise<void>;
+
+  /**
+   * Apply the metadata part of a schema migration step (idempotent, see `schema.ts`)
+   * @param version Schema version the step upgrades to
+   * @returns Number of upgraded documents and keys
+   */
+  migrateSchema(version: number): Promise<number>;
+
+  /**
+   * Publish an event to run and global subscribers and append it to the run and global event logs
+   * @param msg The event message
+   */
+  publish(msg: VisualTestEvent): Promise<void>;
+
+  /**
+   * Read events of an event log from an offset
+   * @param query Log (run or global), offset and maximum number of events
+   * @returns The events and the offset to continue from
+   */
+  readEvents(query: EventLogQuery): Promise<EventLogPage>;
+
+  /**
+   * Replay the events of an event log from an offset, then follow new events
+   * A listener error (while replaying or following) ends the tail: it is passed to
+   * `onError` and the function stopping the tail rejects with it.
+   * @param listener Called with every event, in log order
+   * @param query Log (run or global) and offset (`limit` is the batch size)
+   * @param onError Called with the errors of the tail (read errors the store recovers from included)
+   * @returns Function stopping the tail
+   */
+  tailEvents(
+    listener: EventLogListener,
+    query: EventLogQuery,
+    onError?: EventLogErrorListener
+  ): Promise<() => Promise<void>>;
+
+  /**
+   * List the projects stored in the metadata backend (see `project.ts`)
+   * @returns The projects, sorted (the unprefixed, default project is not listed)
+   */
+  listProjects(): Promise<string[]>;
+};
+
+/**
+ * Image persistence for baselines and run images
+ *
+ * Image references returned by `save*` methods are opaque strings
+ * (file paths for the filesystem store) that are stored in `StoredVisualTestResult`
+ * and can be read back with `getImage`.
+ */
+export type ImageStore = {
+  /**
+   * Prepare the image storage (create directories, buckets, ...)
+   */
+  init(): Promise<void>;
+
+  /**
+   * Save a baseline image as the active baseline and archive it as a new version
+   * @param storyIdentifier The identifier for the story
+   * @param buffer The image buffer to save
+   * @param source Origin of the baseline (run and accepting user)
+   * @param namespace Baseline namespace, e.g. a git branch (default: base namespace)
+   * @returns Reference to the saved (active) image
+   */
+  saveBaseline(
+    storyIdentifier: StoryIdentifier,
+    buffer: Buffer,
+    source?: BaselineSource,
+    namespace?: string
+  ): Promise<string>;
+
+  /**
+   * List the archived baseline versions of a story
+   * @param storyIdentifier The identifier for the story
+   * @param namespace Baseline namespace (default: base namespace)
+   * @returns Baseline versions, newest first
+   */
+  listBaselineVersions(
+    storyIdentifier: StoryIdentifier,
+    namespace?: string
+  ): Promise<BaselineVersion[]>;
+
+  /**
+   * Make an archived baseline version the active baseline
+   * @param storyIdentifier The identifier for the story
+   * @param versionId The version to restore
+   * @param namespace Baseline namespace (default: base namespace)
+   * @returns Reference to the active baseline image
+   */
+  restoreBaselineVersion(
+    storyIdentifier: StoryIdentifier,
+    versionId: string,
+    namespace?: string
+  ): Promise<string>;
+
+  /**
+   * Copy the active baselines of a namespace into the base namespace
+   * Each promoted image is archived as a new base version with its original source.
+   * @param namespace Baseline namespace to promote
+   * @returns References to the promoted base baselines
+   */
+  promoteBaselines(namespace: string): Promise<string[]>;
+
+  /**
+   * Save a run image (current, diff or baseline copy)
+   * @param runId The unique identifier for the test run
+   * @param storyIdentifier The identifier for the story
+   * @param buffer The image buffer to save
+   * @param type The type of image
+   * @returns Reference to the saved image
+   */
+  saveRunImage(
+    runId: string,
+    storyIdentifier: StoryIdentifier,
+    buffer: Buffer,
+    type: RunImageType
+  ): Promise<string>;
+
+  /**
+   * Read an image from its reference
+   * @param ref Reference returned by a `save*` method
+   * @returns Image buffer or null if not found
+   */
+  getImage(ref: string): Promise<Buffer | null>;
+
+  /**
+   * Get the reference of the baseline of a story if it exists
+   * @param storyIdentifier The identifier for the story
+   * @param namespace Baseline namespace (default: base namespace)
+   * @returns Reference to the baseline image or null if there is none
+   */
+  getBaselineRef(
+    storyIdentifier: StoryIdentifier,
+    namespace?: string
+  ): Promise<string | null>;
+
+  /**
+   * List the stories having an active baseline
+   * @param namespace Baseline namespace (default: base namespace)
+   * @returns Story identifiers of the baselines
+   */
+  listBaselines(namespace?: string): Promise<StoryIdentifier[]>;
+
+  /**
+   * Read the baseline image of a story
+   * @param storyIdentifier The identifier for the story
+   * @param namespace Baseline namespace (default: base namespace)
+   * @returns Image buffer or null if not found
+   */
+  getBaseline(
+    storyIdentifier: StoryIdentifier,
+    namespace?: string
+  ): Promise<Buffer | null>;
+
+  /**
+   * Read a run image of a story
+   * @param runId The unique identifier for the test run
+   * @param storyIdentifier The identifier for the story
+   * @param type The type of image
+   * @returns Image buffer or null if not found
+   */
+  getRunImage(
+    runId: string,
+    storyIdentifier: StoryIdentifier,
+    type: RunImageType
+  ): Promise<Buffer | null>;
+
+  /**
+   * Delete current and diff images of a test
+   * @param runId The unique identifier for the test run
+   * @param storyIdentifier The identifier for the story
+   */
+  deleteTestImages(
+    runId: string,
+    storyIdentifier: StoryIdentifier
+  ): Promise<void>;
+
+  /**
+   * Delete the baseline image of a story
+   * @param storyIdentifier The identifier for the story
+   * @param namespace Baseline namespace (default: base namespace)
+   */
+  deleteBaseline(
+    storyIdentifier: StoryIdentifier,
+    namespace?: string
+  ): Promise<void>;
+
+  /**
+   * Delete all images of a run
+   * @param runId The unique identifier for the test run
+   * @param dryRun Only compute what would be deleted
+   * @returns Number and size of the (to be) deleted images
+   */
+  deleteRunImages(runId: string, dryRun?: boolean): Promise<ImageUsage>;
+
+  /**
+   * List the stored run images
+   * @returns References of the images of each run, by run id (including runs without metadata)
+   */
+  listRunImages(): Promise<Record<string, string[]>>;
+
+  /**
+   * Check if an image is stored, without reading it
+   * @param ref Reference returned by a `save*` method
+   * @returns True if the image exists
+   */
+  hasImage(ref: string): Promise<boolean>;
+
+  /**
+   * Delete one image of a run
+   * @param runId The unique identifier for the test run
+   * @param ref Reference of the image, as listed by `listRunImages`
+   */
+  deleteRunImage(runId: string, ref: string): Promise<void>;
+
+  /**
+   * Move baselines (and their history) stored under legacy, unencoded image ids
+   * or namespaces to their encoded location
+   * @returns Number of moved baselines
+   */
+  migrateImageIds(): Promise<number>;
+
+  /**
+   * Get the schema version of the stored images
+   * @returns The version (0 for images written before schema versioning)
+   */
+  getSchemaVersion(): Promise<number>;
+
+  /**
+   * Record the schema version of the stored images
+   * @param version The version reached by a migration step
+   */
+  setSchemaVersion(version: number): Promise<void>;
+
+  /**
+   * Apply the image part of a schema migration step (idempotent, see `schema.ts`)
+   * @param version Schema version the step upgrades to
+   * @returns Number of renamed or moved images
+   */
+  migrateSchema(version: number): Promise<number>;
+};
+
+/**
+ * Pair of metadata and image stores used by `VisualTestStorageAPI`
+ */
+export type StorageAdapter<TClient = unknown> = {
+  metadata: MetadataStore<TClient>;
+  images: ImageStore;
+};
+
+/**
+ * Check if a value is a `StorageAdapter` (as opposed to Redis client options)
+ * @template TClient Client type of the adapter the value is narrowed to
+ * @param value Value to check
+ * @returns True if value has both a metadata and an image store
+ */
+export const isStorageAdapter = <TClient = unknown>(
+  value: unknown
+): value is StorageAdapter<TClient> =>
+  typeof value === "object" &&
+  value !== null &&
+  "metadata" in value &&
+  "images" in value;
@@ -0,0 +1,187 @@
+/**
+ * Visual test events client
+ *
+ * Typed subscription to the events `VisualTestStorageAPI` publishes on Redis:
+ * follows the global channel or the channel of one run, through callbacks or an
+ * async iterator. Every message is validated against the event protocol; invalid
+ * messages are reported to `onError` instead of being delivered.
+ *
+ * Live subscriptions use Redis Pub/Sub and are restored by the Redis client when
+ * it reconnects (events published while disconnected are missed). With
+ * `catchUp`, the client replays the event log then follows it instead, so it
+ * also receives the events published before it connected and resumes from the
+ * last received event after a reconnect.
+ */
+
+import type { VisualTestEvent } from "../types/index.js";
+import { RedisMetadataStore } from "./RedisMetadataStore.js";
+import { parseVisualTestEvent } from "./eventProtocol.js";
+import type { RedisConnectionOptions } from "./redisConnection.js";
+
+/**
+ * Listener of the events received by a `VisualTestEventsClient`
+ */
+export type VisualTestEventsListener = (event: VisualTestEvent) => void;
+
+/**
+ * Options of the events client
+ *
+ * @property {string} project - Project namespace of the channels (default: `VITE_VISUAL_TEST_PROJECT`)
+ * @property {string} runId - Only receive the events of this run (default: all runs of the project)
+ * @property {boolean} catchUp - Replay the event log before following new events (default: false)
+ * @property {string | null} after - With `catchUp`, replay the events after this event id (default: all retained events)
+ * @property {Function} onError - Called with invalid messages, listener errors and event log read errors (default: `console.error`)
+ */
+export type VisualTestEventsClientOptions = {
+  project?: string;
+  runId?: string;
+  catchUp?: boolean;
+  after?: string | null;
+  onError?: (error: unknown) => void;
+};
+
+export class VisualTestEventsClient {
+  private readonly store: RedisMetadataStore;
+  private readonly options: VisualTestEventsClientOptions;
+  private readonly listeners = new Set<VisualTestEventsListener>();
+  private readonly closeListeners = new Set<() => void>();
+  private stop: (() => Promise<void>) | null = null;
+  private closed = false;
+
+  /**
+   * Create an events client (call `connect` to start receiving events)
+   * @param redisOptions Redis connection options (standalone, cluster or sentinel; reconnection included)
+   * @param options Events to receive
+   */
+  constructor(
+    redisOptions: RedisConnectionOptions,
+    options: VisualTestEventsClientOptions = {}
+  ) {
+    this.store = new RedisMetadataStore(redisOptions, {
+      project: options.project,
+    });
+    this.options = options;
+  }
+
+  // ---------------------------
+  // Lifecycle
+  // ---------------------------
+  /**
+   * Connect to Redis and start receiving events
+   */
+  async connect(): Promise<void> {
+    if (this.closed) throw new Error("Events client is closed");
+    if (this.stop) return;
+
+    const { runId, catchUp, after } = this.options;
+
+    await this.store.connect();
+    this.stop = catchUp
+      ? await this.store.tailEvents(
+          (event) => this.receive(event),
+          { runId, after },
+          (error) => this.reportError(error)
+        )
+      : await this.store.subscribe((message) => this.receive(message), runId);
+  }
+
+  /**
+   * Stop receiving events, disconnect and end the async iterators
+   */
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+
+    await this.stop?.();
+    this.stop = null;
+    await this.store.disconnect();
+
+    for (const listener of this.closeListeners) listener();
+  }
+
+  // ---------------------------
+  // Events
+  // ---------------------------
+  /**
+   * Validate a received message and deliver it to the listeners
+   * @param message The event, as JSON (Pub/Sub) or parsed (event log)
+   */
+  private receive(message: unknown) {
+    let event: VisualTestEvent;
+
+    try {
+      event = parseVisualTestEvent(message);
+    } catch (error) {
+      this.reportError(error);
+      return;
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        this.reportError(error);
+      }
+    }
+  }
+
+  /**
+   * Report an invalid message, a listener error or an event log read error
+   * @param error The error
+   */
+  private reportError(error: unknown) {
+    if (this.options.onError) this.options.onError(error);
+    else console.error("Visual test events client error", error);
+  }
+
+  /**
+   * Add an event listener
+   * @param listener Called with every received event (events of the log also have an `eventId`)
+   * @returns Function removing the listener
+   */
+  on(listener: VisualTestEventsListener): () => void {
+    this.listeners.add(listener);
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Iterate over the received events until the client is closed
+   * Events are buffered from the moment the iterator is created.
+   * @returns Async iterator of the events
+   */
+  [Symbol.asyncIterator](): AsyncIterator<VisualTestEvent, undefined> {
+    const queue: VisualTestEvent[] = [];
+    let wake: (() => void) | null = null;
+
+    const notify = () => {
+      wake?.();
+      wake = null;
+    };
+    const off = this.on((event) => {
+      queue.push(event);
+      notify();
+    });
+    this.closeListeners.add(notify);
+
+    const done = (): IteratorReturnResult<undefined> => {
+      off();
+      this.closeListeners.delete(notify);
+      return { done: true, value: undefined };
+    };
+
+    return {
+      next: async () => {
+        while (queue.length === 0 && !this.closed) {
+          await new Promise<void>((resolve) => (wake = resolve));
+        }
+
+        const event = queue.shift();
+        return event ? { done: false, value: event } : done();
+      },
+      return: async () => done(),
+    };
+  }
+}
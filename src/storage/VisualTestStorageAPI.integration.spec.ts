@@ -15,6 +15,7 @@ import {
   vi,
 } from "vitest";
 import { RedisContainer, StartedRedisContainer } from "@testcontainers/redis";
+import { createClient, type RedisClientType } from "redis";
 import type {
   NewVisualTestRun,
   StoryIdentifier,
@@ -23,6 +24,7 @@ import type {
 import { join } from "path";
 import { access, readdir, readFile, rm, unlink } from "fs/promises";
 import type { VisualTestStorageAPI } from "./VisualTestStorageAPI.js";
+import { SCHEMA_VERSION } from "./schema.js";
 
 // Image config and helpers
 /**
@@ -75,6 +77,7 @@ describe("VisualTestStorageAPI - Integration Tests", () => {
   let container: StartedRedisContainer;
   let redisUrl: string;
   let storageAPI: VisualTestStorageAPI;
+  let redis: RedisClientType;
 
   /**
    * Setup before all tests: start Redis container, import storage API module,
@@ -93,8 +96,10 @@ describe("VisualTestStorageAPI - Integration Tests", () => {
       .start();
     redisUrl = container.getConnectionUrl();
 
-    // Connect to Redis
+    // Connect to Redis (with a separate client to set up and inspect keys)
     await storageAPI.connect({ url: redisUrl });
+    redis = createClient({ url: redisUrl });
+    await redis.connect();
   });
 
   /**
@@ -102,8 +107,8 @@ describe("VisualTestStorageAPI - Integration Tests", () => {
    * remove test image directory, and restore environment variables
    */
   afterAll(async () => {
-    const client = await storageAPI.connect({ url: redisUrl });
-    await client.flushAll();
+    await redis.flushAll();
+    await redis.close();
     await storageAPI.disconnect();
     await container.stop({ removeVolumes: true });
     await rm(MOCK_STORAGE_ROOT, { recursive: true });
@@ -115,8 +120,7 @@ describe("VisualTestStorageAPI - Integration Tests", () => {
    * to ensure test isolation
    */
   beforeEach(async () => {
-    const client = await storageAPI.connect({ url: redisUrl });
-    await client.flushAll();
+    await redis.flushAll();
     await storageAPI.disconnect();
     await rm(MOCK_STORAGE_ROOT, { recursive: true });
     await storageAPI.connect({ url: redisUrl });
@@ -394,13 +398,50 @@ describe("VisualTestStorageAPI - Integration Tests", () => {
       const run = await storageAPI.getRun(newRun.runId);
 
       expect(run?.summary).toEqual({
-        changed: 0,
+        changed: 1,
         passed: 1,
         failed: 0,
         new: 0,
         skipped: 0,
         total: 0,
         finished: 1,
+        unreviewed: 0,
+        rejected: 0,
+        aborted: 0,
+      });
+    });
+
+    /**
+     * Tests that summary counters stay exact when tests finish concurrently
+     */
+    it("should update the summary atomically for concurrent tests", async () => {
+      const storyIdentifiers = Array.from({ length: 10 }, (_, index) => ({
+        ...mockStoryIdentifier,
+        storyId: `concurrent-${index}`,
+      }));
+
+      await Promise.all(
+        storyIdentifiers.map((storyIdentifier, index) =>
+          storageAPI.finishTest(newRun.runId, {
+            storyIdentifier,
+            status: index % 2 ? "failed" : "skipped",
+            baseline: null,
+            current: null,
+            diff: null,
+            diffRatio: index % 2 ? 0.2 : null,
+            message: "concurrent",
+          })
+        )
+      );
+
+      const run = await storageAPI.getRun(newRun.runId);
+
+      expect(run?.summary).toMatchObject({
+        finished: 5,
+        failed: 5,
+        changed: 5,
+        skipped: 5,
+        unreviewed: 5,
       });
     });
 
@@ -981,6 +1022,345 @@ describe("VisualTestStorageAPI - Integration Tests", () => {
     });
   });
 
+  /**
+   * Tests for run pruning
+   * Verifies that pruning removes every Redis key and image folder of a run
+   */
+  describe("Pruning", () => {
+    /**
+     * Tests that run document, test documents, test set, index member and images are removed together
+     */
+    it("should remove all Redis keys and images of pruned runs", async () => {
+      const identifier: StoryIdentifier = {
+        storyId: "prune-test",
+        theme: "light",
+        viewport: { width: 1920, height: 1080 },
+      };
+
+      const run = await storageAPI.startRun(1);
+      await storageAPI.startTest(run.runId, identifier);
+      await storageAPI.finishTest(run.runId, {
+        storyIdentifier: identifier,
+        status: "passed",
+        baseline: null,
+        current: createTestImageBuffer("current"),
+        diff: null,
+        diffRatio: null,
+        message: "Passed",
+      });
+      await storageAPI.finishRun(run.runId, "passed");
+
+      const report = await storageAPI.pruneRuns({ keepLast: 0 });
+
+      expect(report.runIds).toEqual([run.runId]);
+      expect(report.tests).toBe(1);
+      expect(report.images).toBe(1);
+
+      await expect(redis.keys(`*${run.runId}*`)).resolves.toEqual([]);
+      await expect(redis.zRange("visualruns:timeline", 0, -1)).resolves.toEqual(
+        []
+      );
+      await expect(
+        access(join(MOCK_STORAGE_ROOT, "runs", run.runId))
+      ).rejects.toThrow();
+    });
+  });
+
+  /**
+   * Tests for the run index
+   * Verifies that runs are time-ordered and that the legacy run set is migrated
+   */
+  describe("Run index", () => {
+    /**
+     * Tests that runs indexed in the legacy set are moved to the sorted index
+     */
+    it("should migrate runs of the legacy run index", async () => {
+      const run = await storageAPI.startRun(0);
+
+      await redis.zRem("visualruns:timeline", run.runId);
+      await redis.sAdd("visualruns:index", run.runId);
+
+      const metadata = storageAPI["metadata"] as unknown as {
+        migrateRunIndex(): Promise<number>;
+      };
+      await expect(metadata.migrateRunIndex()).resolves.toBe(1);
+
+      await expect(redis.exists("visualruns:index")).resolves.toBe(0);
+      await expect(
+        redis.zScore("visualruns:timeline", run.runId)
+      ).resolves.toBe(run.startedAt);
+    });
+
+    /**
+     * Tests that runs stored without hash tags are moved to the hash-tagged key layout
+     */
+    it("should migrate runs stored without hash tags", async () => {
+      const identifier: StoryIdentifier = {
+        storyId: "layout-test",
+        theme: "light",
+        viewport: { width: 1280, height: 720 },
+      };
+      const run = await storageAPI.startRun(1);
+      await storageAPI.startTest(run.runId, identifier);
+
+      const testKey = `visualtest:{${run.runId}}:layout-test:light:1280x720`;
+      const legacyTestKey = `visualtest:${run.runId}:layout-test:light:1280x720`;
+      await redis.rename(`visualrun:{${run.runId}}`, `visualrun:${run.runId}`);
+      await redis.rename(
+        `visualrun:{${run.runId}}:events`,
+        `visualrun:${run.runId}:events`
+      );
+      await redis.rename(testKey, legacyTestKey);
+      await redis.del(`visualrun:{${run.runId}}:tests`);
+      await redis.sAdd(`visualrun:${run.runId}:tests`, legacyTestKey);
+
+      const metadata = storageAPI["metadata"] as unknown as {
+        migrateKeyLayout(): Promise<number>;
+      };
+      await expect(metadata.migrateKeyLayout()).resolves.toBe(1);
+      await expect(metadata.migrateKeyLayout()).resolves.toBe(0);
+
+      await expect(redis.exists(`visualrun:${run.runId}`)).resolves.toBe(0);
+      await expect(
+        redis.sMembers(`visualrun:{${run.runId}}:tests`)
+      ).resolves.toEqual([testKey]);
+      await expect(storageAPI.getRun(run.runId)).resolves.toMatchObject({
+        runId: run.runId,
+      });
+      await expect(
+        storageAPI.getTest(run.runId, identifier)
+      ).resolves.toMatchObject({ status: "running" });
+      await expect(
+        storageAPI.readEvents({ runId: run.runId })
+      ).resolves.toMatchObject({ events: [{ type: "run:started" }, {}] });
+    });
+
+    /**
+     * Tests that queries page through runs newest first
+     */
+    it("should page through runs newest first", async () => {
+      const from = Date.now();
+      const first = await storageAPI.startRun(0);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      const second = await storageAPI.startRun(0);
+
+      const page = await storageAPI.queryRuns({ from, limit: 1 });
+      expect(page.runs.map((r) => r.runId)).toEqual([second.runId]);
+      expect(page.nextCursor).not.toBeNull();
+
+      const next = await storageAPI.queryRuns({
+        from,
+        limit: 1,
+        cursor: page.nextCursor,
+      });
+      expect(next.runs.map((r) => r.runId)).toEqual([first.runId]);
+      expect(next.nextCursor).toBeNull();
+    });
+  });
+
+  /**
+   * Tests for the story history index
+   * Verifies that tests are indexed by story across runs
+   */
+  describe("Story history", () => {
+    /**
+     * Tests that the history lists the runs of a story newest first and forgets pruned runs
+     */
+    it("should index tests by story across runs", async () => {
+      const identifier: StoryIdentifier = {
+        storyId: "history-test",
+        theme: "dark",
+        viewport: { width: 1440, height: 900 },
+      };
+
+      const runIds: string[] = [];
+      for (const status of ["passed", "failed"] as const) {
+        const run = await storageAPI.startRun(1);
+        await storageAPI.startTest(run.runId, identifier);
+        await storageAPI.finishTest(run.runId, {
+          storyIdentifier: identifier,
+          status,
+          baseline: null,
+          current: createTestImageBuffer(status),
+          diff: null,
+          diffRatio: status === "failed" ? 0.3 : 0,
+          message: status,
+        });
+        await storageAPI.finishRun(run.runId);
+        runIds.push(run.runId);
+      }
+
+      const history = await storageAPI.getStoryHistory(identifier);
+      expect(history.map((entry) => [entry.runId, entry.diffRatio])).toEqual([
+        [runIds[1], 0.3],
+        [runIds[0], 0],
+      ]);
+
+      await storageAPI.pruneRuns({ keepLast: 1 });
+
+      await expect(
+        redis.zRange("visualstory:history-test:dark:1440x900:history", 0, -1)
+      ).resolves.toEqual([runIds[1]]);
+    });
+  });
+
+  /**
+   * Tests for story identifier encoding
+   * Verifies that tests keyed by raw story ids are migrated to encoded keys
+   */
+  describe("Story identifier encoding", () => {
+    /**
+     * Tests that legacy test keys are renamed and their story history moved
+     */
+    it("should migrate legacy test keys", async () => {
+      const identifier: StoryIdentifier = {
+        storyId: "docs/my.story",
+        theme: "light",
+        viewport: { width: 1280, height: 720 },
+      };
+      const run = await storageAPI.startRun(1);
+
+      const legacyKey = `visualtest:{${run.runId}}:docs/my.story:light:1280x720`;
+      await redis.json.set(legacyKey, "$", {
+        runId: run.runId,
+        storyIdentifier: identifier,
+        status: "passed",
+        startedAt: run.startedAt,
+      });
+      await redis.sAdd(`visualrun:{${run.runId}}:tests`, legacyKey);
+      await redis.zAdd("visualstory:docs/my.story:light:1280x720:history", {
+        score: run.startedAt,
+        value: run.runId,
+      });
+
+      await expect(storageAPI.migrateStoryIdentifiers()).resolves.toEqual({
+        tests: 1,
+        baselines: 0,
+      });
+
+      await expect(redis.exists(legacyKey)).resolves.toBe(0);
+      await expect(
+        storageAPI.getTest(run.runId, identifier)
+      ).resolves.toMatchObject({ status: "passed" });
+      await expect(
+        storageAPI.getStoryHistory(identifier)
+      ).resolves.toMatchObject([{ runId: run.runId }]);
+    });
+  });
+
+  /**
+   * Tests for schema migrations
+   * Verifies that unversioned Redis data is upgraded to the current schema
+   */
+  describe("Schema migrations", () => {
+    /**
+     * Tests that runs stored without hash tags nor schema version are upgraded
+     */
+    it("should migrate unversioned runs", async () => {
+      const run = await storageAPI.startRun(0);
+
+      await redis.json.del(`visualrun:{${run.runId}}`, {
+        path: "$.schemaVersion",
+      });
+      await redis.rename(`visualrun:{${run.runId}}`, `visualrun:${run.runId}`);
+      await redis.set("visualtest:schema", "0");
+      await expect(storageAPI.getRun(run.runId)).resolves.toBeNull();
+
+      const report = await storageAPI.migrate();
+
+      expect(report).toMatchObject({ from: 0, to: SCHEMA_VERSION });
+      expect(report.steps).toMatchObject([
+        { version: 1, documents: 1 },
+        { version: 2, documents: 0 },
+        { version: 3, documents: 1 },
+      ]);
+      await expect(redis.get("visualtest:schema")).resolves.toBe(
+        String(SCHEMA_VERSION)
+      );
+      await expect(storageAPI.getRun(run.runId)).resolves.toMatchObject({
+        runId: run.runId,
+        schemaVersion: SCHEMA_VERSION,
+      });
+      await expect(storageAPI.migrate()).resolves.toMatchObject({
+        steps: [],
+      });
+    });
+
+    /**
+     * Tests that runs of the legacy index and key layout stay visible after reconnecting
+     */
+    it("should migrate unversioned runs on connect", async () => {
+      const run = await storageAPI.startRun(0);
+
+      await redis.json.del(`visualrun:{${run.runId}}`, {
+        path: "$.schemaVersion",
+      });
+      await redis.rename(`visualrun:{${run.runId}}`, `visualrun:${run.runId}`);
+      await redis.zRem("visualruns:timeline", run.runId);
+      await redis.sAdd("visualruns:index", run.runId);
+      await redis.set("visualtest:schema", "0");
+
+      await storageAPI.disconnect();
+      await storageAPI.connect({ url: redisUrl });
+
+      await expect(storageAPI.listAllRuns()).resolves.toContainEqual(
+        expect.objectContaining({
+          runId: run.runId,
+          schemaVersion: SCHEMA_VERSION,
+        })
+      );
+      await expect(storageAPI.queryRuns({ limit: 100 })).resolves.toMatchObject(
+        {
+          runs: expect.arrayContaining([
+            expect.objectContaining({ runId: run.runId }),
+          ]),
+        }
+      );
+    });
+  });
+
+  /**
+   * Tests for heartbeats and the sweep of stale runs
+   */
+  describe("Stale runs", () => {
+    /**
+     * Tests that a run recorded before heartbeats and the aborted counter is interrupted
+     */
+    it("should interrupt a run without a recent heartbeat", async () => {
+      const storyIdentifier: StoryIdentifier = {
+        storyId: "button",
+        theme: "light",
+        viewport: { width: 1280, height: 720 },
+      };
+      const run = await storageAPI.startRun(1);
+      await storageAPI.startTest(run.runId, storyIdentifier);
+      await expect(storageAPI.heartbeat(run.runId)).resolves.toBe(true);
+      await expect(storageAPI.heartbeat("missing-run")).resolves.toBe(false);
+
+      await redis.json.del(`visualrun:{${run.runId}}`, {
+        path: "$.summary.aborted",
+      });
+      await redis.json.del(`visualrun:{${run.runId}}`, {
+        path: "$.heartbeatAt",
+      });
+      await redis.json.set(
+        `visualrun:{${run.runId}}`,
+        "$.startedAt",
+        run.startedAt - 60 * 60 * 1000
+      );
+
+      const report = await storageAPI.sweepStaleRuns();
+
+      expect(report).toEqual({ runIds: [run.runId], tests: 1, dryRun: false });
+      const swept = await storageAPI.getRun(run.runId);
+      expect(swept).toMatchObject({ reason: "interrupted" });
+      expect(swept?.summary).toMatchObject({ finished: 0, aborted: 1 });
+      await expect(
+        storageAPI.getTest(run.runId, storyIdentifier)
+      ).resolves.toMatchObject({ status: "aborted" });
+    });
+  });
+
   /**
    * Tests for data persistence
    * Verifies that data persists across Redis restarts using RDB and AOF persistence
@@ -1087,6 +1467,51 @@ describe("VisualTestStorageAPI - Integration Tests", () => {
     });
   });
 
+  /**
+   * Tests for project namespaces
+   * Verifies that projects sharing a Redis database use their own keys
+   */
+  describe("Projects", () => {
+    /**
+     * Tests that the keys of a project are prefixed and the project is listed
+     */
+    it("should prefix the keys of a project", async () => {
+      const { VisualTestStorageAPI } = await import("./VisualTestStorageAPI");
+      const project = new VisualTestStorageAPI(
+        { url: redisUrl },
+        MOCK_STORAGE_ROOT,
+        "design-system"
+      );
+      await project.connect();
+
+      try {
+        // A project without data starts at the current schema version
+        await expect(
+          redis.get("visualproject:design-system:visualtest:schema")
+        ).resolves.toBe(String(SCHEMA_VERSION));
+
+        const run = await project.startRun(0);
+
+        await expect(
+          redis.zScore(
+            "visualproject:design-system:visualruns:timeline",
+            run.runId
+          )
+        ).resolves.toBe(run.startedAt);
+        await expect(redis.exists(`visualrun:{${run.runId}}`)).resolves.toBe(0);
+        await expect(storageAPI.getRun(run.runId)).resolves.toBeNull();
+        await expect(project.getRun(run.runId)).resolves.toMatchObject({
+          runId: run.runId,
+        });
+        await expect(storageAPI.listProjects()).resolves.toEqual([
+          "design-system",
+        ]);
+      } finally {
+        await project.disconnect();
+      }
+    });
+  });
+
   /**
    * Tests for error handling
    * Verifies that appropriate errors are thrown when operations are performed without connection
@@ -0,0 +1,1654 @@
+/**
+ * Unit tests for the VisualTestStorageAPI
+ * These tests run the storage API on the lite adapter (JSON file metadata +
+ * filesystem images) so they don't need a Redis container.
+ */
+
+import { describe, it, expect, beforeEach, afterAll, vi } from "vitest";
+import { access, mkdir, readFile, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import type { StoryIdentifier, VisualTestResult } from "../types";
+import {
+  VisualTestStorageAPI,
+  createLiteStorageAdapter,
+} from "./VisualTestStorageAPI";
+import { JsonFileMetadataStore } from "./JsonFileMetadataStore";
+import type { FileSystemImageStore } from "./FileSystemImageStore";
+import { isVisualTestEvent, parseVisualTestEvent } from "./eventProtocol";
+import { SCHEMA_VERSION } from "./schema";
+
+/**
+ * Mock storage root directory for the database file and images
+ */
+const MOCK_STORAGE_ROOT = "./spec-storage-api";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Creates a fake image buffer for testing purposes
+ * @param seed - String to use as the basis for the fake image data
+ * @returns Buffer containing fake PNG data
+ */
+const createTestImageBuffer = (seed: string): Buffer => {
+  return Buffer.from(`fake-png-data-${seed}`, "utf-8");
+};
+
+/**
+ * Creates a story identifier for a storyId
+ * @param storyId - The story identifier
+ * @returns Story identifier with a fixed theme and viewport
+ */
+const story = (storyId: string): StoryIdentifier => ({
+  storyId,
+  theme: "light",
+  viewport: { width: 1280, height: 720 },
+});
+
+describe("VisualTestStorageAPI", () => {
+  let storageAPI: VisualTestStorageAPI<unknown>;
+  let adapter: ReturnType<typeof createLiteStorageAdapter>;
+
+  /**
+   * Record a finished run with one test per status
+   * @param statuses - Final status of each test of the run
+   * @param startedAt - Start timestamp of the run
+   * @returns The run identifier
+   */
+  const recordRun = async (
+    statuses: VisualTestResult["status"][],
+    startedAt = Date.now()
+  ) => {
+    const run = await storageAPI.startRun(statuses.length);
+
+    for (const [index, status] of statuses.entries()) {
+      const storyIdentifier = story(`story-${index}`);
+      await storageAPI.startTest(run.runId, storyIdentifier);
+      await storageAPI.finishTest(run.runId, {
+        storyIdentifier,
+        status,
+        baseline: null,
+        current: createTestImageBuffer("current"),
+        diff: status === "failed" ? createTestImageBuffer("diff") : null,
+        diffRatio: null,
+        message: status,
+      });
+    }
+
+    const finished = await storageAPI.finishRun(run.runId);
+    // Backdate the run
+    await storageAPI["metadata"].saveRun({ ...finished, startedAt });
+
+    return run.runId;
+  };
+
+  /**
+   * Record a finished test with a current image
+   * @param seed - Seed of the current image
+   * @returns The run identifier
+   */
+  const recordCurrent = async (seed: string) => {
+    const run = await storageAPI.startRun(1);
+    await storageAPI.startTest(run.runId, story("button"));
+    await storageAPI.finishTest(run.runId, {
+      storyIdentifier: story("button"),
+      status: "failed",
+      baseline: null,
+      current: createTestImageBuffer(seed),
+      diff: createTestImageBuffer("diff"),
+      diffRatio: 0.5,
+      message: "changed",
+    });
+    return run.runId;
+  };
+
+  beforeEach(async () => {
+    await rm(MOCK_STORAGE_ROOT, { recursive: true, force: true });
+    adapter = createLiteStorageAdapter(
+      join(MOCK_STORAGE_ROOT, "db.json"),
+      MOCK_STORAGE_ROOT
+    );
+    storageAPI = new VisualTestStorageAPI(adapter);
+    await storageAPI.connect();
+  });
+
+  afterAll(async () => {
+    await storageAPI.disconnect();
+    await rm(MOCK_STORAGE_ROOT, { recursive: true, force: true });
+  });
+
+  /**
+   * Tests for run pruning
+   * Verifies that runs are removed according to the retention policy
+   */
+  describe("Pruning", () => {
+    /**
+     * Tests that a policy without criteria is rejected
+     */
+    it("should require olderThanDays or keepLast", async () => {
+      await expect(storageAPI.pruneRuns({})).rejects.toThrow(
+        "Retention policy requires"
+      );
+    });
+
+    /**
+     * Tests that runs older than N days are pruned with their tests and images
+     */
+    it("should prune runs older than N days", async () => {
+      const oldRunId = await recordRun(["passed"], Date.now() - 10 * DAY);
+      const recentRunId = await recordRun(["passed"]);
+
+      const report = await storageAPI.pruneRuns({ olderThanDays: 7 });
+
+      expect(report.runIds).toEqual([oldRunId]);
+      expect(report.tests).toBe(1);
+      expect(report.images).toBe(1);
+      expect(report.bytes).toBeGreaterThan(0);
+
+      await expect(storageAPI.getRun(oldRunId)).resolves.toBeNull();
+      await expect(storageAPI.listTestsForRun(oldRunId)).resolves.toEqual([]);
+      await expect(
+        access(join(MOCK_STORAGE_ROOT, "runs", oldRunId))
+      ).rejects.toThrow();
+      await expect(storageAPI.getRun(recentRunId)).resolves.not.toBeNull();
+    });
+
+    /**
+     * Tests that only the N most recent runs are kept
+     */
+    it("should keep the last N runs", async () => {
+      const first = await recordRun(["passed"], Date.now() - 3 * DAY);
+      const second = await recordRun(["passed"], Date.now() - 2 * DAY);
+      const third = await recordRun(["passed"], Date.now() - DAY);
+
+      const report = await storageAPI.pruneRuns({ keepLast: 2 });
+
+      expect(report.runIds).toEqual([first]);
+      const remaining = (await storageAPI.listAllRuns()).map((r) => r.runId);
+      expect(remaining).toEqual(expect.arrayContaining([second, third]));
+      expect(remaining).toHaveLength(2);
+    });
+
+    /**
+     * Tests that runs with unreviewed failures can be kept
+     */
+    it("should keep runs with unreviewed failures when asked to", async () => {
+      const failedRunId = await recordRun(["failed"], Date.now() - 10 * DAY);
+      const passedRunId = await recordRun(["passed"], Date.now() - 10 * DAY);
+
+      const report = await storageAPI.pruneRuns({
+        olderThanDays: 7,
+        keepUnreviewedFailures: true,
+      });
+
+      expect(report.runIds).toEqual([passedRunId]);
+      await expect(storageAPI.getRun(failedRunId)).resolves.not.toBeNull();
+    });
+
+    /**
+     * Tests that new tests need a review too, unlike accepted ones
+     */
+    it("should keep runs with unreviewed new tests", async () => {
+      const newRunId = await recordRun(["new"], Date.now() - 10 * DAY);
+      const acceptedRunId = await recordRun(["new"], Date.now() - 10 * DAY);
+      await storageAPI.acceptBaseline(acceptedRunId, story("story-0"));
+
+      const report = await storageAPI.pruneRuns({
+        olderThanDays: 7,
+        keepUnreviewedFailures: true,
+      });
+
+      expect(report.runIds).toEqual([acceptedRunId]);
+      await expect(storageAPI.getRun(newRunId)).resolves.not.toBeNull();
+    });
+
+    /**
+     * Tests that rejected failures count as reviewed
+     */
+    it("should prune runs whose failures were rejected", async () => {
+      const runId = await recordRun(["failed"], Date.now() - 10 * DAY);
+      await storageAPI.rejectBaseline(runId, story("story-0"), "alice");
+
+      const report = await storageAPI.pruneRuns({
+        olderThanDays: 7,
+        keepUnreviewedFailures: true,
+      });
+
+      expect(report.runIds).toEqual([runId]);
+    });
+
+    /**
+     * Tests that a dry run reports without deleting anything
+     */
+    it("should not delete anything on dry run", async () => {
+      const runId = await recordRun(["failed"], Date.now() - 10 * DAY);
+
+      const report = await storageAPI.pruneRuns({
+        olderThanDays: 7,
+        dryRun: true,
+      });
+
+      expect(report).toMatchObject({
+        runIds: [runId],
+        tests: 1,
+        images: 2,
+        dryRun: true,
+      });
+      await expect(storageAPI.getRun(runId)).resolves.not.toBeNull();
+      await expect(
+        access(join(MOCK_STORAGE_ROOT, "runs", runId))
+      ).resolves.not.toThrow();
+    });
+
+    /**
+     * Tests that runs still in progress are never pruned
+     */
+    it("should not prune runs in progress", async () => {
+      await storageAPI.startRun(0);
+
+      const report = await storageAPI.pruneRuns({ keepLast: 0 });
+
+      expect(report.runIds).toEqual([]);
+    });
+  });
+
+  /**
+   * Tests for baseline version history
+   * Verifies that accepted baselines are archived and can be restored
+   */
+  describe("Baseline history", () => {
+    /**
+     * Tests that every accepted baseline is kept as a version with its source
+     */
+    it("should archive accepted baselines with their source", async () => {
+      const firstRunId = await recordCurrent("v1");
+      await storageAPI.acceptBaseline(firstRunId, story("button"), "alice");
+      const secondRunId = await recordCurrent("v2");
+      await storageAPI.acceptBaseline(secondRunId, story("button"));
+
+      const versions = await storageAPI.listBaselineVersions(story("button"));
+
+      expect(versions).toMatchObject([
+        { runId: secondRunId, acceptedBy: null, active: true },
+        { runId: firstRunId, acceptedBy: "alice", active: false },
+      ]);
+      expect(versions[0].createdAt).toBeGreaterThanOrEqual(
+        versions[1].createdAt
+      );
+      await expect(storageAPI.getImage(versions[1].ref)).resolves.toEqual(
+        createTestImageBuffer("v1")
+      );
+      await expect(storageAPI.getBaseline(story("button"))).resolves.toEqual(
+        createTestImageBuffer("v2")
+      );
+    });
+
+    /**
+     * Tests that restoring a version makes it the active baseline
+     */
+    it("should restore an earlier version", async () => {
+      await storageAPI.acceptBaseline(
+        await recordCurrent("v1"),
+        story("button")
+      );
+      await storageAPI.acceptBaseline(
+        await recordCurrent("v2"),
+        story("button")
+      );
+      const [, first] = await storageAPI.listBaselineVersions(story("button"));
+
+      await storageAPI.restoreBaselineVersion(story("button"), first.versionId);
+
+      await expect(storageAPI.getBaseline(story("button"))).resolves.toEqual(
+        createTestImageBuffer("v1")
+      );
+      const versions = await storageAPI.listBaselineVersions(story("button"));
+      expect(versions.map((v) => v.active)).toEqual([false, true]);
+      await expect(
+        storageAPI.restoreBaselineVersion(story("button"), "unknown")
+      ).rejects.toThrow("Baseline version not found");
+    });
+  });
+
+  /**
+   * Tests for branch-aware baselines
+   * Verifies that branch baselines are isolated and fall back to the base branch
+   */
+  describe("Branch baselines", () => {
+    /**
+     * Tests that a branch accepts baselines without changing the base branch
+     */
+    it("should keep branch baselines separate from the base branch", async () => {
+      await storageAPI.acceptBaseline(
+        await recordCurrent("main"),
+        story("button")
+      );
+      await storageAPI.acceptBaseline(
+        await recordCurrent("feature"),
+        story("button"),
+        "alice",
+        "feature/new-button"
+      );
+
+      await expect(storageAPI.getBaseline(story("button"))).resolves.toEqual(
+        createTestImageBuffer("main")
+      );
+      await expect(
+        storageAPI.getBaseline(story("button"), "feature/new-button")
+      ).resolves.toEqual(createTestImageBuffer("feature"));
+      await expect(
+        storageAPI.listBaselineVersions(story("button"), "feature/new-button")
+      ).resolves.toHaveLength(1);
+    });
+
+    /**
+     * Tests that a branch without its own baseline reads the base branch one
+     */
+    it("should fall back to the base branch baseline", async () => {
+      await storageAPI.acceptBaseline(
+        await recordCurrent("main"),
+        story("button")
+      );
+
+      await expect(
+        storageAPI.getBaseline(story("button"), "feature/untouched")
+      ).resolves.toEqual(createTestImageBuffer("main"));
+      await expect(
+        storageAPI.getBaseline(story("missing"), "feature/untouched")
+      ).resolves.toBeNull();
+    });
+
+    /**
+     * Tests that promoting a branch merges its baselines into the base branch
+     */
+    it("should promote branch baselines into the base branch", async () => {
+      await storageAPI.acceptBaseline(
+        await recordCurrent("main"),
+        story("button")
+      );
+      const runId = await recordCurrent("feature");
+      await storageAPI.acceptBaseline(
+        runId,
+        story("button"),
+        "alice",
+        "feature"
+      );
+
+      const promoted = await storageAPI.promoteBaselines("feature");
+
+      expect(promoted).toHaveLength(1);
+      await expect(storageAPI.getBaseline(story("button"))).resolves.toEqual(
+        createTestImageBuffer("feature")
+      );
+      const [active] = await storageAPI.listBaselineVersions(story("button"));
+      expect(active).toMatchObject({
+        runId,
+        acceptedBy: "alice",
+        active: true,
+      });
+      await expect(storageAPI.promoteBaselines("main")).rejects.toThrow(
+        "Cannot promote the base branch"
+      );
+    });
+  });
+
+  /**
+   * Tests for bulk baseline acceptance
+   * Verifies that filtered tests of a run are accepted at once
+   */
+  describe("Bulk accept", () => {
+    /**
+     * Record a run with the given tests
+     * @param tests - Story identifier, status and diff ratio of each test
+     * @returns The run identifier
+     */
+    const recordTests = async (
+      tests: [StoryIdentifier, VisualTestResult["status"], number | null][]
+    ) => {
+      const run = await storageAPI.startRun(tests.length);
+
+      for (const [storyIdentifier, status, diffRatio] of tests) {
+        await storageAPI.startTest(run.runId, storyIdentifier);
+        await storageAPI.finishTest(run.runId, {
+          storyIdentifier,
+          status,
+          baseline: null,
+          current: createTestImageBuffer(storyIdentifier.storyId),
+          diff: diffRatio ? createTestImageBuffer("diff") : null,
+          diffRatio,
+          message: status,
+        });
+      }
+
+      return run.runId;
+    };
+
+    /**
+     * Tests that every failed and new test is accepted with a single event
+     */
+    it("should accept all failed and new tests", async () => {
+      const runId = await recordTests([
+        [story("button"), "failed", 0.2],
+        [story("card"), "new", null],
+        [story("input"), "passed", 0],
+      ]);
+      const events: string[] = [];
+      const unsubscribe = adapter.metadata.subscribe(
+        (msg) => events.push(msg.type),
+        runId
+      );
+
+      const accepted = await storageAPI.acceptBaselines(runId, {}, "alice");
+      unsubscribe();
+
+      expect(accepted.map((s) => s.storyId)).toEqual(["button", "card"]);
+      expect(events).toEqual(["baseline:accepted", "run:summary"]);
+      await expect(storageAPI.getBaseline(story("card"))).resolves.toEqual(
+        createTestImageBuffer("card")
+      );
+      const run = await storageAPI.getRun(runId);
+      expect(run?.summary).toMatchObject({ passed: 3, failed: 0, new: 0 });
+    });
+
+    /**
+     * Tests that only tests matching the filter are accepted
+     */
+    it("should accept only the tests matching the filter", async () => {
+      const runId = await recordTests([
+        [story("button-primary"), "failed", 0.05],
+        [story("button-secondary"), "failed", 0.4],
+        [{ ...story("button-primary"), theme: "dark" }, "failed", 0.05],
+        [story("card"), "failed", 0.05],
+      ]);
+
+      const accepted = await storageAPI.acceptBaselines(runId, {
+        storyIdPrefix: "button-",
+        theme: "light",
+        viewport: { width: 1280, height: 720 },
+        maxDiffRatio: 0.1,
+      });
+
+      expect(accepted).toEqual([story("button-primary")]);
+      const run = await storageAPI.getRun(runId);
+      expect(run?.summary).toMatchObject({ passed: 1, failed: 3 });
+      await expect(
+        storageAPI.acceptBaselines(runId, { minDiffRatio: 0.5 })
+      ).resolves.toEqual([]);
+    });
+  });
+
+  /**
+   * Tests for review decisions
+   * Verifies that rejections are stored and counted in the run summary
+   */
+  describe("Review", () => {
+    /**
+     * Tests that a rejection is stored on the test and counted in the summary
+     */
+    it("should record a rejection and count it in the summary", async () => {
+      const runId = await recordRun(["failed", "failed", "new"]);
+      const events: string[] = [];
+      const unsubscribe = adapter.metadata.subscribe(
+        (msg) => events.push(msg.type),
+        runId
+      );
+
+      await storageAPI.rejectBaseline(
+        runId,
+        story("story-0"),
+        "alice",
+        "Button padding regressed"
+      );
+      unsubscribe();
+
+      const test = await storageAPI.getTest(runId, story("story-0"));
+      expect(test?.status).toBe("failed");
+      expect(test?.review).toMatchObject({
+        decision: "rejected",
+        reviewer: "alice",
+        comment: "Button padding regressed",
+      });
+      expect(test?.review?.reviewedAt).toBeTypeOf("number");
+      expect(events).toEqual(["baseline:rejected", "run:summary"]);
+
+      await storageAPI.acceptBaseline(runId, story("story-1"), "bob");
+
+      const run = await storageAPI.getRun(runId);
+      expect(run?.summary).toMatchObject({
+        failed: 1,
+        new: 1,
+        passed: 1,
+        unreviewed: 1,
+        rejected: 1,
+      });
+    });
+
+    /**
+     * Tests that tests can be rejected in bulk and only when failed or new
+     */
+    it("should reject matching tests in bulk", async () => {
+      const runId = await recordRun(["failed", "new", "passed"]);
+
+      const rejected = await storageAPI.rejectBaselines(
+        runId,
+        { statuses: ["failed"] },
+        "alice"
+      );
+
+      expect(rejected).toEqual([story("story-0")]);
+      const run = await storageAPI.getRun(runId);
+      expect(run?.summary).toMatchObject({ unreviewed: 1, rejected: 1 });
+      await expect(
+        storageAPI.rejectBaseline(runId, story("story-2"))
+      ).rejects.toThrow("Only failed or new tests can be rejected");
+    });
+  });
+
+  /**
+   * Tests for run summary accounting
+   * Verifies that every counter is kept in sync with the finished tests
+   */
+  describe("Summary", () => {
+    /**
+     * Finish a test of a run
+     * @param runId - The run identifier
+     * @param storyId - The story identifier
+     * @param status - Final status of the test
+     * @param diffRatio - Diff ratio of the test
+     */
+    const finish = (
+      runId: string,
+      storyId: string,
+      status: VisualTestResult["status"],
+      diffRatio: number | null = null
+    ) =>
+      storageAPI.finishTest(runId, {
+        storyIdentifier: story(storyId),
+        status,
+        baseline: null,
+        current: status === "skipped" ? null : createTestImageBuffer(storyId),
+        diff: null,
+        diffRatio,
+        message: status,
+      });
+
+    /**
+     * Tests that changed and skipped tests are counted
+     */
+    it("should count changed and skipped tests", async () => {
+      const { runId } = await storageAPI.startRun(3);
+
+      await finish(runId, "button", "passed", 0.001);
+      await finish(runId, "card", "failed", 0.2);
+      await finish(runId, "input", "passed", 0);
+      await finish(runId, "modal", "skipped");
+
+      const run = await storageAPI.getRun(runId);
+      expect(run?.summary).toEqual({
+        total: 3,
+        finished: 3,
+        passed: 2,
+        failed: 1,
+        new: 0,
+        changed: 2,
+        skipped: 1,
+        unreviewed: 1,
+        rejected: 0,
+        aborted: 0,
+      });
+      await expect(
+        storageAPI.getTest(runId, story("modal"))
+      ).resolves.toMatchObject({ status: "skipped" });
+    });
+
+    /**
+     * Tests that finishing a test again replaces its previous contribution
+     */
+    it("should not count a test twice when it is finished again", async () => {
+      const { runId } = await storageAPI.startRun(1);
+
+      await finish(runId, "button", "failed", 0.2);
+      await finish(runId, "button", "passed", 0);
+
+      const run = await storageAPI.getRun(runId);
+      expect(run?.summary).toMatchObject({
+        finished: 1,
+        passed: 1,
+        failed: 0,
+        changed: 0,
+        unreviewed: 0,
+      });
+    });
+
+    /**
+     * Tests that concurrently finished tests are all counted
+     */
+    it("should count concurrently finished tests", async () => {
+      const { runId } = await storageAPI.startRun(20);
+
+      await Promise.all(
+        Array.from({ length: 20 }, (_, index) =>
+          finish(runId, `story-${index}`, index % 2 ? "failed" : "passed", 0.1)
+        )
+      );
+
+      const run = await storageAPI.getRun(runId);
+      expect(run?.summary).toMatchObject({
+        finished: 20,
+        passed: 10,
+        failed: 10,
+        changed: 20,
+      });
+    });
+
+    /**
+     * Tests that finishing a run doesn't overwrite tests counted meanwhile
+     */
+    it("should keep tests finished while the run finishes", async () => {
+      const { runId } = await storageAPI.startRun(2);
+
+      const [, , finished] = await Promise.all([
+        finish(runId, "button", "passed"),
+        finish(runId, "card", "failed", 0.2),
+        storageAPI.finishRun(runId, "failed"),
+      ]);
+
+      expect(finished).toMatchObject({ runId, reason: "failed" });
+      await expect(storageAPI.getRun(runId)).resolves.toMatchObject({
+        reason: "failed",
+        summary: { finished: 2, passed: 1, failed: 1 },
+      });
+    });
+
+    /**
+     * Tests that updating the status of a test replaces its contribution
+     */
+    it("should count the status of updated tests", async () => {
+      const { runId } = await storageAPI.startRun(1);
+      await storageAPI.startTest(runId, story("button"));
+
+      await storageAPI.updateTest(runId, story("button"), {
+        status: "failed",
+        diffRatio: 0.2,
+      });
+      await expect(storageAPI.getRun(runId)).resolves.toMatchObject({
+        summary: { finished: 1, failed: 1, changed: 1, unreviewed: 1 },
+      });
+
+      await storageAPI.updateTest(runId, story("button"), { status: "passed" });
+      await expect(storageAPI.getRun(runId)).resolves.toMatchObject({
+        summary: {
+          finished: 1,
+          passed: 1,
+          failed: 0,
+          changed: 1,
+          unreviewed: 0,
+        },
+      });
+    });
+  });
+
+  /**
+   * Tests for the image storage policy
+   * Verifies which current and diff images are kept and how discarded ones are marked
+   */
+  describe("Image storage policy", () => {
+    /**
+     * Tests that every image is kept by default
+     */
+    it("should keep the images of every test by default", async () => {
+      const runId = await recordRun(["passed", "failed"]);
+
+      const passed = await storageAPI.getTest(runId, story("story-0"));
+      expect(passed?.current).not.toBeNull();
+      expect(passed?.discardedImages).toBeUndefined();
+    });
+
+    /**
+     * Tests that only the images of failed and new tests are kept
+     */
+    it("should keep the images of failed and new tests only", async () => {
+      storageAPI.imageStoragePolicy = "failures";
+      const runId = await recordRun(["passed", "failed", "new"]);
+
+      const passed = await storageAPI.getTest(runId, story("story-0"));
+      expect(passed).toMatchObject({
+        current: null,
+        diff: null,
+        discardedImages: ["current"],
+      });
+      await expect(
+        adapter.images.getRunImage(runId, story("story-0"), "current")
+      ).resolves.toBeNull();
+
+      const failed = await storageAPI.getTest(runId, story("story-1"));
+      expect(failed?.current).not.toBeNull();
+      expect(failed?.diff).not.toBeNull();
+      expect(failed?.discardedImages).toBeUndefined();
+
+      const created = await storageAPI.getTest(runId, story("story-2"));
+      expect(created?.current).not.toBeNull();
+    });
+
+    /**
+     * Tests that no current or diff image is kept
+     */
+    it("should keep no image", async () => {
+      storageAPI.imageStoragePolicy = "none";
+      const runId = await recordRun(["failed"]);
+
+      const failed = await storageAPI.getTest(runId, story("story-0"));
+      expect(failed).toMatchObject({
+        current: null,
+        diff: null,
+        discardedImages: ["current", "diff"],
+      });
+      await expect(
+        storageAPI.acceptBaseline(runId, story("story-0"))
+      ).rejects.toThrow("current image was discarded");
+    });
+
+    /**
+     * Tests that a bulk accept is refused if a matching current image was discarded
+     */
+    it("should refuse to accept tests whose current image was discarded", async () => {
+      storageAPI.imageStoragePolicy = "failures";
+      const runId = await recordRun(["failed", "passed"]);
+
+      await expect(
+        storageAPI.acceptBaselines(runId, { statuses: ["failed", "passed"] })
+      ).rejects.toThrow("current image was discarded");
+      await expect(
+        adapter.images.getBaselineRef(story("story-0"))
+      ).resolves.toBeNull();
+
+      await expect(storageAPI.acceptBaselines(runId)).resolves.toEqual([
+        story("story-0"),
+      ]);
+    });
+
+    /**
+     * Tests that updated tests follow the policy of their status
+     */
+    it("should apply the policy to updated tests", async () => {
+      storageAPI.imageStoragePolicy = "failures";
+      const { runId } = await storageAPI.startRun(1);
+      await storageAPI.startTest(runId, story("story-0"));
+
+      await storageAPI.updateTest(runId, story("story-0"), {
+        status: "passed",
+        current: createTestImageBuffer("current"),
+      });
+      await expect(
+        storageAPI.getTest(runId, story("story-0"))
+      ).resolves.toMatchObject({ current: null, discardedImages: ["current"] });
+
+      await storageAPI.updateTest(runId, story("story-0"), {
+        status: "failed",
+        current: createTestImageBuffer("current"),
+      });
+      const failed = await storageAPI.getTest(runId, story("story-0"));
+      expect(failed?.current).not.toBeNull();
+      expect(failed?.discardedImages).toBeUndefined();
+    });
+  });
+
+  /**
+   * Tests for the event log
+   * Verifies that published events can be replayed from an offset and tailed
+   */
+  describe("Event log", () => {
+    /**
+     * Tests that a run's events are read in order from an offset
+     */
+    it("should replay the events of a run from an offset", async () => {
+      const runId = await recordRun(["passed"]);
+      await storageAPI.startRun(1);
+
+      const page = await storageAPI.readEvents({ runId });
+      expect(page.events.map((event) => event.type)).toEqual([
+        "run:started",
+        "test:started",
+        "test:finished",
+        "run:summary",
+        "run:finished",
+        "run:summary",
+      ]);
+
+      const next = await storageAPI.readEvents({
+        runId,
+        after: page.events[2]!.eventId,
+        limit: 2,
+      });
+      expect(next.events.map((event) => event.type)).toEqual([
+        "run:summary",
+        "run:finished",
+      ]);
+      expect(next.cursor).toBe(page.events[4]!.eventId);
+
+      const global = await storageAPI.readEvents();
+      expect(global.events).toHaveLength(7);
+    });
+
+    /**
+     * Tests that a tail replays missed events before following new ones
+     */
+    it("should replay missed events then tail new ones", async () => {
+      const { runId } = await storageAPI.startRun(1);
+      const types: string[] = [];
+
+      const stop = await storageAPI.tailEvents(
+        (event) => types.push(event.type),
+        { runId }
+      );
+      await storageAPI.startTest(runId, story("button"));
+      await stop();
+      await storageAPI.startTest(runId, story("card"));
+
+      expect(types).toEqual(["run:started", "test:started"]);
+    });
+
+    /**
+     * Tests that a listener error ends the tail and is surfaced to the caller
+     */
+    it("should surface listener errors of a tail", async () => {
+      const { runId } = await storageAPI.startRun(2);
+      const errors: unknown[] = [];
+      const types: string[] = [];
+
+      const stop = await storageAPI.tailEvents(
+        (event) => {
+          if (event.type === "test:started") throw new Error("listener failed");
+          types.push(event.type);
+        },
+        { runId },
+        (error) => errors.push(error)
+      );
+      await storageAPI.startTest(runId, story("button"));
+      await storageAPI.startTest(runId, story("card"));
+
+      expect(types).toEqual(["run:started"]);
+      expect(errors).toEqual([new Error("listener failed")]);
+      await expect(stop()).rejects.toThrow("listener failed");
+    });
+
+    /**
+     * Tests that a listener error while replaying ends the tail the same way
+     */
+    it("should surface listener errors of a replay", async () => {
+      const { runId } = await storageAPI.startRun(2);
+      await storageAPI.startTest(runId, story("button"));
+      const errors: unknown[] = [];
+      const types: string[] = [];
+
+      const stop = await storageAPI.tailEvents(
+        (event) => {
+          if (event.type === "test:started") throw new Error("listener failed");
+          types.push(event.type);
+        },
+        { runId },
+        (error) => errors.push(error)
+      );
+      await storageAPI.startTest(runId, story("card"));
+
+      expect(types).toEqual(["run:started"]);
+      expect(errors).toEqual([new Error("listener failed")]);
+      await expect(stop()).rejects.toThrow("listener failed");
+    });
+
+    /**
+     * Tests that every published event is valid for the event protocol
+     */
+    it("should publish events matching the event protocol", async () => {
+      const runId = await recordRun(["failed", "new", "failed"]);
+      await storageAPI.acceptBaseline(runId, story("story-0"), "alice");
+      await storageAPI.rejectBaselines(runId, {}, "bob");
+
+      const { events } = await storageAPI.readEvents({ limit: 1000 });
+      expect(events.map((event) => event.type)).toContain("baseline:rejected");
+      for (const event of events) {
+        expect(isVisualTestEvent(event)).toBe(true);
+        expect(parseVisualTestEvent(JSON.stringify(event))).toEqual(event);
+      }
+    });
+
+    /**
+     * Tests that invalid events are rejected
+     */
+    it("should reject invalid events", () => {
+      const event = {
+        version: 1,
+        type: "run:started",
+        runId: "run-1",
+        payload: { runId: "run-1", testCount: 1 },
+        timestamp: Date.now(),
+      };
+
+      expect(parseVisualTestEvent(event)).toEqual(event);
+      expect(() => parseVisualTestEvent({ ...event, version: 2 })).toThrow(
+        "Invalid visual test event: run:started (protocol v2, expected v1)"
+      );
+      expect(isVisualTestEvent({ ...event, type: "run:unknown" })).toBe(false);
+      expect(isVisualTestEvent({ ...event, payload: { runId: "run-1" } })).toBe(
+        false
+      );
+      expect(() => parseVisualTestEvent("{")).toThrow("not JSON");
+    });
+
+    /**
+     * Tests that event logs keep the configured number of events
+     */
+    it("should cap the event logs", async () => {
+      const metadata = new JsonFileMetadataStore(
+        join(MOCK_STORAGE_ROOT, "capped.json"),
+        2
+      );
+      const api = new VisualTestStorageAPI({
+        metadata,
+        images: adapter.images,
+      });
+      await api.connect();
+
+      const { runId } = await api.startRun(2);
+      await api.startTest(runId, story("button"));
+      await api.startTest(runId, story("card"));
+
+      const page = await api.readEvents({ runId });
+      expect(page.events).toMatchObject([
+        { type: "test:started", payload: { storyIdentifier: story("button") } },
+        { type: "test:started", payload: { storyIdentifier: story("card") } },
+      ]);
+      await api.disconnect();
+    });
+  });
+
+  /**
+   * Tests for run queries
+   * Verifies ordering, cursor pagination and filters of the run index
+   */
+  describe("Run queries", () => {
+    /**
+     * Tests that pages follow each other newest first until the last one
+     */
+    it("should page through runs newest first", async () => {
+      const now = Date.now();
+      const ids: string[] = [];
+      for (let day = 0; day < 5; day++) {
+        ids.push(await recordRun([], now - day * DAY));
+      }
+
+      const first = await storageAPI.queryRuns({ limit: 2 });
+      const second = await storageAPI.queryRuns({
+        limit: 2,
+        cursor: first.nextCursor,
+      });
+      const last = await storageAPI.queryRuns({
+        limit: 2,
+        cursor: second.nextCursor,
+      });
+
+      expect(first.runs.map((r) => r.runId)).toEqual(ids.slice(0, 2));
+      expect(second.runs.map((r) => r.runId)).toEqual(ids.slice(2, 4));
+      expect(last.runs.map((r) => r.runId)).toEqual(ids.slice(4));
+      expect(last.nextCursor).toBeNull();
+    });
+
+    /**
+     * Tests that runs starting at the same time are neither skipped nor repeated
+     */
+    it("should not skip runs started at the same time", async () => {
+      const startedAt = Date.now();
+      const ids = [
+        await recordRun([], startedAt),
+        await recordRun([], startedAt),
+        await recordRun([], startedAt),
+      ];
+
+      const first = await storageAPI.queryRuns({ limit: 2 });
+      const second = await storageAPI.queryRuns({
+        limit: 2,
+        cursor: first.nextCursor,
+      });
+
+      expect(
+        [...first.runs, ...second.runs].map((r) => r.runId).sort()
+      ).toEqual(ids.sort());
+    });
+
+    /**
+     * Tests the reason, date range, CI and label filters
+     */
+    it("should filter runs", async () => {
+      vi.stubEnv("CI", "false");
+      const now = Date.now();
+      const old = await recordRun([], now - 10 * DAY);
+      const recent = await recordRun([], now - DAY);
+      const failed = await recordRun(["failed"], now);
+      await storageAPI.finishRun(failed, "failed");
+
+      const labelled = await storageAPI.startRun(0, { branch: "feature" });
+      vi.stubEnv("CI", "true");
+      const ci = await storageAPI.startRun(0);
+      vi.unstubAllEnvs();
+
+      const runIds = async (
+        query: Parameters<typeof storageAPI.queryRuns>[0]
+      ) => (await storageAPI.queryRuns(query)).runs.map((r) => r.runId);
+
+      await expect(runIds({ reason: "failed" })).resolves.toEqual([failed]);
+      await expect(
+        runIds({ from: now - 20 * DAY, to: now - 2 * DAY })
+      ).resolves.toEqual([old]);
+      await expect(runIds({ to: now - DAY })).resolves.toEqual([recent, old]);
+      await expect(runIds({ ci: true })).resolves.toEqual([ci.runId]);
+      await expect(runIds({ labels: { branch: "feature" } })).resolves.toEqual([
+        labelled.runId,
+      ]);
+    });
+
+    /**
+     * Tests that the run provenance is recorded and filterable
+     */
+    it("should filter runs by provenance", async () => {
+      const chromium = await storageAPI.startRun(0, undefined, {
+        git: { commit: "a1b2c3d4e5", branch: "main", dirty: false },
+        browser: { name: "chromium", version: "138.0", provider: "playwright" },
+        deviceScaleFactor: 2,
+      });
+      const firefox = await storageAPI.startRun(0, undefined, {
+        git: { commit: "f6e5d4c3b2", branch: "feature", dirty: true },
+        browser: { name: "firefox", version: null, provider: "playwright" },
+      });
+
+      expect(chromium.environment).toMatchObject({
+        nodeVersion: process.version,
+        deviceScaleFactor: 2,
+        git: { branch: "main" },
+      });
+
+      const runIds = async (
+        query: Parameters<typeof storageAPI.queryRuns>[0]
+      ) => (await storageAPI.queryRuns(query)).runs.map((r) => r.runId);
+
+      await expect(runIds({ commit: "a1b2c3d" })).resolves.toEqual([
+        chromium.runId,
+      ]);
+      await expect(runIds({ branch: "feature" })).resolves.toEqual([
+        firefox.runId,
+      ]);
+      await expect(runIds({ browser: "chromium" })).resolves.toEqual([
+        chromium.runId,
+      ]);
+      await expect(runIds({ browser: "webkit" })).resolves.toEqual([]);
+    });
+
+    /**
+     * Tests that malformed cursors are rejected
+     */
+    it("should reject an invalid cursor", async () => {
+      await expect(
+        storageAPI.queryRuns({ cursor: "not-a-cursor" })
+      ).rejects.toThrow("Invalid run cursor");
+    });
+  });
+
+  /**
+   * Tests for the story history
+   * Verifies that the results of a story are listed across runs
+   */
+  describe("Story history", () => {
+    /**
+     * Tests that the history lists each run of the story, newest first, with image references
+     */
+    it("should list the results of a story across runs, newest first", async () => {
+      const passed = await recordRun(["passed"]);
+      const failed = await recordRun(["failed"]);
+      const latest = await recordRun(["passed", "passed"]);
+
+      const history = await storageAPI.getStoryHistory(story("story-0"));
+      expect(history.map((entry) => entry.runId)).toEqual([
+        latest,
+        failed,
+        passed,
+      ]);
+      expect(history[1]).toMatchObject({ status: "failed", review: null });
+      await expect(
+        storageAPI.getImage(history[1]?.diff ?? "")
+      ).resolves.toEqual(createTestImageBuffer("diff"));
+
+      await expect(
+        storageAPI.getStoryHistory(story("story-1"))
+      ).resolves.toHaveLength(1);
+      await expect(
+        storageAPI.getStoryHistory(story("story-0"), 2)
+      ).resolves.toHaveLength(2);
+    });
+
+    /**
+     * Tests that pruned runs disappear from the history
+     */
+    it("should drop pruned runs from the history", async () => {
+      await recordRun(["failed"], Date.now() - 10 * DAY);
+      const recent = await recordRun(["passed"]);
+
+      await storageAPI.pruneRuns({ olderThanDays: 5 });
+
+      const history = await storageAPI.getStoryHistory(story("story-0"));
+      expect(history.map((entry) => entry.runId)).toEqual([recent]);
+    });
+  });
+
+  /**
+   * Tests for run archives
+   * Verifies that a run exported from one storage can be imported into another one
+   */
+  describe("Archives", () => {
+    /**
+     * Tests that the run, its tests and images are restored with rewritten references
+     */
+    it("should export a run and import it into another storage", async () => {
+      // Long enough to need a PAX header in the archive
+      const storyIdentifier = story(`docs-${"a".repeat(120)}`);
+      const run = await storageAPI.startRun(1, { branch: "feature" });
+      await storageAPI.startTest(run.runId, storyIdentifier);
+      await storageAPI.finishTest(run.runId, {
+        storyIdentifier,
+        status: "failed",
+        baseline: createTestImageBuffer("baseline"),
+        current: createTestImageBuffer("current"),
+        diff: createTestImageBuffer("diff"),
+        diffRatio: 0.2,
+        message: "failed",
+      });
+      await storageAPI.rejectBaseline(run.runId, storyIdentifier, "alice");
+      await storageAPI.finishRun(run.runId, "failed");
+
+      const archive = await storageAPI.exportRun(run.runId);
+
+      const otherRoot = join(MOCK_STORAGE_ROOT, "other");
+      const other = new VisualTestStorageAPI(
+        createLiteStorageAdapter(join(otherRoot, "db.json"), otherRoot)
+      );
+      await other.connect();
+
+      const imported = await other.importRun(archive);
+
+      expect(imported).toEqual(await storageAPI.getRun(run.runId));
+      const [test] = await other.listTestsForRun(run.runId);
+      expect(test).toMatchObject({
+        status: "failed",
+        diffRatio: 0.2,
+        review: { decision: "rejected", reviewer: "alice" },
+      });
+      for (const type of ["baseline", "current", "diff"] as const) {
+        expect(test?.[type]).toContain(join(otherRoot, "runs", run.runId));
+        await expect(other.getImage(test?.[type] ?? "")).resolves.toEqual(
+          createTestImageBuffer(type)
+        );
+      }
+      await expect(other.getBaseline(storyIdentifier)).resolves.toBeNull();
+      await expect(
+        other.queryRuns({ labels: { branch: "feature" } })
+      ).resolves.toMatchObject({ runs: [{ runId: run.runId }] });
+
+      await other.disconnect();
+    });
+
+    /**
+     * Tests that importing a run that already exists is rejected
+     */
+    it("should not import an existing run", async () => {
+      const runId = await recordRun(["passed"]);
+
+      const archive = await storageAPI.exportRun(runId);
+
+      await expect(storageAPI.importRun(archive)).rejects.toThrow(
+        "already exists"
+      );
+      await expect(storageAPI.exportRun("missing")).rejects.toThrow(
+        "Run missing not found"
+      );
+    });
+  });
+
+  /**
+   * Tests for project namespaces
+   * Verifies that projects sharing a database directory and an image root don't collide
+   */
+  describe("Projects", () => {
+    /**
+     * Tests that each project keeps its own runs and images
+     */
+    it("should isolate the data of each project", async () => {
+      const project = (name: string) =>
+        new VisualTestStorageAPI(
+          createLiteStorageAdapter(
+            join(MOCK_STORAGE_ROOT, "db.json"),
+            MOCK_STORAGE_ROOT,
+            name
+          )
+        );
+      const web = project("web");
+      const mobile = project("mobile/app");
+      await web.connect();
+      await mobile.connect();
+
+      const run = await web.startRun(1);
+      await web.finishTest(run.runId, {
+        storyIdentifier: story("button"),
+        status: "new",
+        baseline: null,
+        current: createTestImageBuffer("web"),
+        diff: null,
+        diffRatio: null,
+        message: "new",
+      });
+      await mobile.startRun(0);
+
+      await expect(web.listAllRuns()).resolves.toHaveLength(1);
+      await expect(mobile.listAllRuns()).resolves.toHaveLength(1);
+      await expect(storageAPI.listAllRuns()).resolves.toEqual([]);
+      await expect(
+        access(join(MOCK_STORAGE_ROOT, "projects", "web", "runs", run.runId))
+      ).resolves.toBeUndefined();
+      await expect(
+        mobile.getCurrentImage(run.runId, story("button"))
+      ).resolves.toBeNull();
+
+      await expect(storageAPI.listProjects()).resolves.toEqual([
+        "mobile/app",
+        "web",
+      ]);
+
+      await web.disconnect();
+      await mobile.disconnect();
+    });
+
+    /**
+     * Tests that the project defaults to VITE_VISUAL_TEST_PROJECT
+     */
+    it("should read the project from the environment", () => {
+      vi.stubEnv("VITE_VISUAL_TEST_PROJECT", "docs");
+      const { metadata, images } = createLiteStorageAdapter(
+        join(MOCK_STORAGE_ROOT, "db.json"),
+        MOCK_STORAGE_ROOT
+      );
+      vi.unstubAllEnvs();
+
+      expect(metadata.dbFilePath).toBe(
+        join(MOCK_STORAGE_ROOT, "projects", "docs", "db.json")
+      );
+      expect((images as FileSystemImageStore).imageRoot).toBe(
+        join(MOCK_STORAGE_ROOT, "projects", "docs")
+      );
+    });
+  });
+
+  /**
+   * Tests for schema versioning and migrations
+   * Verifies that unversioned data is upgraded step by step, once
+   */
+  describe("Schema migrations", () => {
+    /**
+     * Tests that new documents and databases record the schema version
+     */
+    it("should record the schema version of new data", async () => {
+      const run = await storageAPI.startRun(1);
+      await storageAPI.startTest(run.runId, story("button"));
+
+      expect(run.schemaVersion).toBe(SCHEMA_VERSION);
+      await expect(
+        storageAPI.getTest(run.runId, story("button"))
+      ).resolves.toMatchObject({ schemaVersion: SCHEMA_VERSION });
+      await expect(adapter.metadata.getSchemaVersion()).resolves.toBe(
+        SCHEMA_VERSION
+      );
+      // Runs finished without being started
+      await expect(storageAPI.finishRun("unknown-run")).resolves.toMatchObject({
+        schemaVersion: SCHEMA_VERSION,
+      });
+    });
+
+    /**
+     * Tests that unversioned documents and image files are upgraded idempotently
+     */
+    it("should migrate unversioned data", async () => {
+      const run = await storageAPI.startRun(0);
+      const { schemaVersion, ...legacyRun } = run;
+      await adapter.metadata.saveRun(legacyRun);
+      await adapter.metadata.setSchemaVersion(0);
+      await adapter.images.setSchemaVersion(0);
+      await mkdir(join(MOCK_STORAGE_ROOT, "baselines", "docs"), {
+        recursive: true,
+      });
+      await writeFile(
+        join(
+          MOCK_STORAGE_ROOT,
+          "baselines",
+          "docs",
+          "my.story-light-1280x720.png"
+        ),
+        createTestImageBuffer("legacy")
+      );
+
+      const pending = await storageAPI.migrate({ dryRun: true });
+      expect(pending).toMatchObject({ from: 0, to: SCHEMA_VERSION });
+      expect(pending.steps.map((step) => step.version)).toEqual([1, 2, 3]);
+
+      const report = await storageAPI.migrate();
+      expect(report.steps).toMatchObject([
+        { version: 1, documents: 0, images: 0 },
+        { version: 2, documents: 0, images: 1 },
+        { version: 3, documents: 1, images: 0 },
+      ]);
+      await expect(storageAPI.getRun(run.runId)).resolves.toMatchObject({
+        schemaVersion,
+      });
+      await expect(
+        storageAPI.getBaseline(story("docs/my.story"))
+      ).resolves.toEqual(createTestImageBuffer("legacy"));
+
+      await expect(storageAPI.migrate()).resolves.toMatchObject({
+        from: SCHEMA_VERSION,
+        steps: [],
+      });
+    });
+
+    /**
+     * Tests that unversioned data is migrated on connect, so its runs stay visible
+     */
+    it("should migrate unversioned data on connect", async () => {
+      const run = await storageAPI.startRun(1);
+      await storageAPI.startTest(run.runId, story("docs/my.story"));
+      await storageAPI.disconnect();
+
+      // Rewrite the database as written before schema versioning
+      const dbPath = join(MOCK_STORAGE_ROOT, "db.json");
+      const db = JSON.parse(await readFile(dbPath, "utf-8"));
+      delete db.schemaVersion;
+      delete db.runs[run.runId].schemaVersion;
+      const [test] = Object.values(db.tests[run.runId]) as {
+        schemaVersion?: number;
+      }[];
+      delete test.schemaVersion;
+      db.tests[run.runId] = { "docs/my.story:light:1280x720": test };
+      await writeFile(dbPath, JSON.stringify(db));
+      await rm(join(MOCK_STORAGE_ROOT, "schema.json"), { force: true });
+
+      const reconnected = new VisualTestStorageAPI(
+        createLiteStorageAdapter(dbPath, MOCK_STORAGE_ROOT)
+      );
+      await reconnected.connect();
+
+      await expect(reconnected.listAllRuns()).resolves.toMatchObject([
+        { runId: run.runId, schemaVersion: SCHEMA_VERSION },
+      ]);
+      await expect(
+        reconnected.getTest(run.runId, story("docs/my.story"))
+      ).resolves.toMatchObject({ schemaVersion: SCHEMA_VERSION });
+      await expect(reconnected.migrate()).resolves.toMatchObject({
+        from: SCHEMA_VERSION,
+        steps: [],
+      });
+      await reconnected.disconnect();
+    });
+
+    /**
+     * Tests that data written by a newer version of the library is refused
+     */
+    it("should refuse data of a newer schema", async () => {
+      await adapter.images.setSchemaVersion(SCHEMA_VERSION + 1);
+
+      await expect(storageAPI.migrate()).rejects.toThrow(
+        `Unsupported image schema v${SCHEMA_VERSION + 1}`
+      );
+
+      const reconnected = new VisualTestStorageAPI(
+        createLiteStorageAdapter(
+          join(MOCK_STORAGE_ROOT, "db.json"),
+          MOCK_STORAGE_ROOT
+        )
+      );
+      await expect(reconnected.connect()).rejects.toThrow(
+        "Unsupported image schema"
+      );
+    });
+  });
+
+  /**
+   * Tests for heartbeats and the sweep of stale runs
+   */
+  describe("Stale runs", () => {
+    /**
+     * Start a run with a finished and a running test, last seen some time ago
+     * @param lastHeartbeat - Timestamp of the last heartbeat of the run
+     * @returns The run identifier
+     */
+    const startAbandonedRun = async (lastHeartbeat: number) => {
+      const { runId } = await storageAPI.startRun(2);
+      await storageAPI.startTest(runId, story("button"));
+      await storageAPI.finishTest(runId, {
+        storyIdentifier: story("button"),
+        status: "passed",
+        baseline: null,
+        current: null,
+        diff: null,
+        diffRatio: 0,
+        message: "passed",
+      });
+      await storageAPI.startTest(runId, story("card"));
+      await adapter.metadata.touchRun(runId, lastHeartbeat);
+
+      return runId;
+    };
+
+    /**
+     * Tests that heartbeats are recorded on the run
+     */
+    it("should record heartbeats", async () => {
+      const run = await storageAPI.startRun(1);
+      expect(run.heartbeatAt).toBe(run.startedAt);
+
+      await expect(storageAPI.heartbeat(run.runId)).resolves.toBe(true);
+      await expect(storageAPI.heartbeat("missing-run")).resolves.toBe(false);
+
+      const saved = await storageAPI.getRun(run.runId);
+      expect(saved?.heartbeatAt).toBeGreaterThanOrEqual(run.startedAt);
+    });
+
+    /**
+     * Tests that runs without a recent heartbeat are interrupted and their running tests aborted
+     */
+    it("should interrupt runs without a recent heartbeat", async () => {
+      const lastHeartbeat = Date.now() - 10 * 60 * 1000;
+      const staleRunId = await startAbandonedRun(lastHeartbeat);
+      const activeRunId = await startAbandonedRun(Date.now());
+
+      await expect(
+        storageAPI.sweepStaleRuns({ dryRun: true })
+      ).resolves.toEqual({ runIds: [staleRunId], tests: 1, dryRun: true });
+      await expect(storageAPI.getRun(staleRunId)).resolves.not.toHaveProperty(
+        "finishedAt"
+      );
+
+      const report = await storageAPI.sweepStaleRuns();
+      expect(report).toEqual({ runIds: [staleRunId], tests: 1, dryRun: false });
+
+      const run = await storageAPI.getRun(staleRunId);
+      expect(run).toMatchObject({
+        reason: "interrupted",
+        finishedAt: lastHeartbeat,
+      });
+      expect(run?.summary).toMatchObject({
+        finished: 1,
+        passed: 1,
+        aborted: 1,
+      });
+      await expect(
+        storageAPI.getTest(staleRunId, story("card"))
+      ).resolves.toMatchObject({
+        status: "aborted",
+        finishedAt: lastHeartbeat,
+      });
+
+      const { events } = await storageAPI.readEvents({ runId: staleRunId });
+      expect(events.slice(-3)).toMatchObject([
+        { type: "test:finished", payload: { status: "aborted" } },
+        { type: "run:finished", payload: { reason: "interrupted" } },
+        { type: "run:summary" },
+      ]);
+      events.forEach((event) => expect(isVisualTestEvent(event)).toBe(true));
+
+      await expect(storageAPI.getRun(activeRunId)).resolves.not.toHaveProperty(
+        "finishedAt"
+      );
+      await expect(storageAPI.sweepStaleRuns()).resolves.toMatchObject({
+        runIds: [],
+      });
+    });
+
+    /**
+     * Tests that a run or test changed since the sweep read it is not interrupted
+     */
+    it("should not interrupt runs or tests changed since they were read", async () => {
+      const lastHeartbeat = Date.now() - 10 * 60 * 1000;
+      const runId = await startAbandonedRun(lastHeartbeat);
+      const running = (await storageAPI.listTestsForRun(runId)).filter(
+        (test) => test.status === "running"
+      );
+
+      // A heartbeat recorded after the run was found stale
+      await adapter.metadata.touchRun(runId, lastHeartbeat + 1);
+      await expect(
+        adapter.metadata.interruptRun(runId, lastHeartbeat, running)
+      ).resolves.toBeNull();
+      await expect(storageAPI.getRun(runId)).resolves.not.toHaveProperty(
+        "finishedAt"
+      );
+
+      // A test finished after it was found running
+      await storageAPI.finishTest(runId, {
+        storyIdentifier: story("card"),
+        status: "passed",
+        baseline: null,
+        current: null,
+        diff: null,
+        diffRatio: 0,
+        message: "passed",
+      });
+      const interrupted = await adapter.metadata.interruptRun(
+        runId,
+        lastHeartbeat + 1,
+        running
+      );
+      expect(interrupted?.tests).toEqual([]);
+      expect(interrupted?.run).toMatchObject({ reason: "interrupted" });
+      expect(interrupted?.run.summary).toMatchObject({ passed: 2, aborted: 0 });
+      await expect(
+        storageAPI.getTest(runId, story("card"))
+      ).resolves.toMatchObject({ status: "passed" });
+    });
+  });
+
+  /**
+   * Tests for the consistency check between metadata and images
+   */
+  describe("Consistency check", () => {
+    /**
+     * Record a run, then lose one of its images, add stray run images and a
+     * baseline of a removed story
+     * @returns The run identifier and the paths of the stray images
+     */
+    const breakStorage = async () => {
+      const runId = await recordRun(["failed", "passed"]);
+      const test = await storageAPI.getTest(runId, story("story-0"));
+      await rm(test!.current!);
+
+      const strayImages = [
+        join(MOCK_STORAGE_ROOT, "runs", runId, "stray-current.png"),
+        join(MOCK_STORAGE_ROOT, "runs", "deleted-run", "story-current.png"),
+      ];
+      await mkdir(join(MOCK_STORAGE_ROOT, "runs", "deleted-run"));
+      for (const path of strayImages) {
+        await writeFile(path, createTestImageBuffer("stray"));
+      }
+      await adapter.images.saveBaseline(
+        story("removed"),
+        createTestImageBuffer("removed")
+      );
+
+      return { runId, strayImages, missing: test!.current! };
+    };
+
+    /**
+     * Tests that missing images, orphaned images and stale baselines are reported
+     */
+    it("should report inconsistencies without changing anything", async () => {
+      const { runId, strayImages, missing } = await breakStorage();
+
+      const report = await storageAPI.checkConsistency();
+
+      expect(report).toMatchObject({
+        runs: 1,
+        tests: 2,
+        missingImages: [
+          {
+            runId,
+            storyIdentifier: story("story-0"),
+            type: "current",
+            ref: missing,
+          },
+        ],
+        staleBaselines: [story("removed")],
+        repaired: false,
+        cleaned: false,
+      });
+      expect(report.orphanedImages.map(({ ref }) => ref).sort()).toEqual(
+        [...strayImages].sort()
+      );
+      await expect(
+        storageAPI.getTest(runId, story("story-0"))
+      ).resolves.toMatchObject({ current: missing });
+      for (const path of strayImages)
+        await expect(access(path)).resolves.toBe(undefined);
+      await expect(storageAPI.getBaseline(story("removed"))).resolves.toEqual(
+        createTestImageBuffer("removed")
+      );
+    });
+
+    /**
+     * Tests that repair and clean leave a consistent storage
+     */
+    it("should repair references and clean orphaned images", async () => {
+      const { runId, strayImages } = await breakStorage();
+
+      await storageAPI.checkConsistency({ repair: true, clean: true });
+
+      await expect(
+        storageAPI.getTest(runId, story("story-0"))
+      ).resolves.toMatchObject({ current: null });
+      for (const path of strayImages)
+        await expect(access(path)).rejects.toThrow();
+      await expect(storageAPI.getBaseline(story("removed"))).resolves.toBe(
+        null
+      );
+      await expect(storageAPI.checkConsistency()).resolves.toMatchObject({
+        missingImages: [],
+        orphanedImages: [],
+        staleBaselines: [],
+      });
+    });
+
+    /**
+     * Tests that the given story list decides which baselines are stale
+     */
+    it("should check baselines against the given stories", async () => {
+      await breakStorage();
+
+      const report = await storageAPI.checkConsistency({
+        stories: [story("story-0"), story("removed")],
+      });
+
+      expect(report.staleBaselines).toEqual([]);
+    });
+  });
+});
@@ -1,18 +1,14 @@
 /**
- * Redis-based storage API for visual test results
+ * Storage API for visual test results
  * Handles storage of test runs, images, and real-time events
  *
- * The storage strategy uses Redis for metadata (test status, run summaries, etc.)
- * and filesystem for actual image files to optimize performance and storage costs.
- * Images are stored separately to avoid bloating Redis memory usage while
+ * Persistence is delegated to a `StorageAdapter` made of a `MetadataStore`
+ * and an `ImageStore`. The default adapter uses Redis for metadata (test status,
+ * run summaries, etc.) and filesystem for actual image files to optimize performance
+ * and storage costs. Images are stored separately to avoid bloating Redis memory usage while
  * maintaining fast metadata queries and real-time event publishing capabilities.
  */
 
-import {
-  createClient,
-  type RedisClientOptions,
-  type RedisClientType,
-} from "redis";
 import type {
   NewStoredVisualTest,
   NewVisualTestRun,
@@ -21,249 +17,359 @@ import type {
   VisualTestRun,
   StoredVisualTestResult,
   VisualTestUpdate,
-  PublishMsg,
+  VisualTestEvent,
+  VisualTestEventPayloads,
+  VisualTestEventType,
+  PruneReport,
+  RetentionPolicy,
+  StaleRunOptions,
+  StaleRunReport,
+  BaselineVersion,
+  TestFilter,
+  ReviewDecision,
+  RunPage,
+  RunQuery,
+  StoryHistoryEntry,
+  IdMigrationReport,
+  SchemaMigrationReport,
+  ConsistencyCheckOptions,
+  ConsistencyReport,
+  RunArchiveManifest,
+  ImageStoragePolicy,
+  DiscardedImage,
+  EventLogPage,
+  EventLogQuery,
+  RunEnvironment,
 } from "../types/index.js";
 import { v7 as uuidv7 } from "uuid";
-import { join } from "path";
-import { existsSync } from "fs";
-import { mkdir, readFile, writeFile } from "fs/promises";
+import { promisify } from "util";
+import { gunzip, gzip } from "zlib";
+import {
+  isStorageAdapter,
+  type ImageStore,
+  type MetadataStore,
+  type StorageAdapter,
+  type SummaryIncrements,
+} from "./StorageAdapter.js";
+import { RedisMetadataStore } from "./RedisMetadataStore.js";
+import type {
+  RedisConnection,
+  RedisConnectionOptions,
+} from "./redisConnection.js";
+import { FileSystemImageStore } from "./FileSystemImageStore.js";
+import { ContentAddressedImageStore } from "./ContentAddressedImageStore.js";
+import { JsonFileMetadataStore } from "./JsonFileMetadataStore.js";
+import { getImageId } from "./imageId.js";
+import { packTar, unpackTar, type TarEntry } from "./tarArchive.js";
+import { packBaselineBundle } from "./baselineBundle.js";
+import { BundleImageStore } from "./BundleImageStore.js";
+import type { EventLogErrorListener, EventLogListener } from "./eventLog.js";
+import { EVENT_PROTOCOL_VERSION } from "./eventProtocol.js";
+import {
+  SCHEMA_MIGRATIONS,
+  SCHEMA_VERSION,
+  assertSupportedSchemaVersion,
+} from "./schema.js";
+
+/**
+ * Default number of runs returned by `getStoryHistory`
+ */
+const DEFAULT_STORY_HISTORY_SIZE = 50;
+
+/**
+ * Default time without a heartbeat after which `sweepStaleRuns` interrupts a run
+ */
+const DEFAULT_STALE_RUN_MS = 5 * 60 * 1000;
+
+/**
+ * Format identifier and version written in run archive manifests
+ */
+const RUN_ARCHIVE_FORMAT = "simple-visual-tests/run";
+const RUN_ARCHIVE_VERSION = 1;
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
 
 type ImageMetadata = Pick<
   StoredVisualTestResult,
   "baseline" | "current" | "diff"
 >;
 
-let storageOnlyApiSingleton: VisualTestStorageAPI | null = null;
+/**
+ * Get the run summary counters a test contributes to
+ * @param test The stored test (running tests contribute nothing)
+ * @returns Counter increments for the test
+ */
+const getSummaryIncrements = (
+  test: Pick<StoredVisualTestResult, "status" | "diffRatio" | "review">
+): SummaryIncrements => {
+  if (test.status === "running") return {};
+  if (test.status === "skipped") return { skipped: 1 };
+  if (test.status === "aborted") return { aborted: 1 };
+
+  const increments: SummaryIncrements = { finished: 1, [test.status]: 1 };
+  if ((test.diffRatio ?? 0) > 0) increments.changed = 1;
+  if (test.status === "failed" || test.status === "new") {
+    if (!test.review) increments.unreviewed = 1;
+    else if (test.review.decision === "rejected") increments.rejected = 1;
+  }
 
-export class VisualTestStorageAPI {
-  private client: RedisClientType | null = null;
-  private readonly imageRoot: string;
-  private readonly GLOBAL_CHANNEL = "visualtest:events";
-  private readonly redisOptions?: RedisClientOptions;
+  return increments;
+};
 
-  constructor(redisOptions?: RedisClientOptions, imageRootPath?: string) {
-    this.redisOptions = redisOptions;
-    this.imageRoot =
-      imageRootPath ||
-      process.env.VITE_VISUAL_TEST_IMAGES_PATH ||
-      "./tests/visual-test-images";
+/**
+ * Add up summary increments
+ * @param a First increments
+ * @param b Increments to add
+ * @param sign 1 to add `b`, -1 to subtract it
+ * @returns The sum of the increments
+ */
+const addSummaryIncrements = (
+  a: SummaryIncrements,
+  b: SummaryIncrements,
+  sign: 1 | -1 = 1
+): SummaryIncrements => {
+  const sum = { ...a };
+  for (const [counter, amount] of Object.entries(b)) {
+    const key = counter as keyof SummaryIncrements;
+    sum[key] = (sum[key] ?? 0) + sign * (amount ?? 0);
   }
+  return sum;
+};
 
-  // ---------------------------
-  // Key / Channel helpers
-  // ---------------------------
-  /**
-   * Generate Redis key for a run
-   * @param runId The unique identifier for the test run
-   * @returns Redis key string for the run
-   */
-  private runKey(runId: string) {
-    return `visualrun:${runId}`;
-  }
+/**
+ * Check if the image storage policy keeps the current and diff images of a test
+ * @param policy The image storage policy
+ * @param status Final status of the test
+ * @returns True if the images must be saved
+ */
+const keepsRunImages = (
+  policy: ImageStoragePolicy,
+  status: VisualTestResult["status"]
+) =>
+  policy === "all" ||
+  (policy === "failures" && (status === "failed" || status === "new"));
 
-  /**
-   * Generate Redis key for run tests set
-   * @param runId The unique identifier for the test run
-   * @returns Redis key string for the set of tests in the run
-   */
-  private runTestsSetKey(runId: string) {
-    return `visualrun:${runId}:tests`;
+/**
+ * Check if a stored test matches a review filter
+ * @param test The stored test
+ * @param filter The filter (statuses default to failed and new)
+ * @returns True if every criterion of the filter matches
+ */
+const matchesTestFilter = (
+  test: StoredVisualTestResult,
+  filter: TestFilter
+) => {
+  const { storyId, theme, viewport } = test.storyIdentifier;
+  const { diffRatio } = test;
+
+  if (!(filter.statuses ?? ["failed", "new"]).includes(test.status))
+    return false;
+  if (filter.storyIdPrefix && !storyId.startsWith(filter.storyIdPrefix))
+    return false;
+  if (filter.theme && theme !== filter.theme) return false;
+  if (
+    filter.viewport &&
+    (viewport.width !== filter.viewport.width ||
+      viewport.height !== filter.viewport.height)
+  )
+    return false;
+  if (filter.minDiffRatio !== undefined || filter.maxDiffRatio !== undefined) {
+    if (diffRatio === null || diffRatio === undefined) return false;
+    if (diffRatio < (filter.minDiffRatio ?? -Infinity)) return false;
+    if (diffRatio > (filter.maxDiffRatio ?? Infinity)) return false;
   }
 
-  /**
-   * Generate Redis key for a specific test
-   * @param runId The unique identifier for the test run
-   * @param s The story identifier containing storyId, theme, and viewport
-   * @returns Redis key string for the specific test
-   */
-  private testKeyFor(runId: string, s: StoryIdentifier) {
-    const { storyId, theme, viewport } = s;
-    return `visualtest:${runId}:${storyId}:${theme}:${viewport.width}x${viewport.height}`;
-  }
+  return true;
+};
 
-  /**
-   * Generate Redis channel for a run
-   * @param runId The unique identifier for the test run
-   * @returns Redis channel string for the run
-   */
-  private runChannel(runId: string) {
-    return `visualrun:${runId}:channel`;
-  }
+/**
+ * Check that the current image of a test was not discarded by the image storage policy,
+ * so it can be accepted as baseline
+ * @param test The stored test
+ * @throws {Error} If the current image was not kept
+ */
+const assertCurrentImageKept = (test: StoredVisualTestResult) => {
+  if (test.current || !test.discardedImages?.includes("current")) return;
 
-  // ---------------------------
-  // Paths & storage helpers
-  // ---------------------------
-  private getBaselineDir() {
-    return join(this.imageRoot, "baselines");
-  }
+  throw new Error(
+    `Cannot accept ${getImageId(
+      test.storyIdentifier
+    )}: its current image was discarded by the image storage policy (use the "failures" or "all" policy to review tests)`
+  );
+};
 
-  private getRunDir() {
-    return join(this.imageRoot, "runs");
-  }
+let storageOnlyApiSingleton: FileStorageOnlyApi | null = null;
 
-  /**
-   * Generate unique image identifier from story identifier
-   * @param storyIdentifier The story identifier containing storyId, theme, and viewport
-   * @returns A unique string identifier for the image
-   */
-  private getImageId(storyIdentifier: StoryIdentifier) {
-    const { storyId, theme, viewport } = storyIdentifier;
+/**
+ * Create the filesystem image store, content-addressed when
+ * `VITE_VISUAL_TEST_DEDUPLICATE_IMAGES` is "true"
+ * @param imageRootPath Root directory for images
+ * @param project Project namespace (default: `VITE_VISUAL_TEST_PROJECT`)
+ * @returns The image store
+ */
+const createFileSystemImageStore = (imageRootPath?: string, project?: string) =>
+  process.env.VITE_VISUAL_TEST_DEDUPLICATE_IMAGES === "true"
+    ? new ContentAddressedImageStore(imageRootPath, project)
+    : new FileSystemImageStore(imageRootPath, project);
 
-    return `${storyId}-${theme}-${viewport.width}x${viewport.height}`;
-  }
+/**
+ * Create the default storage adapter (Redis metadata + filesystem images)
+ * @param redisOptions Redis connection options (standalone, cluster or sentinel)
+ * @param imageRootPath Root directory for images
+ * @param project Project namespace of the keys, channels and images (default: `VITE_VISUAL_TEST_PROJECT`)
+ * @returns The default storage adapter
+ */
+export const createDefaultStorageAdapter = (
+  redisOptions?: RedisConnectionOptions,
+  imageRootPath?: string,
+  project?: string
+): StorageAdapter<RedisConnection> => ({
+  metadata: new RedisMetadataStore(redisOptions, { project }),
+  images: createFileSystemImageStore(imageRootPath, project),
+});
 
-  /**
-   * Get baseline image path for a story
-   * @param storyIdentifier The identifier for the story
-   * @returns Path to the baseline image file
-   */
-  private getBaselinePath(storyIdentifier: StoryIdentifier): string {
-    const imageId = this.getImageId(storyIdentifier);
+/**
+ * Create the "lite mode" storage adapter (local JSON file metadata + filesystem images)
+ * that works without Redis
+ * @param dbFilePath Path of the JSON database file
+ * @param imageRootPath Root directory for images
+ * @param project Project namespace of the database and images (default: `VITE_VISUAL_TEST_PROJECT`)
+ * @returns The lite storage adapter
+ */
+export const createLiteStorageAdapter = (
+  dbFilePath?: string,
+  imageRootPath?: string,
+  project?: string
+): StorageAdapter<JsonFileMetadataStore> & {
+  metadata: JsonFileMetadataStore;
+} => ({
+  metadata: new JsonFileMetadataStore(dbFilePath, undefined, project),
+  images: createFileSystemImageStore(imageRootPath, project),
+});
 
-    return join(this.getBaselineDir(), `${imageId}.png`);
-  }
+/**
+ * Baseline reads of the storage API that only need an image store, returned by
+ * `VisualTestStorageAPI.getFileStorageOnlyApi` (its metadata store is never connected)
+ */
+export type FileStorageOnlyApi = Pick<
+  VisualTestStorageAPI,
+  "getBaseline" | "listBaselineVersions"
+>;
 
-  /**
-   * Get directory for run images
-   * @param runId The unique identifier for the test run
-   * @returns Path to the directory for run images
-   */
-  private getRunImageDir(runId: string) {
-    return join(this.getRunDir(), runId);
-  }
+export class VisualTestStorageAPI<TClient = RedisConnection> {
+  /** Metadata store of the adapter, or the default Redis store (then `TClient` is `RedisConnection`) */
+  private readonly metadata: MetadataStore<TClient | RedisConnection>;
+  private readonly images: ImageStore;
+  /** Baseline namespace (git branch) used when none is given (`VITE_VISUAL_TEST_BRANCH`) */
+  readonly baselineBranch: string | undefined;
+  /** Branch whose baselines are the shared fallback (`VITE_VISUAL_TEST_BASE_BRANCH`, default: "main") */
+  readonly baseBranch: string;
+  /** Which current and diff images `finishTest` keeps (default: "all") */
+  imageStoragePolicy: ImageStoragePolicy = "all";
+  /** Whether `connect` applies pending schema migrations (default: true) */
+  autoMigrate = true;
 
   /**
-   * Get current image path for a test run
-   * @param runId The unique identifier for the test run
-   * @param storyIdentifier The identifier for the story
-   * @returns Path to the current image file
+   * Create a storage API backed by Redis and the filesystem
+   * (only for the Redis client: `TClient` stays `RedisConnection`)
+   * @param redisOptions Redis connection options (standalone, cluster or sentinel)
+   * @param imageRootPath Root directory for images
+   * @param project Project namespace of the keys, channels and images (default: `VITE_VISUAL_TEST_PROJECT`)
    */
-  private getCurrentPath(
-    runId: string,
-    storyIdentifier: StoryIdentifier
-  ): string {
-    const imageId = this.getImageId(storyIdentifier);
-
-    return join(this.getRunImageDir(runId), `${imageId}-current.png`);
-  }
-
+  constructor(
+    ...args: RedisConnection extends TClient
+      ? [
+          redisOptions?: RedisConnectionOptions,
+          imageRootPath?: string,
+          project?: string
+        ]
+      : never
+  );
   /**
-   * Get diff image path for a test run
-   * @param runId The unique identifier for the test run
-   * @param storyIdentifier The identifier for the story
-   * @returns Path to the diff image file
+   * Create a storage API backed by a custom storage adapter
+   * @param adapter Metadata and image stores to use
    */
-  private getDiffPath(runId: string, storyIdentifier: StoryIdentifier): string {
-    const imageId = this.getImageId(storyIdentifier);
-
-    return join(this.getRunImageDir(runId), `${imageId}-diff.png`);
+  constructor(adapter: StorageAdapter<TClient>);
+  constructor(
+    redisOptionsOrAdapter?: RedisConnectionOptions | StorageAdapter<TClient>,
+    imageRootPath?: string,
+    project?: string
+  ) {
+    const adapter: StorageAdapter<TClient | RedisConnection> =
+      isStorageAdapter<TClient>(redisOptionsOrAdapter)
+        ? redisOptionsOrAdapter
+        : createDefaultStorageAdapter(
+            redisOptionsOrAdapter,
+            imageRootPath,
+            project
+          );
+
+    this.metadata = adapter.metadata;
+    this.images = adapter.images;
+    this.baselineBranch = process.env.VITE_VISUAL_TEST_BRANCH || undefined;
+    this.baseBranch = process.env.VITE_VISUAL_TEST_BASE_BRANCH || "main";
   }
 
   // ---------------------------
   // Lifecycle
   // ---------------------------
   /**
-   * Connect to Redis client
-   * @param options Redis client configuration options
-   * @returns The Redis client instance
+   * Connect to the metadata store and prepare image storage
+   * Data written by an older schema version is migrated first (see `migrate` and
+   * `autoMigrate`), so legacy runs and baselines stay visible after upgrading the library.
+   * @param options Metadata store connection options (Redis connection options for the default store)
+   * @returns The metadata store client instance
+   * @throws {Error} If the stored data was written by a newer schema version
    */
-  async connect(options?: RedisClientOptions): Promise<RedisClientType> {
-    if (this.client) return this.client;
-
-    const opts = options ?? this.redisOptions;
-
-    if (!opts) {
-      throw new Error("Cannot connect to Redis without 'RedisClientOptions'");
+  connect(options?: RedisConnectionOptions | unknown): Promise<TClient>;
+  async connect(
+    options?: RedisConnectionOptions | unknown
+  ): Promise<TClient | RedisConnection> {
+    const client = await this.metadata.connect(options);
+    await this.images.init();
+
+    const metadataVersion = await this.metadata.getSchemaVersion();
+    const imagesVersion = await this.images.getSchemaVersion();
+
+    assertSupportedSchemaVersion(metadataVersion, "metadata");
+    assertSupportedSchemaVersion(imagesVersion, "image");
+
+    if (
+      this.autoMigrate &&
+      Math.min(metadataVersion, imagesVersion) < SCHEMA_VERSION
+    ) {
+      await this.migrate();
     }
 
-    this.client = (await createClient(opts)) as RedisClientType;
-
-    this.client.on("error", (err: unknown) =>
-      console.error("Redis Client Error", err)
-    );
-
-    await this.client.connect();
-
-    await this.ensureImageStorageDirs();
-
-    return this.client;
+    return client;
   }
 
   /**
-   * Disconnect from Redis client
+   * Disconnect from the metadata store
    */
   async disconnect() {
-    if (!this.client) return;
-
-    await this.client.quit();
-    this.client = null;
-  }
-
-  // ---------------------------
-  // FS helpers
-  // ---------------------------
-  /**
-   * Create image storage directories if they don't exist
-   */
-  private async ensureImageStorageDirs() {
-    await mkdir(this.getBaselineDir(), { recursive: true });
-    await mkdir(this.getRunDir(), { recursive: true });
+    await this.metadata.disconnect();
   }
 
   /**
-   * Create run-specific image directory
-   * @param runId The unique identifier for the test run
+   * List the projects sharing the metadata store
+   * @returns The projects, sorted (the unprefixed, default project is not listed)
    */
-  private async ensureRunImageDir(runId: string) {
-    const dir = this.getRunImageDir(runId);
-    await mkdir(dir, { recursive: true });
-  }
-
-  /**
-   * Save baseline image to filesystem
-   * @param storyIdentifier The identifier for the story
-   * @param buffer The image buffer to save
-   * @returns Path to the saved baseline image
-   */
-  private async saveBaseline(
-    storyIdentifier: StoryIdentifier,
-    buffer: Buffer
-  ): Promise<string> {
-    const filePath = this.getBaselinePath(storyIdentifier);
-    await writeFile(filePath, Buffer.from(buffer));
-    return filePath;
-  }
-
-  /**
-   * Save run image (current or diff) to filesystem
-   * @param runId The unique identifier for the test run
-   * @param storyIdentifier The identifier for the story
-   * @param buffer The image buffer to save
-   * @param type The type of image: "current" or "diff"
-   * @returns Path to the saved image
-   */
-  private async saveRunImage(
-    runId: string,
-    storyIdentifier: StoryIdentifier,
-    buffer: Buffer,
-    type: "current" | "diff"
-  ): Promise<string> {
-    await this.ensureRunImageDir(runId);
-    const filePath =
-      type === "current"
-        ? this.getCurrentPath(runId, storyIdentifier)
-        : this.getDiffPath(runId, storyIdentifier);
-    await writeFile(filePath, Buffer.from(buffer));
-    return filePath;
+  async listProjects(): Promise<string[]> {
+    return this.metadata.listProjects();
   }
 
+  // ---------------------------
+  // Images
+  // ---------------------------
   /**
    * Save image to appropriate location based on type
    * @param runId The unique identifier for the test run
    * @param storyIdentifier The identifier for the story
    * @param buffer The image buffer to save
    * @param type The type of image: "baseline", "current", or "diff"
-   * @returns Path to the saved image
+   * @returns Reference (path) to the saved image
    */
   async saveImage(
     runId: string,
@@ -271,66 +377,177 @@ export class VisualTestStorageAPI {
     buffer: Buffer,
     type: "baseline" | "current" | "diff"
   ): Promise<string> {
-    if (type === "baseline") return this.saveBaseline(storyIdentifier, buffer);
-    return this.saveRunImage(
-      runId,
-      storyIdentifier,
-      buffer,
-      type === "current" ? "current" : "diff"
-    );
+    if (type === "baseline")
+      return this.images.saveBaseline(
+        storyIdentifier,
+        buffer,
+        { runId, acceptedBy: null },
+        this.getBaselineNamespace()
+      );
+    return this.images.saveRunImage(runId, storyIdentifier, buffer, type);
   }
 
   /**
-   * Read image from filesystem
-   * @param filePath Path to the image file
-   * @returns Buffer containing the image data or null if file doesn't exist
+   * Read image from storage
+   * @param ref Reference (path) to the image
+   * @returns Buffer containing the image data or null if it doesn't exist
    */
-  async getImage(filePath: string): Promise<Buffer | null> {
-    try {
-      if (!existsSync(filePath)) return null;
-      return await readFile(filePath);
-    } catch (error) {
-      console.error(`Failed to read image from ${filePath}:`, error);
-      return null;
-    }
+  async getImage(ref: string): Promise<Buffer | null> {
+    return this.images.getImage(ref);
   }
 
   /**
-   * Read current image for runId from filesystem
+   * Read current image for runId from storage
    * @param runId Target runId
    * @param storyIdentifier The storyIdentifier for which to get the current image
-   * @returns Buffer containing the image data or null if file doesn't exist
+   * @returns Buffer containing the image data or null if it doesn't exist
    */
   async getCurrentImage(
     runId: string,
     storyIdentifier: StoryIdentifier
   ): Promise<Buffer | null> {
-    const currentPath = this.getCurrentPath(runId, storyIdentifier);
-    return this.getImage(currentPath);
+    return this.images.getRunImage(runId, storyIdentifier, "current");
   }
 
   /**
-   * Read diff image for runId from filesystem
+   * Read diff image for runId from storage
    * @param runId Target runId
    * @param storyIdentifier The storyIdentifier for which to get the diff image
-   * @returns Buffer containing the image data or null if file doesn't exist
+   * @returns Buffer containing the image data or null if it doesn't exist
    */
   async getDiffImage(
     runId: string,
     storyIdentifier: StoryIdentifier
   ): Promise<Buffer | null> {
-    const diffPath = this.getDiffPath(runId, storyIdentifier);
-    return this.getImage(diffPath);
+    return this.images.getRunImage(runId, storyIdentifier, "diff");
+  }
+
+  /**
+   * Get the image store namespace of a branch
+   * @param branch The git branch (default: `baselineBranch`)
+   * @returns The namespace, or undefined for the base branch
+   */
+  private getBaselineNamespace(branch = this.baselineBranch) {
+    return branch && branch !== this.baseBranch ? branch : undefined;
+  }
+
+  /**
+   * Get the baseline reference of a story, falling back to the base branch
+   * @param storyIdentifier The identifier for the story
+   * @param branch The git branch (default: `baselineBranch`)
+   * @returns Reference to the baseline image or null if there is none
+   */
+  private async getBaselineRef(
+    storyIdentifier: StoryIdentifier,
+    branch?: string
+  ): Promise<string | null> {
+    const namespace = this.getBaselineNamespace(branch);
+
+    return (
+      (namespace &&
+        (await this.images.getBaselineRef(storyIdentifier, namespace))) ||
+      this.images.getBaselineRef(storyIdentifier)
+    );
   }
 
   /**
-   * Get baseline image from filesystem
+   * Get baseline image from storage
+   * Falls back to the base branch baseline when the branch has none of its own.
    * @param storyIdentifier The identifier for the story
+   * @param branch The git branch (default: `baselineBranch`)
    * @returns Buffer containing the baseline image data or null if not found
    */
-  async getBaseline(storyIdentifier: StoryIdentifier): Promise<Buffer | null> {
-    const baselinePath = this.getBaselinePath(storyIdentifier);
-    return this.getImage(baselinePath);
+  async getBaseline(
+    storyIdentifier: StoryIdentifier,
+    branch?: string
+  ): Promise<Buffer | null> {
+    const namespace = this.getBaselineNamespace(branch);
+
+    return (
+      (namespace &&
+        (await this.images.getBaseline(storyIdentifier, namespace))) ||
+      this.images.getBaseline(storyIdentifier)
+    );
+  }
+
+  /**
+   * Package the baselines of a branch into a bundle for test runners
+   *
+   * The bundle holds the baseline each story resolves to on the branch (branch
+   * baseline, or base branch fallback) and a manifest with their SHA-256 hashes.
+   * Runners read it with `BundleImageStore` (see `VITE_VISUAL_TEST_BASELINE_BUNDLE`).
+   *
+   * @param branch The git branch (default: `baselineBranch`)
+   * @returns The bundle content (gzipped tar)
+   */
+  async createBaselineBundle(branch?: string): Promise<Buffer> {
+    const namespace = this.getBaselineNamespace(branch);
+    const stories = new Map<string, StoryIdentifier>();
+
+    for (const storyIdentifier of [
+      ...(await this.images.listBaselines()),
+      ...(namespace ? await this.images.listBaselines(namespace) : []),
+    ]) {
+      stories.set(getImageId(storyIdentifier), storyIdentifier);
+    }
+
+    const baselines: { storyIdentifier: StoryIdentifier; buffer: Buffer }[] =
+      [];
+    for (const storyIdentifier of stories.values()) {
+      const buffer = await this.getBaseline(storyIdentifier, branch);
+      if (buffer) baselines.push({ storyIdentifier, buffer });
+    }
+
+    return packBaselineBundle(baselines, namespace ?? null);
+  }
+
+  /**
+   * List the archived baseline versions of a story
+   * @param storyIdentifier The identifier for the story
+   * @param branch The git branch (default: `baselineBranch`)
+   * @returns Versions, newest first (the active one is flagged)
+   */
+  async listBaselineVersions(
+    storyIdentifier: StoryIdentifier,
+    branch?: string
+  ): Promise<BaselineVersion[]> {
+    return this.images.listBaselineVersions(
+      storyIdentifier,
+      this.getBaselineNamespace(branch)
+    );
+  }
+
+  /**
+   * Restore an archived baseline version as the active baseline
+   * @param storyIdentifier The identifier for the story
+   * @param versionId The version to restore
+   * @param branch The git branch (default: `baselineBranch`)
+   * @returns Reference (path) to the active baseline
+   */
+  async restoreBaselineVersion(
+    storyIdentifier: StoryIdentifier,
+    versionId: string,
+    branch?: string
+  ): Promise<string> {
+    return this.images.restoreBaselineVersion(
+      storyIdentifier,
+      versionId,
+      this.getBaselineNamespace(branch)
+    );
+  }
+
+  /**
+   * Merge the baselines accepted on a branch into the base branch
+   * (e.g. once its pull request is merged)
+   * @param branch The git branch to promote
+   * @returns References (paths) to the updated base baselines
+   */
+  async promoteBaselines(branch: string): Promise<string[]> {
+    const namespace = this.getBaselineNamespace(branch);
+    if (!namespace)
+      throw new Error("Cannot promote the base branch into itself");
+
+    return this.images.promoteBaselines(namespace);
   }
 
   /**
@@ -342,60 +559,75 @@ export class VisualTestStorageAPI {
     runId: string,
     storyIdentifier: StoryIdentifier
   ): Promise<void> {
-    const currentPath = this.getCurrentPath(runId, storyIdentifier);
-    const diffPath = this.getDiffPath(runId, storyIdentifier);
-
-    const fs = await import("fs/promises");
-
-    try {
-      await fs.unlink(currentPath);
-    } catch (e) {
-      /* ignore */
-    }
-    try {
-      await fs.unlink(diffPath);
-    } catch (e) {
-      /* ignore */
-    }
+    await this.images.deleteTestImages(runId, storyIdentifier);
   }
 
   /**
    * Delete baseline image for a story
    * @param storyIdentifier The identifier for the story
+   * @param branch The git branch (default: `baselineBranch`)
    */
-  async deleteBaseline(storyIdentifier: StoryIdentifier): Promise<void> {
-    const baselinePath = this.getBaselinePath(storyIdentifier);
-    try {
-      const fs = await import("fs/promises");
-      await fs.unlink(baselinePath);
-    } catch (error) {
-      // ignore
-    }
+  async deleteBaseline(
+    storyIdentifier: StoryIdentifier,
+    branch?: string
+  ): Promise<void> {
+    await this.images.deleteBaseline(
+      storyIdentifier,
+      this.getBaselineNamespace(branch)
+    );
   }
 
   // ---------------------------
   // Pub/Sub
   // ---------------------------
   /**
-   * Publish event to Redis channels
+   * Publish event to run and global channels
    * @param eventType The type of event to publish
    * @param runId The unique identifier for the test run
    * @param payload The event payload
    */
-  private async publish(eventType: string, runId: string, payload: any) {
-    if (!this.client) throw new Error("Redis not connected");
-
-    const msg: PublishMsg = {
+  private async publish<T extends VisualTestEventType>(
+    eventType: T,
+    runId: string,
+    payload: VisualTestEventPayloads[T]
+  ) {
+    const msg = {
+      version: EVENT_PROTOCOL_VERSION,
       type: eventType,
       runId,
       payload,
       timestamp: Date.now(),
-    };
+    } as VisualTestEvent;
 
-    const pipeline = this.client.multi();
-    pipeline.publish(this.runChannel(runId), JSON.stringify(msg));
-    pipeline.publish(this.GLOBAL_CHANNEL, JSON.stringify(msg));
-    await pipeline.exec();
+    await this.metadata.publish(msg);
+  }
+
+  /**
+   * Read logged events from an offset
+   * Lets a client that connects mid-run rebuild its state from the events it missed:
+   * pass the returned `cursor` as `after` to read the next events.
+   * @param query Run (default: all runs), offset and maximum number of events
+   * @returns The events and the offset to continue from
+   */
+  async readEvents(query: EventLogQuery = {}): Promise<EventLogPage> {
+    return this.metadata.readEvents(query);
+  }
+
+  /**
+   * Replay logged events from an offset, then follow new events as they are published
+   * A listener error ends the tail: it is passed to `onError` and the function stopping
+   * the tail rejects with it.
+   * @param listener Called with every event, in log order
+   * @param query Run (default: all runs) and offset (default: oldest retained event)
+   * @param onError Called with the errors of the tail (e.g. Redis read errors, after which the tail resumes)
+   * @returns Function stopping the tail
+   */
+  async tailEvents(
+    listener: EventLogListener,
+    query: EventLogQuery = {},
+    onError?: EventLogErrorListener
+  ): Promise<() => Promise<void>> {
+    return this.metadata.tailEvents(listener, query, onError);
   }
 
   // ---------------------------
@@ -404,14 +636,19 @@ export class VisualTestStorageAPI {
   /**
    * Start a new visual test run
    * @param testCount The number of tests in this run
+   * @param labels Custom labels to filter runs by (see `queryRuns`)
+   * @param environment Provenance of the run (git, Storybook, browser...) added to the process environment
    * @returns The new visual test run object
    */
-  async startRun(testCount: number): Promise<NewVisualTestRun> {
-    if (!this.client) throw new Error("Redis not connected");
-
+  async startRun(
+    testCount: number,
+    labels?: Record<string, string>,
+    environment?: Partial<RunEnvironment>
+  ): Promise<NewVisualTestRun> {
+    const startedAt = Date.now();
     const newRun: NewVisualTestRun = {
       runId: uuidv7(),
-      startedAt: Date.now(),
+      startedAt,
       summary: {
         total: testCount,
         finished: 0,
@@ -420,15 +657,17 @@ export class VisualTestStorageAPI {
         changed: 0,
         skipped: 0,
         new: 0,
+        unreviewed: 0,
+        rejected: 0,
+        aborted: 0,
       },
-      environment: { ...this.getEnvironment() },
+      environment: { ...this.getEnvironment(), ...environment },
+      ...(labels && { labels }),
+      schemaVersion: SCHEMA_VERSION,
+      heartbeatAt: startedAt,
     };
 
-    const newRunKey = this.runKey(newRun.runId);
-    const pipeline = this.client.multi();
-    pipeline.json.set(newRunKey, "$", newRun);
-    pipeline.sAdd("visualruns:index", newRun.runId);
-    await pipeline.exec();
+    await this.metadata.saveRun(newRun);
 
     await this.publish("run:started", newRun.runId, {
       runId: newRun.runId,
@@ -438,32 +677,33 @@ export class VisualTestStorageAPI {
     return newRun;
   }
 
+  /**
+   * Record that the process recording a run is still alive
+   * Runs without a recent heartbeat are interrupted by `sweepStaleRuns`.
+   * @param runId The unique identifier for the test run
+   * @returns False if the run does not exist
+   */
+  async heartbeat(runId: string): Promise<boolean> {
+    return this.metadata.touchRun(runId, Date.now());
+  }
+
   /**
    * Complete a visual test run
    * @param runId The unique identifier for the test run
    * @param reason The reason for finishing the run (default: "passed")
+   * @param finishedAt End of the run (default: now)
    * @returns The completed visual test run object
    */
   async finishRun(
     runId: string,
-    reason: VisualTestRun["reason"] = "passed"
+    reason: VisualTestRun["reason"] = "passed",
+    finishedAt = Date.now()
   ): Promise<VisualTestRun> {
-    if (!this.client) throw new Error("Redis not connected");
-
-    const key = this.runKey(runId);
-    const now = Date.now();
-
-    const runObj = (await this.client.json.get(key)) as VisualTestRun | null;
+    // Only the end of the run is written, so summary updates of tests finishing
+    // concurrently are kept (and reported by the events below)
+    const runObj = await this.metadata.finishRun(runId, reason, finishedAt);
 
     if (runObj) {
-      runObj.finishedAt = now;
-      runObj.reason = reason;
-      if (runObj.startedAt) runObj.duration = now - runObj.startedAt;
-
-      const pipeline = this.client.multi();
-      pipeline.json.set(key, "$", runObj);
-      await pipeline.exec();
-
       await this.publish("run:finished", runId, {
         runId,
         reason,
@@ -475,8 +715,8 @@ export class VisualTestStorageAPI {
     } else {
       const run: VisualTestRun = {
         runId,
-        startedAt: now,
-        finishedAt: now,
+        startedAt: finishedAt,
+        finishedAt,
         duration: 0,
         reason,
         summary: {
@@ -487,14 +727,15 @@ export class VisualTestStorageAPI {
           changed: 0,
           skipped: 0,
           new: 0,
+          unreviewed: 0,
+          rejected: 0,
+          aborted: 0,
         },
         environment: { ...this.getEnvironment() },
+        schemaVersion: SCHEMA_VERSION,
       };
 
-      const pipeline = this.client.multi();
-      pipeline.json.set(key, "$", run);
-      pipeline.sAdd("visualruns:index", runId);
-      await pipeline.exec();
+      await this.metadata.saveRun(run);
 
       await this.publish("run:finished", runId, {
         runId,
@@ -519,14 +760,9 @@ export class VisualTestStorageAPI {
     runId: string,
     storyIdentifier: StoryIdentifier
   ): Promise<NewStoredVisualTest> {
-    if (!this.client) throw new Error("Redis not connected");
-
-    const key = this.testKeyFor(runId, storyIdentifier);
     const now = Date.now();
 
-    const expectedBaselinePath = this.getBaselinePath(storyIdentifier);
-    const baselineExists = await existsSync(expectedBaselinePath);
-    const baselinePath = baselineExists ? expectedBaselinePath : null;
+    const baselinePath = await this.getBaselineRef(storyIdentifier);
 
     const newTest: NewStoredVisualTest = {
       runId,
@@ -536,12 +772,10 @@ export class VisualTestStorageAPI {
       baseline: baselinePath,
       current: null,
       diff: null,
+      schemaVersion: SCHEMA_VERSION,
     };
 
-    const pipeline = this.client.multi();
-    pipeline.json.set(key, "$", newTest);
-    pipeline.sAdd(this.runTestsSetKey(runId), key);
-    await pipeline.exec();
+    await this.metadata.saveTest(newTest);
 
     await this.publish("test:started", runId, {
       runId,
@@ -554,6 +788,9 @@ export class VisualTestStorageAPI {
 
   /**
    * Update test with new data
+   * Like in `finishTest`, current and diff images are only saved if `imageStoragePolicy`
+   * keeps them for the (updated) status of the test, and the run summary counts the
+   * updated test in place of its previous state.
    * @param runId The unique identifier for the test run
    * @param storyIdentifier The identifier for the story
    * @param partial The partial test update data
@@ -563,12 +800,16 @@ export class VisualTestStorageAPI {
     storyIdentifier: StoryIdentifier,
     partial: VisualTestUpdate
   ) {
-    if (!this.client) throw new Error("Redis not connected");
+    const existing = await this.metadata.getTest(runId, storyIdentifier);
 
-    const key = this.testKeyFor(runId, storyIdentifier);
-    const existing = (await this.client.json.get(
-      key
-    )) as StoredVisualTestResult | null;
+    // Drop the current and diff images the storage policy does not keep
+    const keepImages = keepsRunImages(
+      this.imageStoragePolicy,
+      partial.status ?? existing?.status ?? "running"
+    );
+    const discardedImages: DiscardedImage[] = keepImages
+      ? []
+      : (["current", "diff"] as const).filter((type) => partial[type]);
 
     const imageMetadata: Partial<ImageMetadata> = {};
 
@@ -580,7 +821,7 @@ export class VisualTestStorageAPI {
         "baseline"
       );
     }
-    if (partial.current) {
+    if (partial.current && keepImages) {
       imageMetadata.current = await this.saveImage(
         runId,
         storyIdentifier,
@@ -588,7 +829,7 @@ export class VisualTestStorageAPI {
         "current"
       );
     }
-    if (partial.diff) {
+    if (partial.diff && keepImages) {
       imageMetadata.diff = await this.saveImage(
         runId,
         storyIdentifier,
@@ -603,23 +844,50 @@ export class VisualTestStorageAPI {
       ...(existing || {}),
       ...partialWithoutBuffers,
       ...imageMetadata,
+      storyIdentifier,
       runId,
     };
 
-    const pipeline = this.client.multi();
-    pipeline.json.set(key, "$", merged);
-    pipeline.sAdd(this.runTestsSetKey(runId), key);
-    await pipeline.exec();
+    // A discarded image replaces the previous one, a saved image is no longer discarded
+    for (const type of discardedImages) merged[type] = null;
+    const stillDiscarded = [
+      ...new Set([...(existing?.discardedImages ?? []), ...discardedImages]),
+    ].filter((type) => !imageMetadata[type]);
+
+    if (stillDiscarded.length > 0) {
+      merged.discardedImages = stillDiscarded;
+    } else {
+      delete merged.discardedImages;
+    }
+
+    await this.metadata.saveTest(merged);
+
+    // Replace the contribution of the previous state of the test to the run summary
+    const increments = addSummaryIncrements(
+      getSummaryIncrements({
+        status: merged.status ?? "running",
+        diffRatio: merged.diffRatio ?? null,
+        review: merged.review,
+      }),
+      existing ? getSummaryIncrements(existing) : {},
+      -1
+    );
 
     await this.publish("test:updated", runId, {
       storyIdentifier,
       status: merged.status,
       ...partialWithoutBuffers,
     });
+
+    if (Object.values(increments).some((amount) => amount !== 0)) {
+      await this.updateSummary(runId, increments);
+    }
   }
 
   /**
    * Complete a visual test
+   * Current and diff images are only saved if `imageStoragePolicy` keeps them;
+   * the discarded ones are listed in the `discardedImages` of the stored test.
    * @param runId The unique identifier for the test run
    * @param result The visual test result
    * @returns The updated run object or null if run not found
@@ -637,14 +905,15 @@ export class VisualTestStorageAPI {
       | "message"
     >
   ) {
-    if (!this.client) throw new Error("Redis not connected");
-
-    const key = this.testKeyFor(runId, result.storyIdentifier);
     const finishedAt = Date.now();
 
-    const existing = (await this.client.json.get(
-      key
-    )) as StoredVisualTestResult | null;
+    const existing = await this.metadata.getTest(runId, result.storyIdentifier);
+
+    // Drop the current and diff images the storage policy does not keep
+    const keepImages = keepsRunImages(this.imageStoragePolicy, result.status);
+    const discardedImages: DiscardedImage[] = keepImages
+      ? []
+      : (["current", "diff"] as const).filter((type) => result[type]);
 
     const imageMetadata: ImageMetadata = {
       baseline: result.baseline
@@ -655,22 +924,24 @@ export class VisualTestStorageAPI {
             "baseline"
           )
         : existing?.baseline || null,
-      current: result.current
-        ? await this.saveImage(
-            runId,
-            result.storyIdentifier,
-            result.current,
-            "current"
-          )
-        : null,
-      diff: result.diff
-        ? await this.saveImage(
-            runId,
-            result.storyIdentifier,
-            result.diff,
-            "diff"
-          )
-        : null,
+      current:
+        result.current && keepImages
+          ? await this.saveImage(
+              runId,
+              result.storyIdentifier,
+              result.current,
+              "current"
+            )
+          : null,
+      diff:
+        result.diff && keepImages
+          ? await this.saveImage(
+              runId,
+              result.storyIdentifier,
+              result.diff,
+              "diff"
+            )
+          : null,
     };
 
     const { baseline, current, diff, ...resultWithoutBuffers } = result;
@@ -681,86 +952,267 @@ export class VisualTestStorageAPI {
       ...imageMetadata,
       runId,
       finishedAt,
+      schemaVersion: SCHEMA_VERSION,
     };
 
-    const pipeline = this.client.multi();
-    pipeline.json.set(key, "$", finalObj);
-    pipeline.sAdd(this.runTestsSetKey(runId), key);
-    await pipeline.exec();
+    if (discardedImages.length > 0) {
+      finalObj.discardedImages = discardedImages;
+    } else {
+      delete finalObj.discardedImages;
+    }
 
-    // update run summary
-    const runK = this.runKey(runId);
-    const runObj = (await this.client.json.get(runK)) as VisualTestRun | null;
+    await this.metadata.saveTest(finalObj);
 
-    if (runObj && runObj.summary) {
-      runObj.summary.finished++;
-      await this.client.json.numIncrBy(runK, "summary.finished", 1);
+    // update run summary (replacing the contribution of a previous result of the same test)
+    const runObj = await this.metadata.incrementSummary(
+      runId,
+      addSummaryIncrements(
+        getSummaryIncrements(finalObj),
+        existing ? getSummaryIncrements(existing) : {},
+        -1
+      )
+    );
 
-      if (finalObj.status === "passed") {
-        runObj.summary.passed++;
-        await this.client.json.numIncrBy(runK, "summary.passed", 1);
-      }
-      if (finalObj.status === "failed") {
-        runObj.summary.failed++;
-        await this.client.json.numIncrBy(runK, "summary.failed", 1);
-      }
-      if (finalObj.status === "new") {
-        runObj.summary.new++;
-        await this.client.json.numIncrBy(runK, "summary.new", 1);
-      }
+    await this.publish("test:finished", runId, {
+      storyIdentifier: result.storyIdentifier,
+      status: finalObj.status,
+      diffRatio: finalObj.diffRatio ?? null,
+    });
 
-      await this.publish("test:finished", runId, {
-        storyIdentifier: result.storyIdentifier,
-        status: finalObj.status,
-        diffRatio: finalObj.diffRatio ?? null,
-      });
+    if (runObj) {
       await this.publish("run:summary", runId, { summary: runObj.summary });
-    } else {
-      await this.publish("test:finished", runId, {
-        storyIdentifier: result.storyIdentifier,
-        status: finalObj.status,
-        diffRatio: finalObj.diffRatio ?? null,
-      });
     }
 
     return runObj;
   }
 
+  /**
+   * Promote the current image of a test to baseline and mark the test as passed
+   * @param test The stored test
+   * @param acceptedBy User accepting the baseline
+   * @param branch The git branch to accept the baseline on
+   * @returns Change of the run summary counters
+   */
+  private async promoteCurrentImage(
+    test: StoredVisualTestResult,
+    acceptedBy?: string,
+    branch?: string
+  ): Promise<SummaryIncrements> {
+    const before = getSummaryIncrements(test);
+
+    assertCurrentImageKept(test);
+    if (!test.current) throw new Error("No current image to promote");
+
+    const currentBuffer = await this.images.getImage(test.current);
+    if (!currentBuffer)
+      throw new Error("Current image not found on filesystem");
+
+    test.baseline = await this.images.saveBaseline(
+      test.storyIdentifier,
+      currentBuffer,
+      { runId: test.runId, acceptedBy: acceptedBy ?? null },
+      this.getBaselineNamespace(branch)
+    );
+    test.diff = null;
+    test.diffRatio = null;
+    test.status = "passed";
+    test.review = {
+      decision: "accepted",
+      reviewer: acceptedBy ?? null,
+      comment: null,
+      reviewedAt: Date.now(),
+    };
+
+    await this.metadata.saveTest(test);
+
+    return addSummaryIncrements(getSummaryIncrements(test), before, -1);
+  }
+
+  /**
+   * Record a rejection on a failed or new test (its status is kept)
+   * @param test The stored test
+   * @param review The rejection to record
+   * @returns Change of the run summary counters
+   */
+  private async recordRejection(
+    test: StoredVisualTestResult,
+    review: ReviewDecision
+  ): Promise<SummaryIncrements> {
+    if (test.status !== "failed" && test.status !== "new")
+      throw new Error("Only failed or new tests can be rejected");
+
+    const before = getSummaryIncrements(test);
+    test.review = review;
+
+    await this.metadata.saveTest(test);
+
+    return addSummaryIncrements(getSummaryIncrements(test), before, -1);
+  }
+
+  /**
+   * Apply a change of the run summary and publish the run summary
+   * @param runId The unique identifier for the test run
+   * @param increments Change of the run summary counters
+   */
+  private async updateSummary(runId: string, increments: SummaryIncrements) {
+    const run = await this.metadata.incrementSummary(runId, increments);
+
+    if (run) {
+      await this.publish("run:summary", runId, { summary: run.summary });
+    }
+  }
+
   /**
    * Accept a new baseline
    * @param runId The unique identifier for the test run
    * @param storyIdentifier The identifier for the story
+   * @param acceptedBy User accepting the baseline (recorded in the baseline history)
+   * @param branch The git branch to accept the baseline on (default: `baselineBranch`)
+   * @throws {Error} If the current image was discarded by the image storage policy
    */
-  async acceptBaseline(runId: string, storyIdentifier: StoryIdentifier) {
-    if (!this.client) throw new Error("Redis not connected");
-
-    const key = this.testKeyFor(runId, storyIdentifier);
-    const test = (await this.client.json.get(
-      key
-    )) as StoredVisualTestResult | null;
+  async acceptBaseline(
+    runId: string,
+    storyIdentifier: StoryIdentifier,
+    acceptedBy?: string,
+    branch?: string
+  ) {
+    const test = await this.metadata.getTest(runId, storyIdentifier);
 
     if (!test) throw new Error("Test not found");
-    if (!test.current) throw new Error("No current image to promote");
 
-    const currentBuffer = await this.getImage(test.current);
-    if (!currentBuffer)
-      throw new Error("Current image not found on filesystem");
+    const increments = await this.promoteCurrentImage(test, acceptedBy, branch);
 
-    const newBaselinePath = await this.saveBaseline(
+    await this.publish("baseline:accepted", runId, {
       storyIdentifier,
-      currentBuffer
+      acceptedBy: acceptedBy ?? null,
+    });
+    await this.updateSummary(runId, increments);
+  }
+
+  /**
+   * Accept the baselines of every test of a run matching a filter
+   * Publishes a single `baseline:accepted` event for all accepted tests.
+   * @param runId The unique identifier for the test run
+   * @param filter Tests to accept (default: all failed and new tests)
+   * @param acceptedBy User accepting the baselines (recorded in the baseline history)
+   * @param branch The git branch to accept the baselines on (default: `baselineBranch`)
+   * @returns Identifiers of the accepted tests
+   * @throws {Error} If a matching test's current image was discarded by the image storage policy (nothing is accepted)
+   */
+  async acceptBaselines(
+    runId: string,
+    filter: TestFilter = {},
+    acceptedBy?: string,
+    branch?: string
+  ): Promise<StoryIdentifier[]> {
+    const matching = (await this.metadata.listTestsForRun(runId)).filter(
+      (test) => matchesTestFilter(test, filter)
     );
 
-    test.baseline = newBaselinePath;
-    test.diff = null;
-    test.diffRatio = null;
-    test.status = "passed";
+    // Refuse the whole batch rather than accepting part of it
+    matching.forEach(assertCurrentImageKept);
+    const tests = matching.filter((test) => test.current);
 
-    const pipeline = this.client.multi();
-    pipeline.json.set(key, "$", test);
-    await pipeline.exec();
+    // Each test is counted as soon as it is accepted, so the summary stays exact
+    // if a later one fails
+    let run: VisualTestRun | null = null;
+    for (const test of tests) {
+      run = await this.metadata.incrementSummary(
+        runId,
+        await this.promoteCurrentImage(test, acceptedBy, branch)
+      );
+    }
+
+    const storyIdentifiers = tests.map((test) => test.storyIdentifier);
+    if (storyIdentifiers.length === 0) return storyIdentifiers;
+
+    await this.publish("baseline:accepted", runId, {
+      storyIdentifiers,
+      acceptedBy: acceptedBy ?? null,
+    });
+    if (run) await this.publish("run:summary", runId, { summary: run.summary });
 
-    await this.publish("baseline:accepted", runId, { storyIdentifier });
+    return storyIdentifiers;
+  }
+
+  /**
+   * Reject a failed or new test: its diff is a regression that must be fixed
+   * @param runId The unique identifier for the test run
+   * @param storyIdentifier The identifier for the story
+   * @param reviewer User rejecting the test
+   * @param comment Reviewer comment
+   * @returns The recorded review decision
+   */
+  async rejectBaseline(
+    runId: string,
+    storyIdentifier: StoryIdentifier,
+    reviewer?: string,
+    comment?: string
+  ): Promise<ReviewDecision> {
+    const test = await this.metadata.getTest(runId, storyIdentifier);
+
+    if (!test) throw new Error("Test not found");
+
+    const review: ReviewDecision = {
+      decision: "rejected",
+      reviewer: reviewer ?? null,
+      comment: comment ?? null,
+      reviewedAt: Date.now(),
+    };
+    const increments = await this.recordRejection(test, review);
+
+    await this.publish("baseline:rejected", runId, { storyIdentifier, review });
+    await this.updateSummary(runId, increments);
+
+    return review;
+  }
+
+  /**
+   * Reject every test of a run matching a filter
+   * Publishes a single `baseline:rejected` event for all rejected tests.
+   * @param runId The unique identifier for the test run
+   * @param filter Tests to reject (default: all failed and new tests)
+   * @param reviewer User rejecting the tests
+   * @param comment Reviewer comment
+   * @returns Identifiers of the rejected tests
+   */
+  async rejectBaselines(
+    runId: string,
+    filter: TestFilter = {},
+    reviewer?: string,
+    comment?: string
+  ): Promise<StoryIdentifier[]> {
+    const tests = (await this.metadata.listTestsForRun(runId)).filter(
+      (test) =>
+        (test.status === "failed" || test.status === "new") &&
+        matchesTestFilter(test, filter)
+    );
+
+    const review: ReviewDecision = {
+      decision: "rejected",
+      reviewer: reviewer ?? null,
+      comment: comment ?? null,
+      reviewedAt: Date.now(),
+    };
+    // Counted per test, like in `acceptBaselines`
+    let run: VisualTestRun | null = null;
+    for (const test of tests) {
+      run = await this.metadata.incrementSummary(
+        runId,
+        await this.recordRejection(test, review)
+      );
+    }
+
+    const storyIdentifiers = tests.map((test) => test.storyIdentifier);
+    if (storyIdentifiers.length === 0) return storyIdentifiers;
+
+    await this.publish("baseline:rejected", runId, {
+      storyIdentifiers,
+      review,
+    });
+    if (run) await this.publish("run:summary", runId, { summary: run.summary });
+
+    return storyIdentifiers;
   }
 
   // ---------------------------
@@ -772,11 +1224,7 @@ export class VisualTestStorageAPI {
    * @returns The visual test run object or null if not found
    */
   async getRun(runId: string): Promise<VisualTestRun | null> {
-    if (!this.client) throw new Error("Redis not connected");
-
-    return (await this.client.json.get(
-      this.runKey(runId)
-    )) as VisualTestRun | null;
+    return this.metadata.getRun(runId);
   }
 
   /**
@@ -789,11 +1237,7 @@ export class VisualTestStorageAPI {
     runId: string,
     storyIdentifier: StoryIdentifier
   ): Promise<StoredVisualTestResult | null> {
-    if (!this.client) throw new Error("Redis not connected");
-
-    const key = this.testKeyFor(runId, storyIdentifier);
-
-    return (await this.client.json.get(key)) as StoredVisualTestResult | null;
+    return this.metadata.getTest(runId, storyIdentifier);
   }
 
   /**
@@ -802,42 +1246,486 @@ export class VisualTestStorageAPI {
    * @returns Array of stored visual test results for the run
    */
   async listTestsForRun(runId: string): Promise<StoredVisualTestResult[]> {
-    if (!this.client) throw new Error("Redis not connected");
+    return this.metadata.listTestsForRun(runId);
+  }
+
+  /**
+   * Get the results of a story across runs
+   *
+   * Useful to find the run in which a regression first appeared: each entry has the
+   * status and diff ratio of the story in a run, plus references to its current and
+   * diff images (readable with `getImage`).
+   *
+   * @param storyIdentifier The identifier for the story
+   * @param limit Maximum number of runs to return
+   * @returns History entries, newest first
+   */
+  async getStoryHistory(
+    storyIdentifier: StoryIdentifier,
+    limit = DEFAULT_STORY_HISTORY_SIZE
+  ): Promise<StoryHistoryEntry[]> {
+    const tests = await this.metadata.listTestsForStory(storyIdentifier, limit);
+
+    return tests.map((test) => ({
+      runId: test.runId,
+      status: test.status,
+      diffRatio: test.diffRatio ?? null,
+      message: test.message,
+      current: test.current ?? null,
+      diff: test.diff ?? null,
+      review: test.review ?? null,
+      startedAt: test.startedAt,
+      finishedAt: test.finishedAt,
+    }));
+  }
 
-    const members = await this.client.sMembers(this.runTestsSetKey(runId));
+  /**
+   * Get all saved runs
+   * @returns Array of all visual test runs, newest first
+   */
+  async listAllRuns(): Promise<VisualTestRun[]> {
+    return this.metadata.listRuns();
+  }
 
-    if (!members || members.length === 0) return [];
+  /**
+   * Get a page of runs, newest first
+   * @param query Filters (reason, date range, CI, labels), page size and cursor
+   * @returns The runs of the page and the cursor of the next one
+   */
+  async queryRuns(query: RunQuery = {}): Promise<RunPage> {
+    return this.metadata.queryRuns(query);
+  }
 
-    const pipeline = this.client.multi();
-    for (const m of members) pipeline.json.get(m);
-    const res = await pipeline.exec();
+  // ---------------------------
+  // Archives
+  // ---------------------------
+  /**
+   * Export a run as a self-contained archive (gzipped tar)
+   *
+   * The archive holds a `manifest.json`, the run (`run.json`), its tests (`tests.json`)
+   * and their baseline, current and diff images (`images/`). Restore it with `importRun`.
+   *
+   * @param runId The unique identifier for the test run
+   * @returns The archive content
+   */
+  async exportRun(runId: string): Promise<Buffer> {
+    const run = await this.metadata.getRun(runId);
+    if (!run) throw new Error(`Run ${runId} not found`);
+
+    const tests = await this.metadata.listTestsForRun(runId);
+    const manifest: RunArchiveManifest = {
+      format: RUN_ARCHIVE_FORMAT,
+      version: RUN_ARCHIVE_VERSION,
+      exportedAt: Date.now(),
+      runId,
+      tests: [],
+    };
+    const imageEntries: TarEntry[] = [];
+
+    for (const test of tests) {
+      const images: RunArchiveManifest["tests"][number]["images"] = {};
+
+      for (const type of ["baseline", "current", "diff"] as const) {
+        const ref = test[type];
+        const buffer = ref ? await this.images.getImage(ref) : null;
+        if (!buffer) continue;
+
+        const name = `images/${getImageId(test.storyIdentifier)}-${type}.png`;
+        imageEntries.push({ name, content: buffer });
+        images[type] = name;
+      }
+
+      manifest.tests.push({ storyIdentifier: test.storyIdentifier, images });
+    }
 
-    return (res || []).filter(Boolean) as unknown as StoredVisualTestResult[];
+    const json = (value: unknown) =>
+      Buffer.from(JSON.stringify(value, null, 2));
+
+    return gzipAsync(
+      packTar([
+        { name: "manifest.json", content: json(manifest) },
+        { name: "run.json", content: json(run) },
+        { name: "tests.json", content: json(tests) },
+        ...imageEntries,
+      ])
+    );
   }
 
   /**
-   * Get all saved runs
-   * @returns Array of all visual test runs
+   * Import a run archive created by `exportRun`
+   *
+   * The run keeps its identifier, summary and review decisions. Images are saved as
+   * run images of the imported run (baselines included, so the active baselines of
+   * this storage are left untouched) and test image references point to them.
+   *
+   * @param archive The archive content
+   * @returns The imported run
    */
-  async listAllRuns(): Promise<VisualTestRun[]> {
-    if (!this.client) throw new Error("Redis not connected");
+  async importRun(archive: Buffer): Promise<VisualTestRun> {
+    const files = new Map(
+      unpackTar(await gunzipAsync(archive)).map(({ name, content }) => [
+        name,
+        content,
+      ])
+    );
+    const readJson = <T>(name: string): T => {
+      const content = files.get(name);
+      if (!content) throw new Error(`Invalid run archive: missing ${name}`);
+      return JSON.parse(content.toString("utf-8")) as T;
+    };
+
+    const manifest = readJson<RunArchiveManifest>("manifest.json");
+    if (
+      manifest.format !== RUN_ARCHIVE_FORMAT ||
+      manifest.version > RUN_ARCHIVE_VERSION
+    ) {
+      throw new Error(
+        `Unsupported run archive: ${manifest.format} v${manifest.version}`
+      );
+    }
+
+    const run = readJson<VisualTestRun>("run.json");
+    const tests = readJson<StoredVisualTestResult[]>("tests.json");
+
+    if (await this.metadata.getRun(run.runId)) {
+      throw new Error(`Run ${run.runId} already exists`);
+    }
+
+    await this.metadata.saveRun(run);
+
+    for (const test of tests) {
+      const imageId = getImageId(test.storyIdentifier);
+      const images = manifest.tests.find(
+        (entry) => getImageId(entry.storyIdentifier) === imageId
+      )?.images;
+      const refs: ImageMetadata = { baseline: null, current: null, diff: null };
+
+      for (const type of ["baseline", "current", "diff"] as const) {
+        const buffer = images?.[type] ? files.get(images[type]) : undefined;
+        if (!buffer) continue;
+
+        refs[type] = await this.images.saveRunImage(
+          run.runId,
+          test.storyIdentifier,
+          buffer,
+          type
+        );
+      }
+
+      await this.metadata.saveTest({ ...test, ...refs, runId: run.runId });
+    }
+
+    await this.publish("run:imported", run.runId, {
+      runId: run.runId,
+      testCount: tests.length,
+    });
+
+    return run;
+  }
+
+  // ---------------------------
+  // Maintenance
+  // ---------------------------
+  /**
+   * Move data stored under legacy, unencoded story identifiers to their encoded keys
+   *
+   * Story ids and themes are encoded in file names and keys (so `../`, `/` or `:` can't
+   * escape the image root or collide with other keys). Ids made of letters, digits,
+   * `-` and `_` are unchanged; run this once after upgrading if other ids were used.
+   *
+   * @returns Number of re-keyed tests and moved baselines
+   */
+  async migrateStoryIdentifiers(): Promise<IdMigrationReport> {
+    return {
+      tests: await this.metadata.migrateTestKeys(),
+      baselines: await this.images.migrateImageIds(),
+    };
+  }
+
+  /**
+   * Upgrade the stored metadata and images to the schema version of this library
+   *
+   * Applies the steps of `SCHEMA_MIGRATIONS` newer than the version recorded by each
+   * store, in order, and records the version reached after each step. Steps are
+   * idempotent: an interrupted migration can be run again.
+   *
+   * @param options With `dryRun`, only list the pending steps
+   * @returns Report of the applied (or pending) steps
+   * @throws {Error} If the stored data was written by a newer schema version
+   */
+  async migrate(
+    options: { dryRun?: boolean } = {}
+  ): Promise<SchemaMigrationReport> {
+    const dryRun = options.dryRun ?? false;
+    const metadataVersion = await this.metadata.getSchemaVersion();
+    const imagesVersion = await this.images.getSchemaVersion();
+
+    assertSupportedSchemaVersion(metadataVersion, "metadata");
+    assertSupportedSchemaVersion(imagesVersion, "image");
+
+    const from = Math.min(metadataVersion, imagesVersion);
+    const report: SchemaMigrationReport = {
+      from,
+      to: SCHEMA_VERSION,
+      steps: [],
+      dryRun,
+    };
+
+    for (const { version, description } of SCHEMA_MIGRATIONS) {
+      if (version <= from) continue;
+
+      const step = { version, description, documents: 0, images: 0 };
+      report.steps.push(step);
+      if (dryRun) continue;
+
+      if (version > metadataVersion) {
+        step.documents = await this.metadata.migrateSchema(version);
+        await this.metadata.setSchemaVersion(version);
+      }
+      if (version > imagesVersion) {
+        step.images = await this.images.migrateSchema(version);
+        await this.images.setSchemaVersion(version);
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * Delete runs according to a retention policy
+   *
+   * Removes the run documents, their test documents and run test sets, the run index
+   * entries and the run image folders together. Runs still in progress are never pruned.
+   *
+   * @param policy Retention policy (at least one of `olderThanDays` or `keepLast` is required)
+   * @returns Report of the pruned runs and freed storage
+   */
+  async pruneRuns(policy: RetentionPolicy): Promise<PruneReport> {
+    const { olderThanDays, keepLast, keepUnreviewedFailures, dryRun } = policy;
+
+    if (olderThanDays === undefined && keepLast === undefined) {
+      throw new Error(
+        "Retention policy requires 'olderThanDays' and/or 'keepLast'"
+      );
+    }
+
+    const cutoff =
+      olderThanDays !== undefined
+        ? Date.now() - olderThanDays * 24 * 60 * 60 * 1000
+        : null;
+
+    const runs = (await this.metadata.listRuns()).sort(
+      (a, b) => b.startedAt - a.startedAt
+    );
+
+    const report: PruneReport = {
+      runIds: [],
+      tests: 0,
+      images: 0,
+      bytes: 0,
+      dryRun: Boolean(dryRun),
+    };
+
+    for (const [index, run] of runs.entries()) {
+      if (!run.finishedAt) continue;
+
+      const isExpired =
+        (cutoff !== null && run.startedAt < cutoff) ||
+        (keepLast !== undefined && index >= keepLast);
+      if (!isExpired) continue;
+
+      const tests = await this.metadata.listTestsForRun(run.runId);
+
+      // Failed and new tests without a review decision (the `unreviewed` counter)
+      if (
+        keepUnreviewedFailures &&
+        tests.some((test) => getSummaryIncrements(test).unreviewed)
+      ) {
+        continue;
+      }
+
+      const usage = await this.images.deleteRunImages(run.runId, dryRun);
+      report.tests += dryRun
+        ? tests.length
+        : await this.metadata.deleteRun(run.runId);
+      report.images += usage.files;
+      report.bytes += usage.bytes;
+      report.runIds.push(run.runId);
+    }
+
+    return report;
+  }
+
+  /**
+   * Check that the metadata and the stored images agree, like `fsck`
+   *
+   * Walks the run index and every test document to find test references to images
+   * that are not stored, run images no test references (runs in progress are skipped)
+   * and baselines of stories that no longer exist. Nothing is changed unless
+   * `repair` (clear the dangling references) or `clean` (delete the orphaned images
+   * and stale baselines) is set.
+   *
+   * @param options Repairs to apply, existing stories and checked branch
+   * @returns Report of the inconsistencies found (and fixed)
+   */
+  async checkConsistency(
+    options: ConsistencyCheckOptions = {}
+  ): Promise<ConsistencyReport> {
+    const repair = options.repair ?? false;
+    const clean = options.clean ?? false;
+    const runs = await this.metadata.listRuns();
+    const report: ConsistencyReport = {
+      runs: runs.length,
+      tests: 0,
+      missingImages: [],
+      orphanedImages: [],
+      staleBaselines: [],
+      repaired: repair,
+      cleaned: clean,
+    };
+
+    const stored = new Map<string, boolean>();
+    const referenced = new Map<string, Set<string>>();
+    const testedStories = new Set<string>();
+
+    for (const run of runs) {
+      const refs = new Set<string>();
+      referenced.set(run.runId, refs);
+
+      for (const test of await this.metadata.listTestsForRun(run.runId)) {
+        report.tests++;
+        testedStories.add(getImageId(test.storyIdentifier));
+
+        const missing: (keyof ImageMetadata)[] = [];
+        for (const type of ["baseline", "current", "diff"] as const) {
+          const ref = test[type];
+          if (!ref) continue;
+
+          refs.add(ref);
+          if (!stored.has(ref))
+            stored.set(ref, await this.images.hasImage(ref));
+          if (stored.get(ref)) continue;
+
+          missing.push(type);
+          report.missingImages.push({
+            runId: run.runId,
+            storyIdentifier: test.storyIdentifier,
+            type,
+            ref,
+          });
+        }
+
+        if (repair && missing.length > 0) {
+          for (const type of missing) test[type] = null;
+          await this.metadata.saveTest(test);
+        }
+      }
+    }
+
+    const runsInProgress = new Set(
+      runs.filter((run) => !run.finishedAt).map((run) => run.runId)
+    );
+
+    for (const [runId, refs] of Object.entries(
+      await this.images.listRunImages()
+    )) {
+      if (runsInProgress.has(runId)) continue;
+
+      for (const ref of refs) {
+        if (referenced.get(runId)?.has(ref)) continue;
+
+        report.orphanedImages.push({ runId, ref });
+        if (clean) await this.images.deleteRunImage(runId, ref);
+      }
+    }
+
+    // Without tests nor a story list, every baseline would look stale
+    if (!options.stories && testedStories.size === 0) return report;
+
+    const namespace = this.getBaselineNamespace(options.branch);
+    const existingStories = options.stories
+      ? new Set(options.stories.map((s) => getImageId(s)))
+      : testedStories;
+
+    for (const storyIdentifier of await this.images.listBaselines(namespace)) {
+      if (existingStories.has(getImageId(storyIdentifier))) continue;
 
-    const ids = await this.client.sMembers("visualruns:index");
+      report.staleBaselines.push(storyIdentifier);
+      if (clean) await this.images.deleteBaseline(storyIdentifier, namespace);
+    }
+
+    return report;
+  }
+
+  /**
+   * Interrupt the runs whose recording process stopped sending heartbeats
+   *
+   * A run is stale when it has no `finishedAt` and its last heartbeat (or start) is
+   * older than `staleAfterMs`, e.g. because the vitest process was killed before
+   * `finishRun`. Its running tests are marked as aborted (counted in the `aborted`
+   * summary counter) and the run is finished with the "interrupted" reason at its
+   * last heartbeat, publishing `test:finished` and `run:finished` events.
+   * The run is only interrupted if it is unchanged when the metadata store updates
+   * it (see `MetadataStore.interruptRun`), so a heartbeat or `finishRun` racing the
+   * sweep wins, and tests finished or restarted meanwhile are left untouched.
+   *
+   * @param options Staleness threshold and dry run
+   * @returns Report of the interrupted runs and aborted tests
+   */
+  async sweepStaleRuns(options: StaleRunOptions = {}): Promise<StaleRunReport> {
+    const dryRun = options.dryRun ?? false;
+    const cutoff = Date.now() - (options.staleAfterMs ?? DEFAULT_STALE_RUN_MS);
+    const report: StaleRunReport = { runIds: [], tests: 0, dryRun };
 
-    if (!ids || ids.length === 0) return [];
+    for (const run of await this.metadata.listRuns()) {
+      const lastHeartbeat = run.heartbeatAt ?? run.startedAt;
+      if (run.finishedAt || lastHeartbeat >= cutoff) continue;
 
-    const pipeline = this.client.multi();
-    for (const id of ids) pipeline.json.get(this.runKey(id));
-    const res = await pipeline.exec();
+      const running = (await this.metadata.listTestsForRun(run.runId)).filter(
+        (test) => test.status === "running"
+      );
+      if (dryRun) {
+        report.runIds.push(run.runId);
+        report.tests += running.length;
+        continue;
+      }
+
+      // Skipped if a heartbeat or the end of the run was recorded since it was read
+      const interrupted = await this.metadata.interruptRun(
+        run.runId,
+        lastHeartbeat,
+        running
+      );
+      if (!interrupted) continue;
+
+      report.runIds.push(run.runId);
+      report.tests += interrupted.tests.length;
+
+      for (const test of interrupted.tests) {
+        await this.publish("test:finished", run.runId, {
+          storyIdentifier: test.storyIdentifier,
+          status: "aborted",
+          diffRatio: test.diffRatio ?? null,
+        });
+      }
 
-    return (res || []).filter(Boolean) as unknown as VisualTestRun[];
+      const { summary } = interrupted.run;
+      await this.publish("run:finished", run.runId, {
+        runId: run.runId,
+        reason: "interrupted",
+        summary,
+      });
+      await this.publish("run:summary", run.runId, { summary });
+    }
+
+    return report;
   }
 
   /**
    * Helper to get the test environment
    * @returns Environment information for the test run
    */
-  private getEnvironment(): VisualTestRun["environment"] {
+  private getEnvironment(): RunEnvironment {
     return {
       nodeVersion: process.version,
       platform: process.platform,
@@ -849,17 +1737,25 @@ export class VisualTestStorageAPI {
    * Static method to get a singleton instance of the VisualTestStorageAPI without redis connection.
    * Enables vitest server commands to get baselines from the Filesystem.
    *
-   * (Ultimately the bridge/orchestrator is going to take full authority on storage
-   * and send the runner what it needs to run tests 'baselines.zip')
+   * When `VITE_VISUAL_TEST_BASELINE_BUNDLE` points to a baseline bundle (file or unpacked
+   * directory, see `createBaselineBundle`), baselines are read from it instead, so runners
+   * don't need the shared `baselines/` directory.
    *
    * @param imageRootPath
    * @returns
    */
-  static getFileStorageOnlyApi(imageRootPath?: string): VisualTestStorageAPI {
+  static getFileStorageOnlyApi(imageRootPath?: string): FileStorageOnlyApi {
     if (storageOnlyApiSingleton) {
       return storageOnlyApiSingleton;
     }
 
+    const bundlePath = process.env.VITE_VISUAL_TEST_BASELINE_BUNDLE;
+    if (!imageRootPath && bundlePath) {
+      return VisualTestStorageAPI.setFileStorageOnlyApi(
+        new BundleImageStore(bundlePath)
+      );
+    }
+
     const imageRootDirectory =
       imageRootPath ||
       process.env.VITE_VISUAL_TEST_IMAGES_PATH ||
@@ -872,4 +1768,20 @@ export class VisualTestStorageAPI {
 
     return storageOnlyApiSingleton;
   }
+
+  /**
+   * Replace the singleton returned by `getFileStorageOnlyApi` with one backed by a custom image store.
+   * Used by `simpleVisualTests()` so server commands read baselines from the configured adapter.
+   *
+   * @param images Image store to read baselines from
+   * @returns The new singleton instance
+   */
+  static setFileStorageOnlyApi(images: ImageStore): FileStorageOnlyApi {
+    storageOnlyApiSingleton = new VisualTestStorageAPI({
+      metadata: new RedisMetadataStore(),
+      images,
+    });
+
+    return storageOnlyApiSingleton;
+  }
 }
@@ -0,0 +1,227 @@
+/**
+ * Baseline bundles
+ *
+ * A bundle packages the baseline set of a branch into one gzipped tar with a
+ * hash manifest (`manifest.json` + `baselines/{imageId}.png`), so test runners on
+ * ephemeral machines can compare snapshots without shared storage. Runners read
+ * it in memory (`fromArchive`) or unpacked with `tar -xzf` (`fromDirectory`);
+ * every baseline is checked against its manifest hash when read.
+ */
+
+import { createHash } from "crypto";
+import { existsSync } from "fs";
+import { readFile, stat } from "fs/promises";
+import { join } from "path";
+import { promisify } from "util";
+import { gunzip, gzip } from "zlib";
+import type {
+  BaselineBundleManifest,
+  StoryIdentifier,
+} from "../types/index.js";
+import { getImageId } from "./imageId.js";
+import { packTar, unpackTar } from "./tarArchive.js";
+
+/**
+ * Format identifier and version written in bundle manifests
+ */
+const BUNDLE_FORMAT = "simple-visual-tests/baselines";
+const BUNDLE_VERSION = 1;
+
+const MANIFEST_FILE = "manifest.json";
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+/**
+ * Compute the SHA-256 of a buffer
+ * @param buffer Content to hash
+ * @returns Hex digest
+ */
+const sha256 = (buffer: Buffer) =>
+  createHash("sha256").update(buffer).digest("hex");
+
+/**
+ * Get the path of a baseline inside a bundle
+ * @param storyIdentifier The identifier for the story
+ * @returns Bundle path of the baseline image
+ */
+const getBundleFile = (storyIdentifier: StoryIdentifier) =>
+  `baselines/${getImageId(storyIdentifier)}.png`;
+
+/**
+ * Create a baseline bundle
+ * @param baselines Baseline image of each story
+ * @param branch Branch the baselines were resolved for (null for the base branch)
+ * @returns The bundle content (gzipped tar)
+ */
+export const packBaselineBundle = async (
+  baselines: { storyIdentifier: StoryIdentifier; buffer: Buffer }[],
+  branch: string | null
+): Promise<Buffer> => {
+  const files = baselines
+    .map(({ storyIdentifier, buffer }) => ({
+      storyIdentifier,
+      file: getBundleFile(storyIdentifier),
+      sha256: sha256(buffer),
+      size: buffer.length,
+      buffer,
+    }))
+    .sort((a, b) => a.file.localeCompare(b.file));
+
+  const manifest: BaselineBundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    hash: sha256(
+      Buffer.from(files.map((f) => `${f.file}:${f.sha256}`).join("\n"))
+    ),
+    createdAt: Date.now(),
+    branch,
+    baselines: files.map(({ buffer, ...entry }) => entry),
+  };
+
+  return gzipAsync(
+    packTar([
+      {
+        name: MANIFEST_FILE,
+        content: Buffer.from(JSON.stringify(manifest, null, 2)),
+      },
+      ...files.map(({ file, buffer }) => ({ name: file, content: buffer })),
+    ])
+  );
+};
+
+/**
+ * Read-only access to the baselines of a bundle
+ */
+export class BaselineBundle {
+  readonly manifest: BaselineBundleManifest;
+  private readonly entries: Map<
+    string,
+    BaselineBundleManifest["baselines"][number]
+  >;
+  private readonly readBundleFile: (file: string) => Promise<Buffer | null>;
+
+  private constructor(
+    manifest: BaselineBundleManifest,
+    readBundleFile: (file: string) => Promise<Buffer | null>
+  ) {
+    if (
+      manifest.format !== BUNDLE_FORMAT ||
+      manifest.version > BUNDLE_VERSION
+    ) {
+      throw new Error(
+        `Unsupported baseline bundle: ${manifest.format} v${manifest.version}`
+      );
+    }
+
+    this.manifest = manifest;
+    this.readBundleFile = readBundleFile;
+    this.entries = new Map();
+
+    for (const entry of manifest.baselines) {
+      // Only read the files the manifest is allowed to reference
+      if (entry.file !== getBundleFile(entry.storyIdentifier)) {
+        throw new Error(`Invalid baseline bundle entry: ${entry.file}`);
+      }
+      this.entries.set(entry.file, entry);
+    }
+  }
+
+  /**
+   * Load a bundle in memory
+   * @param archive The bundle content (gzipped tar)
+   * @returns The bundle
+   */
+  static async fromArchive(archive: Buffer): Promise<BaselineBundle> {
+    const files = new Map(
+      unpackTar(await gunzipAsync(archive)).map(({ name, content }) => [
+        name,
+        content,
+      ])
+    );
+
+    const manifest = files.get(MANIFEST_FILE);
+    if (!manifest) {
+      throw new Error(`Invalid baseline bundle: missing ${MANIFEST_FILE}`);
+    }
+
+    return new BaselineBundle(
+      JSON.parse(manifest.toString("utf-8")) as BaselineBundleManifest,
+      async (file) => files.get(file) ?? null
+    );
+  }
+
+  /**
+   * Open an unpacked bundle (e.g. extracted with `tar -xzf`)
+   * @param dir Directory holding `manifest.json` and `baselines/`
+   * @returns The bundle
+   */
+  static async fromDirectory(dir: string): Promise<BaselineBundle> {
+    const manifest = await readFile(join(dir, MANIFEST_FILE), "utf-8");
+
+    return new BaselineBundle(
+      JSON.parse(manifest) as BaselineBundleManifest,
+      async (file) => {
+        const path = join(dir, file);
+        return existsSync(path) ? readFile(path) : null;
+      }
+    );
+  }
+
+  /**
+   * Load a bundle from a bundle file or an unpacked bundle directory
+   * @param path Path to the bundle
+   * @returns The bundle
+   */
+  static async load(path: string): Promise<BaselineBundle> {
+    return (await stat(path)).isDirectory()
+      ? BaselineBundle.fromDirectory(path)
+      : BaselineBundle.fromArchive(await readFile(path));
+  }
+
+  /**
+   * List the stories having a baseline in the bundle
+   * @returns Story identifiers of the baselines
+   */
+  listBaselines(): StoryIdentifier[] {
+    return [...this.entries.values()].map((entry) => entry.storyIdentifier);
+  }
+
+  /**
+   * Get the bundle path of the baseline of a story
+   * @param storyIdentifier The identifier for the story
+   * @returns Bundle path of the baseline or null if the bundle has none
+   */
+  getBaselineRef(storyIdentifier: StoryIdentifier): string | null {
+    const file = getBundleFile(storyIdentifier);
+    return this.entries.has(file) ? file : null;
+  }
+
+  /**
+   * Read a baseline of the bundle, checking its hash
+   * @param file Bundle path of the baseline
+   * @returns Image buffer or null if the bundle has no such baseline
+   */
+  async read(file: string): Promise<Buffer | null> {
+    const entry = this.entries.get(file);
+    if (!entry) return null;
+
+    const buffer = await this.readBundleFile(file);
+    if (!buffer) return null;
+
+    if (sha256(buffer) !== entry.sha256) {
+      throw new Error(`Baseline bundle integrity check failed for ${file}`);
+    }
+
+    return buffer;
+  }
+
+  /**
+   * Read the baseline of a story
+   * @param storyIdentifier The identifier for the story
+   * @returns Image buffer or null if the bundle has no baseline for the story
+   */
+  async getBaseline(storyIdentifier: StoryIdentifier): Promise<Buffer | null> {
+    return this.read(getBundleFile(storyIdentifier));
+  }
+}
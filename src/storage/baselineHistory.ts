@@ -0,0 +1,89 @@
+/**
+ * Baseline version history helpers shared by image stores
+ *
+ * Each story baseline has a manifest listing its archived versions and which
+ * one is active. Image stores persist the manifest and version images next to
+ * their baselines (`baseline-history/{imageId}/`), and drop the oldest versions
+ * beyond the configured history limit.
+ */
+
+import { v7 as uuidv7 } from "uuid";
+import type { BaselineSource, BaselineVersion } from "../types/index.js";
+
+/**
+ * Persisted baseline history of a story
+ */
+export type BaselineHistoryManifest = {
+  activeVersionId: string | null;
+  versions: Omit<BaselineVersion, "active">[];
+};
+
+/**
+ * Create an empty manifest
+ * @returns Manifest without versions
+ */
+export const emptyBaselineHistory = (): BaselineHistoryManifest => ({
+  activeVersionId: null,
+  versions: [],
+});
+
+/**
+ * Create the metadata of a new baseline version
+ * @param source Origin of the baseline
+ * @returns Version metadata without image reference
+ */
+export const createBaselineVersion = (
+  source?: BaselineSource
+): Omit<BaselineVersion, "active" | "ref"> => ({
+  versionId: uuidv7(),
+  createdAt: Date.now(),
+  runId: source?.runId ?? null,
+  acceptedBy: source?.acceptedBy ?? null,
+});
+
+/**
+ * List the versions of a manifest, newest first (uuidv7 ids are time-ordered), with their active flag
+ * @param manifest Baseline history manifest
+ * @returns Baseline versions
+ */
+export const listBaselineVersions = (
+  manifest: BaselineHistoryManifest
+): BaselineVersion[] =>
+  [...manifest.versions]
+    .sort((a, b) => b.versionId.localeCompare(a.versionId))
+    .map((version) => ({
+      ...version,
+      active: version.versionId === manifest.activeVersionId,
+    }));
+
+/**
+ * Get the maximum number of versions kept in the history of each baseline
+ * @param limit Configured limit
+ * @returns The limit (`VITE_VISUAL_TEST_BASELINE_HISTORY_LIMIT` by default), Infinity to keep every version
+ */
+export const getBaselineHistoryLimit = (limit?: number) =>
+  limit ||
+  Number(process.env.VITE_VISUAL_TEST_BASELINE_HISTORY_LIMIT) ||
+  Infinity;
+
+/**
+ * Drop the oldest versions of a manifest beyond a limit (the active version is always kept)
+ * @param manifest Baseline history manifest, updated in place
+ * @param limit Maximum number of versions to keep
+ * @returns The dropped versions, whose images can be deleted
+ */
+export const pruneBaselineHistory = (
+  manifest: BaselineHistoryManifest,
+  limit: number
+): BaselineHistoryManifest["versions"] => {
+  const inactive = listBaselineVersions(manifest).filter((v) => !v.active);
+  const kept = Math.max(limit - (manifest.activeVersionId ? 1 : 0), 0);
+  const expired = new Set(inactive.slice(kept).map((v) => v.versionId));
+
+  const dropped = manifest.versions.filter((v) => expired.has(v.versionId));
+  manifest.versions = manifest.versions.filter(
+    (v) => !expired.has(v.versionId)
+  );
+
+  return dropped;
+};
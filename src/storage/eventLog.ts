@@ -0,0 +1,52 @@
+/**
+ * Event log helpers shared by metadata stores
+ *
+ * Every published event is also appended to a per-run and a global log so
+ * clients connecting mid-run can replay earlier events before following new ones.
+ * Event offsets use the Redis stream entry id format (`{ms}-{seq}`).
+ */
+
+import type { LoggedEvent } from "../types/index.js";
+
+/**
+ * Default number of events returned by an event log read
+ */
+export const DEFAULT_EVENT_PAGE_SIZE = 100;
+
+/**
+ * Default maximum number of events retained by each event log
+ */
+export const DEFAULT_EVENT_LOG_MAX_LENGTH = 10_000;
+
+/**
+ * Listener of events read from an event log
+ */
+export type EventLogListener = (event: LoggedEvent) => void;
+
+/**
+ * Listener of the errors of an event log tail
+ */
+export type EventLogErrorListener = (error: unknown) => void;
+
+/**
+ * Get the maximum number of events retained by each event log
+ * @param maxLength Configured maximum length
+ * @returns The maximum length (`VITE_VISUAL_TEST_EVENT_LOG_MAX_LENGTH` or 10000 by default)
+ */
+export const getEventLogMaxLength = (maxLength?: number) =>
+  maxLength ||
+  Number(process.env.VITE_VISUAL_TEST_EVENT_LOG_MAX_LENGTH) ||
+  DEFAULT_EVENT_LOG_MAX_LENGTH;
+
+/**
+ * Compare two event offsets
+ * @param a An event offset
+ * @param b Another event offset
+ * @returns Negative if `a` is before `b`, positive if after, 0 if equal
+ */
+export const compareEventIds = (a: string, b: string) => {
+  const [aMs = 0, aSeq = 0] = a.split("-").map(Number);
+  const [bMs = 0, bSeq = 0] = b.split("-").map(Number);
+
+  return aMs - bMs || aSeq - bSeq;
+};
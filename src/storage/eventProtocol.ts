@@ -0,0 +1,194 @@
+/**
+ * Visual test event protocol
+ *
+ * Runtime validation of the events published by `VisualTestStorageAPI`
+ * (see `VisualTestEvent`), for consumers receiving them from Pub/Sub channels,
+ * event logs or any other transport. Free of Node.js dependencies so it can be
+ * used in the browser.
+ */
+
+import type {
+  EventProtocolVersion,
+  StoryIdentifier,
+  VisualTestEvent,
+  VisualTestEventType,
+} from "../types/index.js";
+
+/**
+ * Version of the event protocol sent in every event
+ */
+export const EVENT_PROTOCOL_VERSION: EventProtocolVersion = 1;
+
+type Payload = Record<string, unknown>;
+
+const TEST_STATUSES = [
+  "running",
+  "passed",
+  "failed",
+  "new",
+  "skipped",
+  "aborted",
+];
+const RUN_REASONS = ["passed", "interrupted", "failed"];
+
+/**
+ * Check if a value is a plain object
+ * @param value Value to check
+ * @returns True if value is a non-null, non-array object
+ */
+const isObject = (value: unknown): value is Payload =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Check if a value is a number or null
+ * @param value Value to check
+ * @returns True if value is a number or null
+ */
+const isNullableNumber = (value: unknown) =>
+  value === null || typeof value === "number";
+
+/**
+ * Check if a value is a string or null
+ * @param value Value to check
+ * @returns True if value is a string or null
+ */
+const isNullableString = (value: unknown) =>
+  value === null || typeof value === "string";
+
+/**
+ * Check if a value is a story identifier
+ * @param value Value to check
+ * @returns True if value has a story id, a theme and a viewport
+ */
+const isStoryIdentifier = (value: unknown): value is StoryIdentifier =>
+  isObject(value) &&
+  typeof value.storyId === "string" &&
+  typeof value.theme === "string" &&
+  isObject(value.viewport) &&
+  typeof value.viewport.width === "number" &&
+  typeof value.viewport.height === "number";
+
+/**
+ * Check if a value is a run summary
+ * @param value Value to check
+ * @returns True if value is an object of counters
+ */
+const isSummary = (value: unknown) =>
+  isObject(value) &&
+  Object.values(value).every((counter) => typeof counter === "number");
+
+/**
+ * Check if a value is a review decision
+ * @param value Value to check
+ * @returns True if value is a `ReviewDecision`
+ */
+const isReview = (value: unknown) =>
+  isObject(value) &&
+  (value.decision === "accepted" || value.decision === "rejected") &&
+  isNullableString(value.reviewer) &&
+  isNullableString(value.comment) &&
+  typeof value.reviewedAt === "number";
+
+/**
+ * Check the story identifier(s) of a (possibly bulk) review payload
+ * @param payload The payload
+ * @returns True if it has a story identifier or a list of story identifiers
+ */
+const hasReviewedStories = (payload: Payload) =>
+  isStoryIdentifier(payload.storyIdentifier) ||
+  (Array.isArray(payload.storyIdentifiers) &&
+    payload.storyIdentifiers.every(isStoryIdentifier));
+
+/**
+ * Payload validator of each event type
+ */
+const PAYLOAD_VALIDATORS: Record<
+  VisualTestEventType,
+  (payload: Payload) => boolean
+> = {
+  "run:started": (p) =>
+    typeof p.runId === "string" && typeof p.testCount === "number",
+  "run:finished": (p) =>
+    typeof p.runId === "string" &&
+    RUN_REASONS.includes(p.reason as string) &&
+    isSummary(p.summary),
+  "run:summary": (p) => isSummary(p.summary),
+  "run:imported": (p) =>
+    typeof p.runId === "string" && typeof p.testCount === "number",
+  "test:started": (p) =>
+    typeof p.runId === "string" &&
+    isStoryIdentifier(p.storyIdentifier) &&
+    p.status === "running",
+  "test:updated": (p) =>
+    isStoryIdentifier(p.storyIdentifier) &&
+    (p.status === undefined || TEST_STATUSES.includes(p.status as string)) &&
+    (p.diffRatio === undefined || isNullableNumber(p.diffRatio)) &&
+    (p.message === undefined || typeof p.message === "string"),
+  "test:finished": (p) =>
+    isStoryIdentifier(p.storyIdentifier) &&
+    TEST_STATUSES.includes(p.status as string) &&
+    isNullableNumber(p.diffRatio),
+  "baseline:accepted": (p) =>
+    hasReviewedStories(p) && isNullableString(p.acceptedBy),
+  "baseline:rejected": (p) => hasReviewedStories(p) && isReview(p.review),
+};
+
+/**
+ * List of all event types
+ */
+export const VISUAL_TEST_EVENT_TYPES = Object.keys(
+  PAYLOAD_VALIDATORS
+) as VisualTestEventType[];
+
+/**
+ * Check if a value is a valid event of the current protocol version
+ * @param value Value to check (e.g. a parsed Pub/Sub message)
+ * @returns True if the value is a `VisualTestEvent`
+ */
+export const isVisualTestEvent = (value: unknown): value is VisualTestEvent => {
+  if (!isObject(value)) return false;
+
+  const validatePayload =
+    typeof value.type === "string" &&
+    Object.prototype.hasOwnProperty.call(PAYLOAD_VALIDATORS, value.type)
+      ? PAYLOAD_VALIDATORS[value.type as VisualTestEventType]
+      : null;
+
+  return (
+    value.version === EVENT_PROTOCOL_VERSION &&
+    validatePayload !== null &&
+    typeof value.runId === "string" &&
+    typeof value.timestamp === "number" &&
+    isObject(value.payload) &&
+    validatePayload(value.payload)
+  );
+};
+
+/**
+ * Parse and validate an event
+ * @param message The event, as JSON (e.g. a Pub/Sub message) or already parsed
+ * @returns The event
+ * @throws {Error} If the message is not a valid event of the current protocol version
+ */
+export const parseVisualTestEvent = (message: unknown): VisualTestEvent => {
+  let value = message;
+
+  if (typeof message === "string") {
+    try {
+      value = JSON.parse(message);
+    } catch (error) {
+      throw new Error("Invalid visual test event: not JSON");
+    }
+  }
+
+  if (!isVisualTestEvent(value)) {
+    const { type, version } = (isObject(value) ? value : {}) as Payload;
+    throw new Error(
+      `Invalid visual test event: ${String(type)} (protocol v${String(
+        version
+      )}, expected v${EVENT_PROTOCOL_VERSION})`
+    );
+  }
+
+  return value;
+};
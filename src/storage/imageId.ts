@@ -0,0 +1,90 @@
+/**
+ * Image naming helpers shared by image stores
+ *
+ * Story ids, themes and namespaces come from user input and end up in file
+ * names, object keys and Redis keys, so they are encoded with `encodeIdSegment`:
+ * a crafted id (`../`, `/`, `:`) can neither traverse directories nor collide
+ * with other keys, and the original value can be decoded back.
+ */
+
+import type { StoryIdentifier } from "../types/index.js";
+
+/**
+ * Encode a value as a single path/key segment
+ * Every character but ASCII letters, digits, `_` and `-` is percent-encoded
+ * (including `.`, `/`, `:` and `%`), so usual Storybook ids are kept as-is.
+ * @param value The value to encode
+ * @returns The encoded segment
+ */
+export const encodeIdSegment = (value: string) =>
+  encodeURIComponent(value).replace(
+    /[.!~*'()]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+
+/**
+ * Decode a segment encoded with `encodeIdSegment`
+ * Legacy (unencoded) segments that aren't valid percent-encoding are returned as-is.
+ * @param segment The encoded segment
+ * @returns The original value
+ */
+export const decodeIdSegment = (segment: string) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+};
+
+/**
+ * Encode the theme segment of an image identifier
+ * Unlike story ids, `-` is encoded too: the theme is the segment before the viewport,
+ * so `parseImageId` can split it from story ids that contain `-`.
+ * @param theme The theme
+ * @returns The encoded segment
+ */
+const encodeThemeSegment = (theme: string) =>
+  encodeIdSegment(theme).replace(/-/g, "%2D");
+
+/**
+ * Generate unique image identifier from story identifier
+ * @param storyIdentifier The story identifier containing storyId, theme, and viewport
+ * @returns A unique string identifier for the image
+ */
+export const getImageId = (storyIdentifier: StoryIdentifier) => {
+  const { storyId, theme, viewport } = storyIdentifier;
+
+  return `${encodeIdSegment(storyId)}-${encodeThemeSegment(theme)}-${
+    viewport.width
+  }x${viewport.height}`;
+};
+
+/**
+ * Get the story identifier of an image identifier
+ * Also parses legacy image ids, which contain the raw story id (the theme is the
+ * last segment without `-`).
+ * @param imageId Image identifier generated by `getImageId`
+ * @returns The story identifier or null if the image id is malformed
+ */
+export const parseImageId = (imageId: string): StoryIdentifier | null => {
+  const match = /^(.+)-([^-]+)-(\d+)x(\d+)$/.exec(imageId);
+  if (!match) return null;
+
+  const [, storyId = "", theme = "", width = "0", height = "0"] = match;
+
+  return {
+    storyId: decodeIdSegment(storyId),
+    theme: decodeIdSegment(theme) as StoryIdentifier["theme"],
+    viewport: { width: Number(width), height: Number(height) },
+  };
+};
+
+/**
+ * Get the path segments of a baseline namespace (e.g. a git branch)
+ * Baselines of the base namespace live at the image root, other namespaces
+ * under `branches/{namespace}/` (encoded so `feature/x` stays one segment).
+ * @param namespace The baseline namespace (undefined for the base namespace)
+ * @returns Path segments to prepend to baseline paths
+ */
+export const getNamespaceSegments = (namespace?: string): string[] =>
+  namespace ? ["branches", encodeIdSegment(namespace)] : [];
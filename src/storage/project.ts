@@ -0,0 +1,71 @@
+/**
+ * Project namespaces
+ *
+ * Several projects (e.g. the Storybooks of a monorepo) can share one Redis and
+ * one image root: the data of a project is stored under `visualproject:{project}:`
+ * Redis keys and channels, and its images and lite database under
+ * `projects/{project}/` (of the image root or of the S3 key prefix). Without a
+ * project, the unprefixed layout is used.
+ */
+
+import { existsSync } from "fs";
+import { readdir } from "fs/promises";
+import { basename, dirname, join } from "path";
+import { decodeIdSegment, encodeIdSegment } from "./imageId.js";
+
+/**
+ * Get the project of a store
+ * @param project Configured project
+ * @returns The project (`VITE_VISUAL_TEST_PROJECT` by default), or undefined for the unprefixed layout
+ */
+export const getProject = (project?: string) =>
+  project || process.env.VITE_VISUAL_TEST_PROJECT || undefined;
+
+/**
+ * Get the prefix of the Redis keys and channels of a project
+ * @param project The project
+ * @returns The key prefix (empty without a project)
+ */
+export const getProjectKeyPrefix = (project?: string) =>
+  project ? `visualproject:${encodeIdSegment(project)}:` : "";
+
+/**
+ * Get the directory of a project inside a shared root directory
+ * @param root The shared root directory (e.g. the image root)
+ * @param project The project
+ * @returns `{root}/projects/{project}`, or the root itself without a project
+ */
+export const getProjectDir = (root: string, project?: string) =>
+  project ? join(root, "projects", encodeIdSegment(project)) : root;
+
+/**
+ * Get the path of a project file stored next to a shared file
+ * @param path Path of the shared file (e.g. the lite database)
+ * @param project The project
+ * @returns `{dir}/projects/{project}/{file}`, or the path itself without a project
+ */
+export const getProjectFilePath = (path: string, project?: string) =>
+  join(getProjectDir(dirname(path), project), basename(path));
+
+/**
+ * List the projects stored in a shared root directory
+ * @param root The shared root directory
+ * @param file Only list the projects having this file (default: any project directory)
+ * @returns The projects, sorted
+ */
+export const listProjectDirs = async (
+  root: string,
+  file?: string
+): Promise<string[]> => {
+  const projectsDir = join(root, "projects");
+  if (!existsSync(projectsDir)) return [];
+
+  return (await readdir(projectsDir, { withFileTypes: true }))
+    .filter(
+      (entry) =>
+        entry.isDirectory() &&
+        (!file || existsSync(join(projectsDir, entry.name, file)))
+    )
+    .map((entry) => decodeIdSegment(entry.name))
+    .sort();
+};
@@ -0,0 +1,61 @@
+/**
+ * Unit tests for the Redis connection helpers
+ * These tests verify that standalone, cluster and sentinel deployments are
+ * recognized from the shape of the connection options.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  createRedisConnection,
+  getRedisConnectionMode,
+  type RedisConnectionOptions,
+} from "./redisConnection";
+
+describe("Redis connection", () => {
+  /**
+   * Tests that the deployment is recognized from the connection options
+   */
+  it("should detect the deployment from the options", () => {
+    expect(getRedisConnectionMode({ url: "redis://localhost:6379" })).toBe(
+      "standalone"
+    );
+    expect(
+      getRedisConnectionMode({
+        rootNodes: [{ url: "redis://localhost:7000" }],
+      })
+    ).toBe("cluster");
+    expect(
+      getRedisConnectionMode({
+        name: "mymaster",
+        sentinelRootNodes: [{ host: "localhost", port: 26379 }],
+      })
+    ).toBe("sentinel");
+  });
+
+  /**
+   * Tests that a client of each deployment is created (without connecting)
+   * with the commands and transactions used by the metadata store
+   */
+  it("should create a client with the store commands for each deployment", () => {
+    const deployments: RedisConnectionOptions[] = [
+      { url: "redis://localhost:6379" },
+      { rootNodes: [{ url: "redis://localhost:7000" }] },
+      {
+        name: "mymaster",
+        sentinelRootNodes: [{ host: "localhost", port: 26379 }],
+      },
+    ];
+
+    for (const options of deployments) {
+      const connection = createRedisConnection(options);
+      const transaction = connection.multi();
+
+      expect(connection.eval).toBeTypeOf("function");
+      expect(connection.xRead).toBeTypeOf("function");
+      expect(connection.subscribe).toBeTypeOf("function");
+      expect(connection.json.get).toBeTypeOf("function");
+      expect(transaction.json.set).toBeTypeOf("function");
+      expect(transaction.exec).toBeTypeOf("function");
+    }
+  });
+});
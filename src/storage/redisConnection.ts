@@ -0,0 +1,142 @@
+/**
+ * Redis connections
+ *
+ * The Redis metadata store connects to a standalone Redis, a Redis Cluster or a
+ * Redis Sentinel deployment depending on the shape of its options: cluster options
+ * have `rootNodes`, sentinel options have `sentinelRootNodes` (and the `name` of
+ * the monitored master), anything else is a standalone client configuration.
+ */
+
+import {
+  createClient,
+  createCluster,
+  createSentinel,
+  type RedisArgument,
+  type RedisClientOptions,
+  type RedisClientType,
+  type RedisClusterOptions,
+  type RedisJSON,
+  type RedisSentinelOptions,
+} from "redis";
+
+/**
+ * Connection options of a standalone Redis, a Redis Cluster or a Redis Sentinel deployment
+ */
+export type RedisConnectionOptions =
+  | RedisClientOptions
+  | RedisClusterOptions
+  | RedisSentinelOptions;
+
+/**
+ * Commands of a transaction (`MULTI`) used by the metadata store
+ * Transactions only group keys of a single run, which share a cluster slot.
+ */
+export type RedisTransaction = {
+  del(keys: RedisArgument | RedisArgument[]): RedisTransaction;
+  rename(key: RedisArgument, newKey: RedisArgument): RedisTransaction;
+  sAdd(key: RedisArgument, members: RedisArgument): RedisTransaction;
+  sRem(key: RedisArgument, members: RedisArgument): RedisTransaction;
+  json: {
+    get(key: RedisArgument): RedisTransaction;
+    set(
+      key: RedisArgument,
+      path: RedisArgument,
+      json: RedisJSON
+    ): RedisTransaction;
+  };
+  exec(): Promise<unknown[]>;
+};
+
+/**
+ * Client of a standalone Redis, a Redis Cluster or a Redis Sentinel deployment
+ * Narrowed to the commands the metadata store uses, which the three clients share
+ * (they differ in the methods managing connections, like `duplicate`).
+ */
+export type RedisConnection = Pick<
+  RedisClientType,
+  | "close"
+  | "del"
+  | "eval"
+  | "exists"
+  | "get"
+  | "json"
+  | "publish"
+  | "sAdd"
+  | "set"
+  | "sMembers"
+  | "subscribe"
+  | "xAdd"
+  | "xRange"
+  | "zAdd"
+  | "zRange"
+  | "zRem"
+  | "zScore"
+> & {
+  connect(): Promise<unknown>;
+  /** Stream entries are parsed by the caller (the reply shape depends on the RESP version) */
+  xRead(
+    streams: { key: RedisArgument; id: RedisArgument },
+    options?: { COUNT?: number; BLOCK?: number }
+  ): Promise<unknown>;
+  unsubscribe(channel: string): Promise<unknown>;
+  multi(): RedisTransaction;
+  on(event: "error", listener: (err: unknown) => void): unknown;
+};
+
+/**
+ * Kind of Redis deployment targeted by connection options
+ */
+export type RedisConnectionMode = "standalone" | "cluster" | "sentinel";
+
+/**
+ * Check if connection options target a Redis Cluster
+ * @param options Redis connection options
+ * @returns True for options with `rootNodes`
+ */
+const isClusterOptions = (
+  options: RedisConnectionOptions
+): options is RedisClusterOptions => "rootNodes" in options;
+
+/**
+ * Check if connection options target a Redis Sentinel deployment
+ * @param options Redis connection options
+ * @returns True for options with `sentinelRootNodes`
+ */
+const isSentinelOptions = (
+  options: RedisConnectionOptions
+): options is RedisSentinelOptions => "sentinelRootNodes" in options;
+
+/**
+ * Get the kind of Redis deployment targeted by connection options
+ * @param options Redis connection options
+ * @returns "cluster" with `rootNodes`, "sentinel" with `sentinelRootNodes`, "standalone" otherwise
+ */
+export const getRedisConnectionMode = (
+  options: RedisConnectionOptions
+): RedisConnectionMode => {
+  if (isClusterOptions(options)) return "cluster";
+  if (isSentinelOptions(options)) return "sentinel";
+  return "standalone";
+};
+
+/**
+ * Create a (not yet connected) Redis client
+ * Errors are logged so a lost connection doesn't crash the process while the client reconnects.
+ * @param options Redis connection options
+ * @returns Standalone, cluster or sentinel client, depending on the options
+ */
+export const createRedisConnection = (
+  options: RedisConnectionOptions
+): RedisConnection => {
+  const connection: RedisConnection = isClusterOptions(options)
+    ? createCluster(options)
+    : isSentinelOptions(options)
+    ? createSentinel(options)
+    : createClient(options);
+
+  connection.on("error", (err: unknown) =>
+    console.error("Redis Client Error", err)
+  );
+
+  return connection;
+};
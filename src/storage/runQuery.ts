@@ -0,0 +1,101 @@
+/**
+ * Run query helpers shared by metadata stores
+ *
+ * Runs are ordered newest first by `startedAt` (then `runId` for runs started
+ * at the same time). Page cursors encode the position of the last returned run.
+ */
+
+import type { RunQuery, VisualTestRun } from "../types/index.js";
+
+/**
+ * Default number of runs per page
+ */
+export const DEFAULT_RUN_PAGE_SIZE = 50;
+
+/**
+ * Position of a run in the run index
+ */
+export type RunCursor = Pick<VisualTestRun, "startedAt" | "runId">;
+
+/**
+ * Encode the position of a run as an opaque page cursor
+ * @param run The last run of a page
+ * @returns The page cursor
+ */
+export const encodeRunCursor = ({ startedAt, runId }: RunCursor) =>
+  Buffer.from(JSON.stringify([startedAt, runId])).toString("base64url");
+
+/**
+ * Decode a page cursor
+ * @param cursor The page cursor
+ * @returns The position of the last run of the previous page
+ */
+export const decodeRunCursor = (cursor: string): RunCursor => {
+  try {
+    const [startedAt, runId] = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf-8")
+    );
+    if (typeof startedAt === "number" && typeof runId === "string") {
+      return { startedAt, runId };
+    }
+  } catch (error) {
+    // handled below
+  }
+  throw new Error("Invalid run cursor");
+};
+
+/**
+ * Compare runs for the run index order (newest first)
+ * @param a First run
+ * @param b Second run
+ * @returns Negative if `a` comes first
+ */
+export const compareRunsByStart = (a: RunCursor, b: RunCursor) =>
+  b.startedAt - a.startedAt || (a.runId < b.runId ? 1 : -1);
+
+/**
+ * Check if a run comes after a cursor in the run index order
+ * @param run The run
+ * @param cursor The cursor of the previous page
+ * @returns True if the run belongs to a following page
+ */
+export const isAfterRunCursor = (run: RunCursor, cursor: RunCursor) =>
+  compareRunsByStart(run, cursor) > 0;
+
+/**
+ * Check if a run matches the filters of a query
+ * @param run The run
+ * @param query The run query
+ * @returns True if every filter of the query matches
+ */
+export const matchesRunQuery = (run: VisualTestRun, query: RunQuery) => {
+  if (query.reason !== undefined) {
+    const reasons = Array.isArray(query.reason) ? query.reason : [query.reason];
+    if (!reasons.includes(run.reason)) return false;
+  }
+  if (query.from !== undefined && run.startedAt < query.from) return false;
+  if (query.to !== undefined && run.startedAt > query.to) return false;
+  if (query.ci !== undefined && run.environment?.ci !== query.ci) return false;
+  if (
+    query.commit !== undefined &&
+    !run.environment?.git?.commit.startsWith(query.commit)
+  ) {
+    return false;
+  }
+  if (
+    query.branch !== undefined &&
+    run.environment?.git?.branch !== query.branch
+  ) {
+    return false;
+  }
+  if (
+    query.browser !== undefined &&
+    run.environment?.browser?.name !== query.browser
+  ) {
+    return false;
+  }
+
+  return Object.entries(query.labels ?? {}).every(
+    ([name, value]) => run.labels?.[name] === value
+  );
+};
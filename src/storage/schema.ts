@@ -0,0 +1,57 @@
+/**
+ * Storage schema versions
+ *
+ * Metadata stores and image stores record the schema version of the data they
+ * hold (data written before schema versioning is version 0), and run and test
+ * documents carry the version they were written with. `VisualTestStorageAPI.migrate`
+ * applies the steps below in order: each store implements its part of every step
+ * in `migrateSchema(version)`, idempotently, so an interrupted migration can be run again.
+ */
+
+/**
+ * Schema version written by this library
+ */
+export const SCHEMA_VERSION = 3;
+
+/**
+ * Step upgrading stored data to a schema version
+ */
+export type SchemaMigration = {
+  version: number;
+  description: string;
+};
+
+/**
+ * Steps upgrading stored data to `SCHEMA_VERSION`, in order
+ */
+export const SCHEMA_MIGRATIONS: readonly SchemaMigration[] = [
+  {
+    version: 1,
+    description: "Sorted run index and run keys sharing a hash tag (Redis)",
+  },
+  {
+    version: 2,
+    description: "Encoded story identifiers in keys and image file names",
+  },
+  {
+    version: 3,
+    description: "Schema version on run and test documents",
+  },
+];
+
+/**
+ * Check that stored data can be read and written by this library
+ * @param version Schema version of the stored data
+ * @param store Name of the store, for the error message
+ * @throws {Error} If the data was written by a newer version of the library
+ */
+export const assertSupportedSchemaVersion = (
+  version: number,
+  store: string
+) => {
+  if (version > SCHEMA_VERSION) {
+    throw new Error(
+      `Unsupported ${store} schema v${version}: this version of simple-visual-tests supports up to v${SCHEMA_VERSION}, upgrade it`
+    );
+  }
+};
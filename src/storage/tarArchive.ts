@@ -0,0 +1,148 @@
+/**
+ * Minimal tar (ustar) archive helpers used by run archives
+ *
+ * Only regular files are supported. Names longer than the 100 bytes of a ustar
+ * header are stored in a PAX extended header, so archives open with any `tar`.
+ */
+
+/**
+ * File of a tar archive
+ *
+ * @property {string} name - Path of the file inside the archive
+ * @property {Buffer} content - File content
+ */
+export type TarEntry = { name: string; content: Buffer };
+
+const BLOCK_SIZE = 512;
+
+/**
+ * Get the padding needed to fill the last block of a file
+ * @param size File size in bytes
+ * @returns Zero-filled padding buffer
+ */
+const padding = (size: number) =>
+  Buffer.alloc((BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE);
+
+/**
+ * Create the header block of a file
+ * @param name Path of the file (at most 100 bytes)
+ * @param size File size in bytes
+ * @param type Header type flag ("0" for files, "x" for PAX extended headers)
+ * @returns The 512 bytes header
+ */
+const createHeader = (name: string, size: number, type: "0" | "x") => {
+  const header = Buffer.alloc(BLOCK_SIZE);
+
+  header.write(name, 0, 100, "utf-8");
+  header.write("0000644\0", 100, "ascii"); // mode
+  header.write("0000000\0", 108, "ascii"); // uid
+  header.write("0000000\0", 116, "ascii"); // gid
+  header.write(`${size.toString(8).padStart(11, "0")}\0`, 124, "ascii");
+  header.write(
+    `${Math.floor(Date.now() / 1000)
+      .toString(8)
+      .padStart(11, "0")}\0`,
+    136,
+    "ascii"
+  );
+  header.write(type, 156, "ascii");
+  header.write("ustar\0", 257, "ascii");
+  header.write("00", 263, "ascii");
+
+  // Checksum is computed with its own field filled with spaces
+  header.fill(" ", 148, 156);
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  header.write(`${checksum.toString(8).padStart(6, "0")}\0 `, 148, "ascii");
+
+  return header;
+};
+
+/**
+ * Read a NUL-terminated string field of a header
+ * @param header Header block
+ * @param offset Field offset
+ * @param length Field length
+ * @returns The field value
+ */
+const readField = (header: Buffer, offset: number, length: number) => {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+
+  return field.subarray(0, end === -1 ? length : end).toString("utf-8");
+};
+
+/**
+ * Create a tar archive
+ * @param entries Files of the archive
+ * @returns The (uncompressed) archive
+ */
+export const packTar = (entries: TarEntry[]): Buffer => {
+  const blocks: Buffer[] = [];
+
+  for (const { name, content } of entries) {
+    if (Buffer.byteLength(name) > 100) {
+      const record = (length: number) => `${length} path=${name}\n`;
+      let length = Buffer.byteLength(record(0));
+      while (Buffer.byteLength(record(length)) !== length) {
+        length = Buffer.byteLength(record(length));
+      }
+      const pax = Buffer.from(record(length));
+
+      blocks.push(createHeader("PaxHeader", pax.length, "x"), pax);
+      blocks.push(padding(pax.length));
+    }
+
+    blocks.push(createHeader(name.slice(0, 100), content.length, "0"));
+    blocks.push(content, padding(content.length));
+  }
+
+  // End of archive: two empty blocks
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+
+  return Buffer.concat(blocks);
+};
+
+/**
+ * Read the files of a tar archive
+ * @param archive The (uncompressed) archive
+ * @returns Regular files of the archive
+ */
+export const unpackTar = (archive: Buffer): TarEntry[] => {
+  const entries: TarEntry[] = [];
+  let paxPath: string | null = null;
+  let offset = 0;
+
+  while (offset + BLOCK_SIZE <= archive.length) {
+    const header = archive.subarray(offset, offset + BLOCK_SIZE);
+    if (header.every((byte) => byte === 0)) break;
+
+    const size = Number.parseInt(readField(header, 124, 12).trim() || "0", 8);
+    const type = readField(header, 156, 1);
+    const start = offset + BLOCK_SIZE;
+    const content = archive.subarray(start, start + size);
+
+    if (Number.isNaN(size) || start + size > archive.length) {
+      throw new Error("Invalid tar archive");
+    }
+
+    if (type === "x") {
+      const path = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(
+        content.toString("utf-8")
+      );
+      paxPath = path?.[1] ?? null;
+    } else if (type === "0" || type === "") {
+      const prefix = readField(header, 345, 155);
+      const name = readField(header, 0, 100);
+
+      entries.push({
+        name: paxPath ?? (prefix ? `${prefix}/${name}` : name),
+        content: Buffer.from(content),
+      });
+      paxPath = null;
+    }
+
+    offset = start + size + padding(size).length;
+  }
+
+  return entries;
+};
@@ -61,7 +61,13 @@ export type DbEntryMetadata = {
  */
 export type NewStoredVisualTest = Pick<
   StoredVisualTestResult,
-  "runId" | "storyIdentifier" | "startedAt" | "baseline" | "current" | "diff"
+  | "runId"
+  | "storyIdentifier"
+  | "startedAt"
+  | "baseline"
+  | "current"
+  | "diff"
+  | "schemaVersion"
 > & { status: "running" };
 
 /**
@@ -91,6 +97,12 @@ export type VisualTestUpdate = Partial<
  * @property {string | null} baseline - File path to baseline image in filesystem
  * @property {string | null} current - File path to current test image in filesystem
  * @property {string | null} diff - File path to difference image in filesystem
+ * @property {ReviewDecision | null} review - Last review decision (absent until the test is reviewed)
+ * @property {DiscardedImage[]} discardedImages - Images produced by the test but not kept because of the image storage policy (absent when every image was kept)
+ * @property {number} schemaVersion - Storage schema version the document was written with (absent before schema versioning)
+ *
+ * @note A null `current`/`diff` reference means the image was never produced,
+ *       unless it is listed in `discardedImages`
  */
 export type StoredVisualTestResult = Omit<
   VisualTestResult,
@@ -100,8 +112,40 @@ export type StoredVisualTestResult = Omit<
   baseline: string | null;
   current: string | null;
   diff: string | null;
+  review?: ReviewDecision | null;
+  discardedImages?: DiscardedImage[];
+  schemaVersion?: number;
 } & DbEntryMetadata;
 
+/**
+ * Which current and diff images of finished tests are kept
+ *
+ * - `all`: keep the images of every test (default)
+ * - `failures`: keep the images of failed and new tests only, the ones that need a review
+ * - `none`: keep no current or diff image (baselines are still saved)
+ */
+export type ImageStoragePolicy = "none" | "failures" | "all";
+
+/**
+ * Run image intentionally not kept because of the image storage policy
+ */
+export type DiscardedImage = "current" | "diff";
+
+/**
+ * Review decision on a failed or new visual test
+ *
+ * @property {"accepted" | "rejected"} decision - Accepted as the new baseline, or rejected as a regression to fix
+ * @property {string | null} reviewer - User who reviewed the test
+ * @property {string | null} comment - Reviewer comment
+ * @property {number} reviewedAt - Unix timestamp of the review
+ */
+export type ReviewDecision = {
+  decision: "accepted" | "rejected";
+  reviewer: string | null;
+  comment: string | null;
+  reviewedAt: number;
+};
+
 /**
  * Result of a visual test comparison
  *
@@ -113,10 +157,12 @@ export type StoredVisualTestResult = Omit<
  * @property {Buffer | null} diff - Generated difference image highlighting changes
  * @property {number | null} diffRatio - Quantitative measure of visual difference (0-1 scale)
  * @property {string} message - Human-readable description of test outcome
+ *
+ * @note `aborted` tests were still running when their run was interrupted (see `sweepStaleRuns`)
  */
 export type VisualTestResult = {
   storyIdentifier: StoryIdentifier;
-  status: "running" | "passed" | "failed" | "new";
+  status: "running" | "passed" | "failed" | "new" | "skipped" | "aborted";
   baseline: Buffer | null;
   current: Buffer | null;
   diff: Buffer | null;
@@ -137,9 +183,45 @@ export type VisualTestResult = {
  */
 export type NewVisualTestRun = Pick<
   VisualTestRun,
-  "runId" | "startedAt" | "summary" | "environment"
+  | "runId"
+  | "startedAt"
+  | "summary"
+  | "environment"
+  | "labels"
+  | "schemaVersion"
+  | "heartbeatAt"
 >;
 
+/**
+ * Execution environment of a visual test run
+ *
+ * Records what produced the run images, to explain why two runs differ.
+ *
+ * @property {string} nodeVersion - Node.js version of the process that recorded the run
+ * @property {string} platform - Operating system platform
+ * @property {boolean} ci - Whether the run executed on CI (`CI=true`)
+ * @property {object} git - Commit, branch (null when detached) and uncommitted changes of the working tree
+ * @property {object} storybook - URL and version of the tested Storybook (`indexVersion` is the `index.json` format version)
+ * @property {object} browser - Name and version of the browser taking the snapshots, and the vitest browser provider
+ * @property {number} deviceScaleFactor - Device scale factor of the browser pages
+ *
+ * @note Only `nodeVersion`, `platform` and `ci` are always set, the other fields are
+ * recorded when they can be resolved (e.g. `git` is missing outside a git repository)
+ */
+export type RunEnvironment = {
+  nodeVersion: string;
+  platform: string;
+  ci: boolean;
+  git?: { commit: string; branch: string | null; dirty: boolean };
+  storybook?: {
+    url: string;
+    version: string | null;
+    indexVersion: number | null;
+  };
+  browser?: { name: string; version: string | null; provider: string };
+  deviceScaleFactor?: number;
+};
+
 /**
  * Information about a visual test run
  *
@@ -151,9 +233,15 @@ export type NewVisualTestRun = Pick<
  * @property {"passed" | "interrupted" | "failed"} reason - Final run outcome classification
  * @property {object} summary - Aggregated test results statistics
  * @property {object} environment - Execution environment metadata for reproducibility
+ * @property {Record<string, string>} labels - Custom labels used to filter runs (e.g. branch, project, pipeline)
+ * @property {number} schemaVersion - Storage schema version the document was written with (absent before schema versioning)
+ * @property {number} heartbeatAt - Unix timestamp of the last heartbeat of the process recording the run (absent for runs recorded before heartbeats)
  *
  * @note The summary provides quick access to test run health without querying individual results
- * @note The reason field indicates whether all tests completed successfully ("passed"), where interrupted ("interrupted") or had failures ("failed")
+ * @note `unreviewed` counts failed/new tests without a review decision, `rejected` the ones rejected by a reviewer
+ * @note `changed` counts finished tests whose current image differs from the baseline (diffRatio > 0, even within threshold),
+ * `skipped` counts tests that were not run and `aborted` tests interrupted while running (neither count as `finished`)
+ * @note The reason field indicates whether all tests completed successfully ("passed"), where interrupted ("interrupted", also set on stale runs by `sweepStaleRuns`) or had failures ("failed")
  */
 export type VisualTestRun = {
   runId: string;
@@ -167,8 +255,14 @@ export type VisualTestRun = {
     changed: number;
     skipped: number;
     new: number;
+    unreviewed: number;
+    rejected: number;
+    aborted: number;
   };
-  environment: { nodeVersion: string; platform: string; ci: boolean };
+  environment: RunEnvironment;
+  labels?: Record<string, string>;
+  schemaVersion?: number;
+  heartbeatAt?: number;
 } & DbEntryMetadata;
 
 /**
@@ -200,9 +294,452 @@ export type ComparisonResult = {
  */
 export type Viewport = { width: number; height: number };
 
+/**
+ * Untyped event message, as received from a Pub/Sub channel
+ *
+ * @deprecated Use `VisualTestEvent` (and `parseVisualTestEvent` to validate received messages)
+ */
 export type PublishMsg = {
   type: string;
   runId: string;
   payload: any;
   timestamp: number;
 };
+
+/**
+ * Version of the event protocol, sent in every event
+ * (incremented on breaking changes of an event payload)
+ */
+export type EventProtocolVersion = 1;
+
+/**
+ * Payload of each visual test event type
+ *
+ * Bulk review events (`acceptBaselines`, `rejectBaselines`) list `storyIdentifiers`
+ * instead of a single `storyIdentifier`.
+ */
+export type VisualTestEventPayloads = {
+  "run:started": { runId: string; testCount: number };
+  "run:finished": {
+    runId: string;
+    reason: VisualTestRun["reason"];
+    summary: VisualTestRun["summary"];
+  };
+  "run:summary": { summary: VisualTestRun["summary"] };
+  "run:imported": { runId: string; testCount: number };
+  "test:started": {
+    runId: string;
+    storyIdentifier: StoryIdentifier;
+    status: "running";
+  };
+  "test:updated": {
+    storyIdentifier: StoryIdentifier;
+    status?: VisualTestResult["status"];
+    diffRatio?: number | null;
+    message?: string;
+  };
+  "test:finished": {
+    storyIdentifier: StoryIdentifier;
+    status: VisualTestResult["status"];
+    diffRatio: number | null;
+  };
+  "baseline:accepted":
+    | { storyIdentifier: StoryIdentifier; acceptedBy: string | null }
+    | { storyIdentifiers: StoryIdentifier[]; acceptedBy: string | null };
+  "baseline:rejected":
+    | { storyIdentifier: StoryIdentifier; review: ReviewDecision }
+    | { storyIdentifiers: StoryIdentifier[]; review: ReviewDecision };
+};
+
+/**
+ * Type of a visual test event
+ */
+export type VisualTestEventType = keyof VisualTestEventPayloads;
+
+/**
+ * Visual test event published to the run and global channels and event logs
+ *
+ * Discriminated union on `type`: switching on it narrows `payload`.
+ *
+ * @property {EventProtocolVersion} version - Version of the event protocol
+ * @property {VisualTestEventType} type - Type of the event
+ * @property {string} runId - Run the event belongs to
+ * @property {object} payload - Event data, depends on `type`
+ * @property {number} timestamp - Unix timestamp of the event
+ */
+export type VisualTestEvent<
+  T extends VisualTestEventType = VisualTestEventType
+> = {
+  [K in T]: {
+    version: EventProtocolVersion;
+    type: K;
+    runId: string;
+    payload: VisualTestEventPayloads[K];
+    timestamp: number;
+  };
+}[T];
+
+/**
+ * Event read back from an event log
+ *
+ * @property {string} eventId - Offset of the event in the log it was read from (`{ms}-{seq}`, a Redis stream entry id)
+ *
+ * @note The per-run and global logs have their own offsets
+ */
+export type LoggedEvent = VisualTestEvent & { eventId: string };
+
+/**
+ * Query of an event log
+ *
+ * @property {string} runId - Read the log of this run (default: the global log of all runs)
+ * @property {string | null} after - Only read events logged after this offset (default: from the oldest retained event)
+ * @property {number} limit - Maximum number of events to return (default: 100)
+ */
+export type EventLogQuery = {
+  runId?: string;
+  after?: string | null;
+  limit?: number;
+};
+
+/**
+ * Events read from an event log
+ *
+ * @property {LoggedEvent[]} events - Events in log order
+ * @property {string | null} cursor - Offset to pass as `after` to read the next events (null if the log is empty)
+ */
+export type EventLogPage = {
+  events: LoggedEvent[];
+  cursor: string | null;
+};
+
+/**
+ * Retention policy used to prune old runs
+ *
+ * A finished run is pruned when it matches `olderThanDays` or falls outside `keepLast`
+ * (runs still in progress are never pruned).
+ *
+ * @property {number} olderThanDays - Prune runs started more than N days ago
+ * @property {number} keepLast - Keep only the N most recent runs
+ * @property {boolean} keepUnreviewedFailures - Keep runs that still have failed or new tests nobody reviewed (accepted or rejected)
+ * @property {boolean} dryRun - Only report what would be pruned
+ */
+export type RetentionPolicy = {
+  olderThanDays?: number;
+  keepLast?: number;
+  keepUnreviewedFailures?: boolean;
+  dryRun?: boolean;
+};
+
+/**
+ * Options of the sweep of stale runs
+ *
+ * A run still in progress is stale when its last heartbeat (or its start, for runs
+ * recorded before heartbeats) is older than `staleAfterMs`.
+ *
+ * @property {number} staleAfterMs - How long without a heartbeat before a run is interrupted (default: 5 minutes)
+ * @property {boolean} dryRun - Only report the stale runs
+ */
+export type StaleRunOptions = {
+  staleAfterMs?: number;
+  dryRun?: boolean;
+};
+
+/**
+ * Report of a sweep of stale runs
+ *
+ * @property {string[]} runIds - Interrupted (or, in dry run, stale) run identifiers
+ * @property {number} tests - Number of running tests marked as aborted
+ * @property {boolean} dryRun - Whether nothing was actually changed
+ */
+export type StaleRunReport = {
+  runIds: string[];
+  tests: number;
+  dryRun: boolean;
+};
+
+/**
+ * Disk usage of a set of images
+ *
+ * @property {number} files - Number of image files
+ * @property {number} bytes - Total size in bytes
+ */
+export type ImageUsage = { files: number; bytes: number };
+
+/**
+ * Report of a pruning operation
+ *
+ * @property {string[]} runIds - Pruned (or, in dry run, prunable) run identifiers
+ * @property {number} tests - Number of test records removed
+ * @property {number} images - Number of image files removed
+ * @property {number} bytes - Disk space freed in bytes
+ * @property {boolean} dryRun - Whether nothing was actually deleted
+ */
+export type PruneReport = {
+  runIds: string[];
+  tests: number;
+  images: number;
+  bytes: number;
+  dryRun: boolean;
+};
+
+/**
+ * Origin of a baseline image
+ *
+ * @property {string | null} runId - Run the baseline image comes from
+ * @property {string | null} acceptedBy - User who accepted the baseline (null for automatically created baselines)
+ */
+export type BaselineSource = {
+  runId: string | null;
+  acceptedBy: string | null;
+};
+
+/**
+ * Archived version of a story baseline
+ *
+ * Every baseline written (new or accepted) is kept as a version so a bad
+ * acceptance can be rolled back.
+ *
+ * @property {string} versionId - Unique, time-ordered identifier of the version
+ * @property {number} createdAt - Unix timestamp when the version was saved
+ * @property {string} ref - Reference (path/key) of the archived image
+ * @property {boolean} active - Whether this version is the current baseline
+ */
+export type BaselineVersion = BaselineSource & {
+  versionId: string;
+  createdAt: number;
+  ref: string;
+  active: boolean;
+};
+
+/**
+ * Filter selecting the tests of a run for bulk review actions
+ *
+ * All set criteria must match. Diff ratio bounds are inclusive and exclude tests without a diff ratio.
+ *
+ * @property {VisualTestResult["status"][]} statuses - Test statuses to select (default: failed and new)
+ * @property {string} storyIdPrefix - Only stories whose id starts with this prefix
+ * @property {Theme} theme - Only this theme
+ * @property {Viewport} viewport - Only this viewport
+ * @property {number} minDiffRatio - Minimum diff ratio
+ * @property {number} maxDiffRatio - Maximum diff ratio
+ */
+export type TestFilter = {
+  statuses?: VisualTestResult["status"][];
+  storyIdPrefix?: string;
+  theme?: Theme;
+  viewport?: Viewport;
+  minDiffRatio?: number;
+  maxDiffRatio?: number;
+};
+
+/**
+ * Query over the run index, newest runs first
+ *
+ * @property {VisualTestRun["reason"] | VisualTestRun["reason"][]} reason - Only runs that ended with this reason
+ * @property {number} from - Only runs started at or after this Unix timestamp
+ * @property {number} to - Only runs started at or before this Unix timestamp
+ * @property {boolean} ci - Only runs that did (or did not) run on CI
+ * @property {string} commit - Only runs of this git commit (full or abbreviated hash)
+ * @property {string} branch - Only runs of this git branch
+ * @property {string} browser - Only runs taken with this browser (e.g. "chromium")
+ * @property {Record<string, string>} labels - Only runs having all these labels
+ * @property {number} limit - Maximum number of runs per page (default: 50)
+ * @property {string} cursor - `nextCursor` of the previous page
+ */
+export type RunQuery = {
+  reason?: VisualTestRun["reason"] | VisualTestRun["reason"][];
+  from?: number;
+  to?: number;
+  ci?: boolean;
+  commit?: string;
+  branch?: string;
+  browser?: string;
+  labels?: Record<string, string>;
+  limit?: number;
+  cursor?: string | null;
+};
+
+/**
+ * Page of runs returned by a run query
+ *
+ * @property {VisualTestRun[]} runs - Runs of the page, newest first
+ * @property {string | null} nextCursor - Cursor of the next page (null on the last page)
+ */
+export type RunPage = {
+  runs: VisualTestRun[];
+  nextCursor: string | null;
+};
+
+/**
+ * Result of a story in one run, as returned by the story history
+ *
+ * @property {string} runId - Run the test belongs to
+ * @property {string | null} current - Reference to the current image (readable with `getImage`)
+ * @property {string | null} diff - Reference to the diff image (readable with `getImage`)
+ */
+export type StoryHistoryEntry = Pick<
+  StoredVisualTestResult,
+  | "runId"
+  | "status"
+  | "diffRatio"
+  | "message"
+  | "current"
+  | "diff"
+  | "review"
+  | "startedAt"
+  | "finishedAt"
+>;
+
+/**
+ * Report of the migration of legacy (unencoded) story identifiers
+ *
+ * @property {number} tests - Number of re-keyed test records
+ * @property {number} baselines - Number of moved baselines
+ */
+export type IdMigrationReport = {
+  tests: number;
+  baselines: number;
+};
+
+/**
+ * Step of a storage schema migration, as reported by the migration runner
+ *
+ * @property {number} version - Schema version the step upgrades to
+ * @property {string} description - What the step changes
+ * @property {number} documents - Number of upgraded metadata documents and keys
+ * @property {number} images - Number of renamed or moved image files
+ */
+export type SchemaMigrationStep = {
+  version: number;
+  description: string;
+  documents: number;
+  images: number;
+};
+
+/**
+ * Report of a storage schema migration
+ *
+ * @property {number} from - Schema version of the stored data before the migration (0 for data written before schema versioning)
+ * @property {number} to - Schema version of the library, reached by the migration
+ * @property {SchemaMigrationStep[]} steps - Applied (or, on dry run, pending) steps, in order
+ * @property {boolean} dryRun - Whether the steps were only listed
+ */
+export type SchemaMigrationReport = {
+  from: number;
+  to: number;
+  steps: SchemaMigrationStep[];
+  dryRun: boolean;
+};
+
+/**
+ * Options of a consistency check between metadata and images
+ *
+ * @property {boolean} repair - Clear the test references to missing images
+ * @property {boolean} clean - Delete the orphaned run images and the stale baselines
+ * @property {StoryIdentifier[]} stories - Stories that still exist (default: the stories tested by the stored runs)
+ * @property {string} branch - Check the baselines of this git branch (default: base branch)
+ */
+export type ConsistencyCheckOptions = {
+  repair?: boolean;
+  clean?: boolean;
+  stories?: StoryIdentifier[];
+  branch?: string;
+};
+
+/**
+ * Test reference to an image that is not stored
+ *
+ * @property {string} runId - Run of the test
+ * @property {StoryIdentifier} storyIdentifier - Story of the test
+ * @property {string} type - Referenced image: "baseline", "current" or "diff"
+ * @property {string} ref - The missing image reference
+ */
+export type MissingImage = {
+  runId: string;
+  storyIdentifier: StoryIdentifier;
+  type: "baseline" | "current" | "diff";
+  ref: string;
+};
+
+/**
+ * Stored run image no test references
+ *
+ * @property {string} runId - Run the image was saved for (possibly a deleted run)
+ * @property {string} ref - Reference of the image
+ */
+export type OrphanedImage = {
+  runId: string;
+  ref: string;
+};
+
+/**
+ * Report of a consistency check between metadata and images
+ *
+ * @property {number} runs - Number of checked runs
+ * @property {number} tests - Number of checked tests
+ * @property {MissingImage[]} missingImages - Test references to images that are not stored
+ * @property {OrphanedImage[]} orphanedImages - Run images no test references (runs in progress are skipped)
+ * @property {StoryIdentifier[]} staleBaselines - Baselines of stories that no longer exist
+ * @property {boolean} repaired - Whether the references to missing images were cleared
+ * @property {boolean} cleaned - Whether the orphaned images and stale baselines were deleted
+ */
+export type ConsistencyReport = {
+  runs: number;
+  tests: number;
+  missingImages: MissingImage[];
+  orphanedImages: OrphanedImage[];
+  staleBaselines: StoryIdentifier[];
+  repaired: boolean;
+  cleaned: boolean;
+};
+
+/**
+ * Manifest of a run archive
+ *
+ * A run archive is a gzipped tar holding this `manifest.json`, the run (`run.json`),
+ * its tests (`tests.json`, with the image references of the exporting storage) and
+ * their images under `images/`.
+ *
+ * @property {string} format - Archive format identifier
+ * @property {number} version - Archive format version
+ * @property {number} exportedAt - Unix timestamp of the export
+ * @property {string} runId - Exported run
+ * @property {object[]} tests - Archive paths of the baseline, current and diff images of each test
+ */
+export type RunArchiveManifest = {
+  format: string;
+  version: number;
+  exportedAt: number;
+  runId: string;
+  tests: {
+    storyIdentifier: StoryIdentifier;
+    images: Partial<Record<"baseline" | "current" | "diff", string>>;
+  }[];
+};
+
+/**
+ * Manifest of a baseline bundle
+ *
+ * A baseline bundle is a gzipped tar holding this `manifest.json` and the baseline
+ * set of a branch under `baselines/`, so test runners can compare without shared storage.
+ *
+ * @property {string} format - Bundle format identifier
+ * @property {number} version - Bundle format version
+ * @property {string} hash - SHA-256 over every baseline file and hash, identifies the baseline set
+ * @property {number} createdAt - Unix timestamp of the bundle creation
+ * @property {string | null} branch - Branch the baselines were resolved for (null for the base branch)
+ * @property {object[]} baselines - Story, bundle path, SHA-256 and size of each baseline
+ */
+export type BaselineBundleManifest = {
+  format: string;
+  version: number;
+  hash: string;
+  createdAt: number;
+  branch: string | null;
+  baselines: {
+    storyIdentifier: StoryIdentifier;
+    file: string;
+    sha256: string;
+    size: number;
+  }[];
+};
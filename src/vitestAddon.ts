@@ -19,11 +19,17 @@ import {
   startTrace,
   endTrace,
 } from "./commands/index.js";
-import type { RedisClientOptions } from "redis";
+import type { RedisConnectionOptions } from "./storage/redisConnection.js";
 import type { PluginOption } from "vite";
 import VisualTestReporter, {
   type VisualTestReporterOptions,
 } from "./reporter/VisualTestReporter.js";
+import { VisualTestStorageAPI } from "./storage/VisualTestStorageAPI.js";
+import { FileSystemImageStore } from "./storage/FileSystemImageStore.js";
+import {
+  isStorageAdapter,
+  type StorageAdapter,
+} from "./storage/StorageAdapter.js";
 
 /**
  * Creates a Vite plugin configuration for visual regression testing.
@@ -31,7 +37,7 @@ import VisualTestReporter, {
  * This plugin registers custom commands for visual testing (snapshot capture, comparison, etc.)
  * and configures the VisualTestReporter to handle test results with Redis-based storage.
  *
- * @param redisClientOptions - Configuration options for connecting to Redis, used for storing and retrieving visual test data
+ * @param storage - Configuration options for connecting to Redis (default storage; standalone, cluster or sentinel), or a custom `StorageAdapter` used for storing and retrieving visual test data
  * @param visualTestReporterOptions - Optional configuration for the visual test reporter, such as output formatting or storage settings
  * @returns An array containing the Vite plugin configuration with visual testing capabilities
  *
@@ -50,9 +56,15 @@ import VisualTestReporter, {
  *   ]
  * });
  * ```
+ *
+ * @example
+ * ```ts
+ * // With a custom storage adapter
+ * simpleVisualTests({ metadata: new MyMetadataStore(), images: new MyImageStore() });
+ * ```
  */
 export const simpleVisualTests = (
-  redisClientOptions: RedisClientOptions,
+  storage: RedisConnectionOptions | StorageAdapter,
   visualTestReporterOptions?: VisualTestReporterOptions
 ): PluginOption[] => [
   {
@@ -79,6 +91,20 @@ export const simpleVisualTests = (
         "/src/matcher/toMatchStorySnapshot.js"
       );
 
+      // Let server commands (getBaseline) read baselines from the custom image store or the project images (unless a baseline bundle is given)
+      if (!process.env.VITE_VISUAL_TEST_BASELINE_BUNDLE) {
+        if (isStorageAdapter(storage)) {
+          VisualTestStorageAPI.setFileStorageOnlyApi(storage.images);
+        } else if (visualTestReporterOptions?.project) {
+          VisualTestStorageAPI.setFileStorageOnlyApi(
+            new FileSystemImageStore(
+              undefined,
+              visualTestReporterOptions.project
+            )
+          );
+        }
+      }
+
       return {
         server: {
           fs: {
@@ -87,11 +113,8 @@ export const simpleVisualTests = (
         },
         test: {
           reporters: [
-            // Initialize the visual test reporter with Redis connection and optional settings
-            new VisualTestReporter(
-              redisClientOptions,
-              visualTestReporterOptions
-            ),
+            // Initialize the visual test reporter with storage (Redis connection or adapter) and optional settings
+            new VisualTestReporter(storage, visualTestReporterOptions),
           ],
           // Register the custom matcher for snapshot comparison
           setupFiles: [storyMatcherPath],
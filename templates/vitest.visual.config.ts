@@ -3,6 +3,7 @@ import { simpleVisualTests } from "simple-visual-tests/server";
 
 export default defineConfig({
   plugins: [
+    // Lite mode without Redis: `simpleVisualTests(createLiteStorageAdapter(), { log: true })`
     simpleVisualTests({ url: "redis://localhost:6379" }, { log: true }),
   ],
   test: {
@@ -6,6 +6,15 @@ export default defineConfig({
     include: [
       "./src/storage/RedisPubSub.integration.spec.ts",
       "./src/storage/VisualTestStorageAPI.integration.spec.ts",
+      "./src/storage/RedisDeployments.integration.spec.ts",
+      "./src/storage/VisualTestStorageAPI.spec.ts",
+      "./src/storage/FileSystemImageStore.spec.ts",
+      "./src/storage/JsonFileMetadataStore.spec.ts",
+      "./src/storage/S3ImageStore.spec.ts",
+      "./src/storage/BundleImageStore.spec.ts",
+      "./src/storage/ContentAddressedImageStore.spec.ts",
+      "./src/storage/redisConnection.spec.ts",
+      "./src/reporter/runEnvironment.spec.ts",
       "./src/commands/compareSnapshots.spec.ts",
       "./templates/helpers/loadStories.spec.ts",
       "./templates/helpers/getViewportConfig.spec.ts",